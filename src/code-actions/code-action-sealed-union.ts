@@ -0,0 +1,84 @@
+import {
+  CodeAction,
+  CodeActionKind,
+  CodeActionProvider,
+  Range,
+  TextDocument,
+} from "vscode";
+import { findSealedUnions, SealedUnionDeclaration } from "../generators";
+
+/**
+ * Offers to add, rename and remove the cases of the generated sealed union
+ * under the cursor.
+ */
+export class CodeActionSealedUnion implements CodeActionProvider {
+  public static readonly providedCodeActionKinds = [
+    CodeActionKind.RefactorRewrite,
+  ];
+
+  /**
+   * The unions of the last document, parsed once per version since the
+   * actions are requested on every cursor move.
+   */
+  private cache?: {
+    uri: string;
+    version: number;
+    unions: Array<SealedUnionDeclaration>;
+  };
+
+  public provideCodeActions(
+    document: TextDocument,
+    range: Range
+  ): CodeAction[] {
+    const source = document.getText();
+    if (!source.includes("sealed class")) {
+      return [];
+    }
+
+    const offset = document.offsetAt(range.start);
+    const union = this.unionsOf(document, source).find((candidate) => {
+      const classes = [
+        candidate.sealedClass,
+        candidate.baseClass,
+        ...candidate.caseClasses.values(),
+      ];
+      return classes.some(
+        (declaration) =>
+          declaration.start <= offset && offset <= declaration.end
+      );
+    });
+    if (!union) {
+      return [];
+    }
+
+    const actions = [
+      { title: `Add case to ${union.className}`, command: "add-case" },
+      { title: `Rename case of ${union.className}`, command: "rename-case" },
+      { title: `Remove case from ${union.className}`, command: "remove-case" },
+    ];
+    return actions.map(({ title, command }) => {
+      const action = new CodeAction(title, CodeActionKind.RefactorRewrite);
+      action.command = {
+        command: `flutter-plus.sealed-union.${command}`,
+        title,
+        arguments: [document.uri, union.className],
+      };
+      return action;
+    });
+  }
+
+  private unionsOf(
+    document: TextDocument,
+    source: string
+  ): Array<SealedUnionDeclaration> {
+    const uri = document.uri.toString();
+    if (this.cache?.uri !== uri || this.cache.version !== document.version) {
+      this.cache = {
+        uri,
+        version: document.version,
+        unions: findSealedUnions(source),
+      };
+    }
+    return this.cache.unions;
+  }
+}
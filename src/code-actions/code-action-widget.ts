@@ -0,0 +1,67 @@
+import {
+  CodeAction,
+  CodeActionKind,
+  CodeActionProvider,
+  Range,
+  TextDocument,
+} from "vscode";
+import { FlutterPlusConfig } from "../config/config";
+import { moveWidget } from "../generators";
+import { findWidgetRange, findWrappedWidget } from "../parser";
+import { documentTokens } from "./document-tokens";
+
+/** Offers to unwrap, swap the wrapper of and move the widget at the cursor. */
+export class CodeActionWidget implements CodeActionProvider {
+  public static readonly providedCodeActionKinds = [
+    CodeActionKind.RefactorRewrite,
+  ];
+
+  public provideCodeActions(
+    document: TextDocument,
+    range: Range
+  ): CodeAction[] {
+    const source = document.getText();
+    const tokens = documentTokens(document, source);
+    const widget = findWidgetRange(
+      source,
+      document.offsetAt(range.start),
+      document.offsetAt(range.end),
+      tokens
+    );
+    if (!widget) {
+      return [];
+    }
+
+    const actions: Array<{ title: string; command: string }> = [];
+    if (findWrappedWidget(source, widget, tokens)) {
+      actions.push({
+        title: "Remove this widget",
+        command: "flutter-plus.unwrap",
+      });
+      if (FlutterPlusConfig.getInstance().getCustomWraps().length) {
+        actions.push({
+          title: `Replace ${widget.name} with...`,
+          command: "flutter-plus.swap-wrapper",
+        });
+      }
+    }
+    if (moveWidget(source, widget, "up", tokens)) {
+      actions.push({
+        title: "Move widget up",
+        command: "flutter-plus.move-widget-up",
+      });
+    }
+    if (moveWidget(source, widget, "down", tokens)) {
+      actions.push({
+        title: "Move widget down",
+        command: "flutter-plus.move-widget-down",
+      });
+    }
+
+    return actions.map(({ title, command }) => {
+      const action = new CodeAction(title, CodeActionKind.RefactorRewrite);
+      action.command = { command, title };
+      return action;
+    });
+  }
+}
@@ -1,30 +1,54 @@
 /* eslint-disable curly */
 
-import { CodeAction, CodeActionKind, CodeActionProvider, window } from "vscode";
-import { getSelectedText } from "../utils";
+import * as path from "path";
+import {
+    CodeAction,
+    CodeActionKind,
+    CodeActionProvider,
+    Range,
+    TextDocument,
+} from "vscode";
+import { wrapApplies, wrapContext } from "../generators";
+import { findWidgetRange } from "../parser";
 import { CodeWrap } from "../extension";
+import { documentTokens } from "./document-tokens";
 
+/**
+ * Offers the wraps that apply to the widget at the cursor, each under the
+ * kind of its group, e.g. `refactor.rewrite.flutterPlus.wrap.layout`.
+ */
 export class CodeActionWrap implements CodeActionProvider {
+    public static readonly kind = CodeActionKind.RefactorRewrite.append("flutterPlus.wrap");
+
+    public static readonly providedCodeActionKinds = [CodeActionWrap.kind];
+
     private wraps: Array<CodeWrap>;
 
     constructor(customWraps: Array<CodeWrap>) {
         this.wraps = customWraps;
     }
 
-    public provideCodeActions(): CodeAction[] {
-        const editor = window.activeTextEditor;
-        if (!editor) return [];
-
-        const selectedText = editor.document.getText(getSelectedText(editor));
-        if (selectedText === "") return [];
+    public provideCodeActions(document: TextDocument, range: Range): CodeAction[] {
+        const source = document.getText();
+        const tokens = documentTokens(document, source);
+        const widget = findWidgetRange(
+            source,
+            document.offsetAt(range.start),
+            document.offsetAt(range.end),
+            tokens
+        );
+        if (!widget) return [];
 
-        return this.wraps.map((c) => {
-            let action = new CodeAction(c.title, CodeActionKind.Refactor);
-            action.command = {
-                command: c.commandId,
-                title: c.title,
-            };
-            return action;
-        });
+        const context = wrapContext(source, widget, path.basename(document.uri.fsPath), tokens);
+        return this.wraps
+            .filter((c) => wrapApplies(c.when, context))
+            .map((c) => {
+                let action = new CodeAction(c.title, CodeActionWrap.kind.append(c.group));
+                action.command = {
+                    command: c.commandId,
+                    title: c.title,
+                };
+                return action;
+            });
     }
-}
\ No newline at end of file
+}
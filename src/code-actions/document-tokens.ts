@@ -0,0 +1,31 @@
+import { TextDocument } from "vscode";
+import { DartToken, tokenizeDart } from "../parser";
+
+/**
+ * The tokens of the last document, shared by the code action providers
+ * and computed once per version since the actions are requested on every
+ * cursor move.
+ */
+let cache:
+  | {
+      uri: string;
+      version: number;
+      tokens: Array<DartToken>;
+    }
+  | undefined;
+
+/** Returns the tokens of `document` with its text `source`. */
+export const documentTokens = (
+  document: TextDocument,
+  source: string
+): Array<DartToken> => {
+  const uri = document.uri.toString();
+  if (cache?.uri !== uri || cache.version !== document.version) {
+    cache = {
+      uri,
+      version: document.version,
+      tokens: tokenizeDart(source),
+    };
+  }
+  return cache.tokens;
+};
@@ -1 +1,3 @@
 export * from "./code-action-wrap";
+export * from "./code-action-sealed-union";
+export * from "./code-action-widget";
@@ -0,0 +1,214 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { TaskDiagnostics } from "../diagnostics";
+import { BuildWatch, BuildWatchState } from "../tasks";
+import {
+  DartCodeAdapter,
+  pickPackageRoot,
+  ProcessFactory,
+  sdkExecutable,
+  spawnProcess,
+} from "../utils";
+
+const title = "build_runner watch";
+
+/** Icon and description of each state in the status bar. */
+const states = new Map<BuildWatchState, [string, string]>([
+  ["starting", ["$(sync~spin)", "starting"]],
+  ["building", ["$(sync~spin)", "building"]],
+  ["idle", ["$(check)", "idle"]],
+  ["error", ["$(error)", "build failed"]],
+  ["stopped", ["$(debug-stop)", "stopped"]],
+]);
+
+/**
+ * Runs `build_runner watch` in the packages it was started in, see
+ * `BuildWatch`. A status bar item shows whether a package is building or
+ * its last build failed, and the problems of the builds are shown in the
+ * Problems panel.
+ */
+export class BuildWatchers implements vscode.Disposable {
+  private readonly watches = new Map<string, BuildWatch>();
+  private readonly output = vscode.window.createOutputChannel(
+    "Flutter Plus: build_runner"
+  );
+  private readonly diagnostics = new TaskDiagnostics(
+    "flutter-plus.build-runner"
+  );
+  private readonly statusBarItem = vscode.window.createStatusBarItem(
+    vscode.StatusBarAlignment.Left
+  );
+
+  constructor(
+    private readonly sdk: DartCodeAdapter,
+    private readonly spawn: ProcessFactory = spawnProcess
+  ) {
+    this.statusBarItem.name = title;
+    this.statusBarItem.command = "flutter-plus.build-runner-watch.actions";
+  }
+
+  /**
+   * Starts watching the package containing `uri`, see {@link pickPackageRoot}.
+   * A package that is already watched is restarted.
+   */
+  public async start(uri?: vscode.Uri): Promise<void> {
+    const root = await pickPackageRoot(uri, this.sdk.projects());
+    if (!root) {
+      vscode.window.showErrorMessage("No Dart package found in the workspace.");
+      return;
+    }
+    this.watch(root.fsPath);
+  }
+
+  /** Stops watching the package picked among the watched ones. */
+  public async stop(): Promise<void> {
+    const cwd = await this.pickWatched("Package to stop watching");
+    if (cwd) {
+      this.unwatch(cwd);
+    }
+  }
+
+  /** Restarts watching the package picked among the watched ones. */
+  public async restart(): Promise<void> {
+    const cwd = await this.pickWatched("Package to restart watching");
+    if (cwd) {
+      this.watch(cwd);
+    }
+  }
+
+  /** Offers to restart, stop or show the output of a watched package. */
+  public async showActions(): Promise<void> {
+    const items = [...this.watches.values()].flatMap((watch) => {
+      const name = path.basename(watch.cwd);
+      const [icon, state] = states.get(watch.state)!;
+      return [
+        { label: name, kind: vscode.QuickPickItemKind.Separator },
+        {
+          label: `$(debug-restart) Restart`,
+          description: `${icon} ${state}`,
+          run: () => this.watch(watch.cwd),
+        },
+        { label: `$(debug-stop) Stop`, run: () => this.unwatch(watch.cwd) },
+      ];
+    });
+    const picked = await vscode.window.showQuickPick<
+      vscode.QuickPickItem & { run?: () => void }
+    >(
+      [
+        ...items,
+        { label: "", kind: vscode.QuickPickItemKind.Separator },
+        { label: "$(output) Show Output", run: () => this.output.show() },
+      ],
+      { placeHolder: title }
+    );
+    picked?.run?.();
+  }
+
+  private watch(cwd: string) {
+    // Removed first, so that its exit is not reported
+    const previous = this.watches.get(cwd);
+    this.watches.delete(cwd);
+    previous?.stop();
+    const watch = new BuildWatch(
+      this.spawn,
+      sdkExecutable(this.sdk, "dart"),
+      cwd,
+      {
+        onOutput: (_, text) => this.output.append(text),
+        onState: (watch) => this.update(watch),
+      }
+    );
+    this.watches.set(cwd, watch);
+    this.output.appendLine(`> ${title} (${cwd})`);
+    this.update(watch);
+  }
+
+  private unwatch(cwd: string) {
+    const watch = this.watches.get(cwd);
+    this.watches.delete(cwd);
+    watch?.stop();
+    this.diagnostics.report({ title, cwd }, []);
+    this.updateStatusBar();
+  }
+
+  private update(watch: BuildWatch) {
+    // A replaced or stopped watch may still report its exit
+    if (this.watches.get(watch.cwd) !== watch) {
+      return;
+    }
+    const name = path.basename(watch.cwd);
+    if (watch.state === "idle" || watch.state === "error") {
+      this.diagnostics.report({ title, cwd: watch.cwd }, watch.problems);
+    }
+    if (watch.state === "stopped") {
+      this.watches.delete(watch.cwd);
+      vscode.window
+        .showErrorMessage(
+          `${title} stopped in ${name} with code ${watch.exitCode ?? "none"}.`,
+          "Restart",
+          "Show Output"
+        )
+        .then((answer) => {
+          if (answer === "Restart") {
+            this.watch(watch.cwd);
+          } else if (answer === "Show Output") {
+            this.output.show();
+          }
+        });
+    }
+    this.updateStatusBar();
+  }
+
+  private updateStatusBar() {
+    const watches = [...this.watches.values()];
+    if (!watches.length) {
+      this.statusBarItem.hide();
+      return;
+    }
+    // The most urgent state is shown: a failed build, then a running one
+    const state =
+      (["error", "building", "starting"] as const).find((state) =>
+        watches.some((watch) => watch.state === state)
+      ) ?? "idle";
+    const [icon] = states.get(state)!;
+    this.statusBarItem.text = `${icon} build_runner`;
+    this.statusBarItem.tooltip = watches
+      .map(
+        (watch) => `${path.basename(watch.cwd)}: ${states.get(watch.state)![1]}`
+      )
+      .join("\n");
+    this.statusBarItem.backgroundColor =
+      state === "error"
+        ? new vscode.ThemeColor("statusBarItem.errorBackground")
+        : undefined;
+    this.statusBarItem.show();
+  }
+
+  private async pickWatched(placeHolder: string) {
+    const watched = [...this.watches.keys()];
+    if (watched.length <= 1) {
+      if (!watched.length) {
+        vscode.window.showInformationMessage(`${title} is not running.`);
+      }
+      return watched[0];
+    }
+    const picked = await vscode.window.showQuickPick(
+      watched.map((cwd) => ({
+        label: path.basename(cwd),
+        description: vscode.workspace.asRelativePath(cwd),
+        cwd,
+      })),
+      { placeHolder }
+    );
+    return picked?.cwd;
+  }
+
+  dispose() {
+    const watches = [...this.watches.values()];
+    this.watches.clear();
+    watches.forEach((watch) => watch.stop());
+    this.output.dispose();
+    this.diagnostics.dispose();
+    this.statusBarItem.dispose();
+  }
+}
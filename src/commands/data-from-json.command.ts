@@ -0,0 +1,123 @@
+import * as vscode from "vscode";
+import { FlutterPlusConfig } from "../config/config";
+import {
+  dataClassImports,
+  detectKeyStyle,
+  generateDataClass,
+  inferJsonModels,
+  jsonModelSpec,
+} from "../generators";
+import { importEdit } from "../utils";
+import { pickDataClassMembers, pickNamingStyle } from "./data.command";
+
+/**
+ * Generates Dart data classes from a JSON sample taken from the selection
+ * or, when the selection is not JSON, from the clipboard.
+ * Nested objects and lists of objects become their own classes.
+ */
+export const dataClassFromJson = async () => {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    return vscode.window.showErrorMessage("No active editor found.");
+  }
+
+  const selection = editor.selection;
+  let sample = parseJson(editor.document.getText(selection));
+  const replaceSelection = sample !== undefined;
+  if (sample === undefined) {
+    sample = parseJson(await vscode.env.clipboard.readText());
+  }
+  if (sample === undefined) {
+    return vscode.window.showErrorMessage(
+      "Select a JSON document or copy it to the clipboard."
+    );
+  }
+
+  const className = (
+    await vscode.window.showInputBox({
+      prompt: "Enter the root class name",
+      value: "Model",
+      validateInput: (value) =>
+        /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(value.trim())
+          ? undefined
+          : "Invalid class name.",
+    })
+  )?.trim();
+
+  if (!className) {
+    return vscode.window.showErrorMessage("Class name input was cancelled.");
+  }
+
+  const { ask, dataClass: defaults } =
+    await FlutterPlusConfig.getInstance().getGeneratorDefaults(
+      editor.document.uri
+    );
+
+  const suffix = ask
+    ? (
+        await vscode.window.showInputBox({
+          prompt: "Enter class suffix (e.g., 'DTO' or leave empty)",
+          value: defaults.suffix,
+        })
+      )?.trim() ?? ""
+    : defaults.suffix;
+
+  const models = inferJsonModels(sample, className, suffix);
+  if (models.length === 0) {
+    return vscode.window.showErrorMessage(
+      "The JSON document does not contain an object."
+    );
+  }
+
+  const namingStyle =
+    ask || !defaults.keyCase
+      ? await pickNamingStyle(defaults.keyCase ?? detectKeyStyle(models))
+      : defaults.keyCase;
+  if (!namingStyle) {
+    return vscode.window.showErrorMessage("No naming style selected.");
+  }
+
+  const members = ask
+    ? await pickDataClassMembers(defaults.members)
+    : defaults.members;
+  if (!members) {
+    return vscode.window.showErrorMessage("No members selected.");
+  }
+
+  const specs = models.map((model) =>
+    jsonModelSpec(model, { namingStyle, members })
+  );
+  const code = specs.map((spec) => generateDataClass(spec)).join("\n\n");
+  const imports = await importEdit(
+    editor.document,
+    specs.flatMap(dataClassImports)
+  );
+
+  await editor.edit((editBuilder) => {
+    if (imports) {
+      editBuilder.replace(
+        new vscode.Range(
+          editor.document.positionAt(imports.start),
+          editor.document.positionAt(imports.end)
+        ),
+        imports.text
+      );
+    }
+    if (replaceSelection) {
+      editBuilder.replace(selection, code);
+    } else {
+      editBuilder.insert(selection.active, code);
+    }
+  });
+};
+
+const parseJson = (text: string): unknown => {
+  if (!text.trim()) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch (_) {
+    return undefined;
+  }
+};
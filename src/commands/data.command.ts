@@ -1,8 +1,31 @@
 import * as vscode from "vscode";
+import {
+  dataClassImports,
+  DataClassOptions,
+  dataClassSpec,
+  defaultDataClassOptions,
+  hintedEnumNames,
+  isGeneratedDataClass,
+  NamingStyle,
+  namingStyles,
+  refreshDataClass,
+  renameDataClass,
+  validateFieldHints,
+} from "../generators";
+import { FlutterPlusConfig } from "../config/config";
+import { DartEnum, parseDart } from "../parser";
+import { GeneratedEdit, importEdit } from "../utils";
 
 /**
  * Generates a Dart data class with a specified suffix and naming style.
- * Supports enums and custom serialization through comments.
+ * The map/JSON conversion, `copyWith`, equality and `toString` members are
+ * optional. Field keys, defaults, enums and custom serialization are set
+ * with hints in the comments of the fields, see {@link FieldHints}.
+ * The generated members are inserted in the classes, or replace the ones
+ * generated before, and hand-written members are kept. Classes with a
+ * superclass are not supported.
+ * In preview mode the changes to all classes are shown in the refactor
+ * preview before they are applied.
  */
 export const dataClass = async () => {
   const editor = vscode.window.activeTextEditor;
@@ -10,225 +33,229 @@ export const dataClass = async () => {
     return vscode.window.showErrorMessage("No active editor found.");
   }
 
+  const document = editor.document;
   const selection = editor.selection;
-  let classCode =
-    editor.document.getText(selection).trim() || editor.document.getText();
-
-  const suffix =
-    (
-      await vscode.window.showInputBox({
-        prompt: "Enter class suffix (e.g., 'DTO' or leave empty)",
-      })
-    )?.trim() ?? "";
-
-  const namingStyle = await vscode.window.showQuickPick(
-    ["camelCase", "snake_case", "PascalCase", "kebab-case", "original"],
-    { placeHolder: "Select the field naming style" }
+  const selectionStart = document.offsetAt(selection.start);
+  const selectionEnd = document.offsetAt(selection.end);
+  const source = document.getText();
+  const unit = parseDart(source);
+  const classes = unit.classes.filter(
+    (declaration) =>
+      selection.isEmpty ||
+      (declaration.end > selectionStart && declaration.start < selectionEnd)
   );
 
+  if (classes.length === 0) {
+    return vscode.window.showErrorMessage("No Dart class found to update.");
+  }
+
+  // Invalid hints are shown as diagnostics, generating code from them
+  // would silently ignore them.
+  const invalidHint = classes
+    .flatMap((declaration) => validateFieldHints(declaration, source))
+    .find((hint) => hint.severity === "error");
+  if (invalidHint) {
+    const line = document.positionAt(invalidHint.start).line + 1;
+    return vscode.window.showErrorMessage(
+      `Invalid data class hint on line ${line}: ${invalidHint.message}`
+    );
+  }
+
+  const {
+    ask,
+    preview,
+    dataClass: defaults,
+  } = await FlutterPlusConfig.getInstance().getGeneratorDefaults(document.uri);
+
+  // Classes with previously generated members are refreshed in place and
+  // keep their name: the suffix is only for the new classes, if any.
+  const suffix = classes.every(isGeneratedDataClass)
+    ? ""
+    : !ask
+    ? defaults.suffix
+    : (
+        await vscode.window.showInputBox({
+          prompt: "Enter class suffix (e.g., 'DTO' or leave empty)",
+          value: defaults.suffix,
+        })
+      )?.trim() ?? "";
+
+  const namingStyle =
+    ask || !defaults.keyCase
+      ? await pickNamingStyle(defaults.keyCase)
+      : defaults.keyCase;
   if (!namingStyle) {
     return vscode.window.showErrorMessage("No naming style selected.");
   }
 
-  const convertCase = {
-    camelCase: (str: string) =>
-      str.replace(/_./g, (s) => s.charAt(1).toUpperCase()),
-    snake_case: (str: string) =>
-      str.replace(/([a-z])([A-Z])/g, "$1_$2").toLowerCase(),
-    PascalCase: (str: string) =>
-      str.replace(/(^\w|_\w)/g, (s: string) =>
-        s.replace("_", "").toUpperCase()
-      ),
-    "kebab-case": (str: string) =>
-      str.replace(/([a-z])([A-Z])/g, "$1-$2").toLowerCase(),
-    original: (str: any) => str,
-  }[namingStyle];
-
-  const classRegex = /class\s+(\w+)\s*{([\s\S]*?)}/g;
-  let classMatch;
-  let edits: { range: vscode.Range; newText: string }[] = [];
-
-  while ((classMatch = classRegex.exec(classCode)) !== null) {
-    const className = classMatch[1];
-    const classBody = classMatch[2];
-    const dtoClassName = `${className}${suffix}`;
-
-    const dartBuiltInTypes = new Set([
-      "int",
-      "double",
-      "String",
-      "bool",
-      "num",
-      "List",
-      "Map",
-      "Set",
-      "dynamic",
-    ]);
-
-    interface Field {
-      type: string;
-      name: string;
-      snakeName: string;
-      nullable: boolean;
-      isEnum: boolean;
-      isClass: boolean;
-      customParsing: { fromJson?: string; toJson?: string };
-    }
-    const fields: Field[] = [];
-    const lines = classBody.split("\n");
-
-    // Проходим по каждой строке, чтобы найти объявление поля и его комментарии
-    for (let i = 0; i < lines.length; i++) {
-      const trimmedLine = lines[i].trim();
-      const fieldMatch = trimmedLine.match(/^final\s+(\w+\??)\s+(\w+);/);
-      if (fieldMatch) {
-        const type = fieldMatch[1];
-        const name = fieldMatch[2];
-        const nullable = type.endsWith("?");
-        let isEnum = false;
-        let isClass = !dartBuiltInTypes.has(type.replace("?", ""));
-        let customParsing: { fromJson?: string; toJson?: string } = {};
-
-        // Собираем блок комментариев, который находится непосредственно над объявлением поля
-        let commentBlock = "";
-        let j = i - 1;
-        while (j >= 0 && lines[j].trim().startsWith("//")) {
-          // Убираем префикс "//" и добавляем строку в блок комментариев
-          commentBlock =
-            lines[j].trim().replace(/^\/\//, "").trim() + "\n" + commentBlock;
-          j--;
-        }
-
-        // Если в комментариях указано, что тип - enum, то это enum
-        if (commentBlock.includes("Type: enum")) {
-          isEnum = true;
-          isClass = false;
-        }
-
-        // Если есть инструкции парсинга, например:
-        // Parsing: Count.fromString(value), Count.serialize(value)
-        const parsingRegex = /Parsing:\s*(.*),\s*(.*)/;
-        const parsingMatch = commentBlock.match(parsingRegex);
-        if (parsingMatch) {
-          customParsing.fromJson = parsingMatch[1].trim();
-          customParsing.toJson = parsingMatch[2].trim();
-        }
-
-        fields.push({
-          type,
-          name,
-          snakeName: convertCase ? convertCase(name) : name,
-          nullable,
-          isEnum,
-          isClass,
-          customParsing,
-        });
-      }
-    }
+  const members = ask
+    ? await pickDataClassMembers(defaults.members)
+    : defaults.members;
+  if (!members) {
+    return vscode.window.showErrorMessage("No members selected.");
+  }
+
+  // Enums of this file, and the ones of `@enum` fields declared elsewhere.
+  const missingEnums = classes
+    .flatMap((declaration) => hintedEnumNames(declaration, source))
+    .filter((name) => !unit.enums.some((e) => e.name === name));
+  const enums = [
+    ...unit.enums,
+    ...(await findWorkspaceEnums([...new Set(missingEnums)])),
+  ];
 
-    if (!fields.length) {
+  const edit = new GeneratedEdit("Generate data classes", preview);
+  const imports: Array<string> = [];
+
+  for (const declaration of classes) {
+    // The arguments of the superclass constructor are unknown, the
+    // generated constructor could not call it.
+    if (declaration.superclass) {
       vscode.window.showErrorMessage(
-        `No valid fields found in class ${className}.`
+        `Class ${declaration.name} extends ${declaration.superclass.text}, data classes with a superclass are not supported.`
       );
       continue;
     }
 
-    const generateFieldDeclarations = () =>
-      fields.map(({ type, name }) => `final ${type} ${name};`).join("\n  ");
-
-    const generateConstructor = () =>
-      `const ${dtoClassName}({
-    ${fields
-      .map(
-        ({ name, nullable }) => `${nullable ? "" : "required "}this.${name},`
-      )
-      .join("\n    ")}
-  });`;
-
-    const generateFactoryMethods = () =>
-      `factory ${dtoClassName}.fromMap(Map<String, dynamic> map) => ${dtoClassName}(
-    ${fields
-      .map(({ type, name, snakeName, customParsing, isEnum, isClass }) => {
-        if (customParsing.fromJson) {
-          return `${name}: ${customParsing.fromJson.replace(
-            "value",
-            `map['${snakeName}']`
-          )},`;
-        }
-        if (isEnum) {
-          return `${name}: ${name}FromString(map['${snakeName}']),`;
-        }
-        if (isClass) {
-          // Убираем nullable знак у типа для вызова fromMap
-          const nonNullableType = type.replace("?", "");
-          return `${name}: map['${snakeName}'] != null ? ${nonNullableType}.fromMap(map['${snakeName}']) : null,`;
-        }
-        return `${name}: map['${snakeName}'],`;
-      })
-      .join("\n    ")}
-  );
+    const spec = dataClassSpec(declaration, source, {
+      suffix: isGeneratedDataClass(declaration) ? "" : suffix,
+      namingStyle,
+      members,
+      enums,
+    });
 
-  factory ${dtoClassName}.fromJson(String source) =>
-      ${dtoClassName}.fromMap(json.decode(source));`;
-
-    const generateToMapAndJson = () =>
-      `Map<String, dynamic> toMap() => {
-    ${fields
-      .map(({ name, snakeName, customParsing, isEnum, isClass }) => {
-        if (customParsing.toJson) {
-          return `'${snakeName}': ${customParsing.toJson.replace(
-            "value",
-            name
-          )},`;
-        }
-        if (isEnum) {
-          return `'${snakeName}': ${name}ToString(${name}),`;
-        }
-        if (isClass) {
-          return `'${snakeName}': ${name}?.toMap(),`;
-        }
-        return `'${snakeName}': ${name},`;
-      })
-      .join("\n    ")}
-  };
+    if (!spec.fields.length) {
+      vscode.window.showErrorMessage(
+        `No valid fields found in class ${declaration.name}.`
+      );
+      continue;
+    }
 
-  String toJson() => json.encode(toMap());`;
-
-    const generateToString = () =>
-      `@override
-  String toString() => '${dtoClassName}(${fields
-        .map(({ name }) => `${name}: \$${name}`)
-        .join(", ")})';`;
-
-    const updatedClass = `class ${dtoClassName} {
-  ${generateFieldDeclarations()}
-  
-  ${generateConstructor()}
-  
-  ${generateFactoryMethods()}
-  
-  ${generateToMapAndJson()}
-  
-  ${generateToString()}
-}`;
-
-    const start = editor.document.positionAt(classMatch.index);
-    const end = editor.document.positionAt(
-      classMatch.index + classMatch[0].length
-    );
-    edits.push({
-      range: new vscode.Range(start, end),
-      newText: updatedClass.trim(),
-    });
+    imports.push(...dataClassImports(spec));
+    // New classes are edited like the generated ones, and renamed when they
+    // get a suffix.
+    const replacements = refreshDataClass(declaration, spec);
+    if (spec.name !== declaration.name) {
+      replacements.push(
+        ...renameDataClass(declaration, source, spec.name, replacements)
+      );
+    }
+    for (const replacement of replacements) {
+      edit.replace(
+        document.uri,
+        new vscode.Range(
+          document.positionAt(replacement.start),
+          document.positionAt(replacement.end)
+        ),
+        replacement.text
+      );
+    }
   }
 
-  if (edits.length === 0) {
+  if (edit.size === 0) {
     return vscode.window.showErrorMessage("No Dart class found to update.");
   }
 
-  await editor.edit((editBuilder) => {
-    for (const edit of edits) {
-      editBuilder.replace(edit.range, edit.newText);
+  const importReplacement = await importEdit(document, imports);
+  if (importReplacement) {
+    edit.replace(
+      document.uri,
+      new vscode.Range(
+        document.positionAt(importReplacement.start),
+        document.positionAt(importReplacement.end)
+      ),
+      importReplacement.text
+    );
+  }
+
+  await edit.apply();
+};
+
+/**
+ * Finds the declarations of the enums `names` with the workspace symbols
+ * of the Dart analyzer. Enums that are not found are left out.
+ */
+const findWorkspaceEnums = async (
+  names: Array<string>
+): Promise<Array<DartEnum>> => {
+  const enums: Array<DartEnum> = [];
+  for (const name of names) {
+    const symbols =
+      (await vscode.commands.executeCommand<vscode.SymbolInformation[]>(
+        "vscode.executeWorkspaceSymbolProvider",
+        name
+      )) ?? [];
+    const symbol = symbols.find(
+      (symbol) => symbol.name === name && symbol.kind === vscode.SymbolKind.Enum
+    );
+    if (!symbol) {
+      continue;
     }
+    const document = await vscode.workspace.openTextDocument(
+      symbol.location.uri
+    );
+    const declaration = parseDart(document.getText()).enums.find(
+      (e) => e.name === name
+    );
+    if (declaration) {
+      enums.push(declaration);
+    }
+  }
+  return enums;
+};
+
+/**
+ * Asks for the naming style of the serialized keys.
+ * `preferred` is listed first.
+ */
+export const pickNamingStyle = async (
+  preferred?: NamingStyle
+): Promise<NamingStyle | undefined> =>
+  (await vscode.window.showQuickPick(
+    preferred
+      ? [preferred, ...namingStyles.filter((style) => style !== preferred)]
+      : [...namingStyles],
+    { placeHolder: "Select the field naming style" }
+  )) as NamingStyle | undefined;
+
+/**
+ * Asks which optional data class members to generate, with the members
+ * of `initial` selected.
+ */
+export const pickDataClassMembers = async (
+  initial: DataClassOptions = defaultDataClassOptions
+): Promise<DataClassOptions | undefined> => {
+  const options = [
+    { label: "Generate fromMap/toMap methods", id: "mapMethods" },
+    { label: "Generate fromJson/toJson methods", id: "jsonMethods" },
+    { label: "Generate copyWith method", id: "copyWithMethod" },
+    {
+      label: "Generate equality operator (==) and hashCode",
+      id: "equalityOperator",
+    },
+    { label: "Generate toString method", id: "toStringMethod" },
+  ] as const;
+
+  const items = options.map((option) => ({
+    ...option,
+    picked: initial[option.id],
+  }));
+  const selectedOptions = await vscode.window.showQuickPick(items, {
+    canPickMany: true,
+    placeHolder: "Select the members you want to generate",
   });
+
+  if (!selectedOptions) {
+    return undefined;
+  }
+
+  const isSelected = (id: keyof DataClassOptions) =>
+    selectedOptions.find((option) => option.id === id) !== undefined;
+  return {
+    mapMethods: isSelected("mapMethods"),
+    jsonMethods: isSelected("jsonMethods"),
+    copyWithMethod: isSelected("copyWithMethod"),
+    equalityOperator: isSelected("equalityOperator"),
+    toStringMethod: isSelected("toStringMethod"),
+  };
 };
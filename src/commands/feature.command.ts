@@ -0,0 +1,223 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { parse } from "yaml";
+import { FlutterPlusConfig } from "../config/config";
+import {
+  bundledFeatureTemplates,
+  FeatureTemplate,
+  featureNames,
+  findImports,
+  parseCaseSpec,
+  readFeatureTemplate,
+  RenderedFile,
+  renderFeature,
+  splitTopLevel,
+} from "../generators";
+import {
+  checkDependencies,
+  currentWorkspaceFolder,
+  GeneratedEdit,
+} from "../utils";
+import { pickDataClassMembers, pickNamingStyle } from "./data.command";
+
+/**
+ * Creates the files of a feature template in the `folder` selected in the
+ * Explorer, or in the current workspace folder.
+ */
+export const newFeature = async (folder?: vscode.Uri) => {
+  const target = folder ?? (await currentWorkspaceFolder())?.uri;
+  if (!target) {
+    return vscode.window.showErrorMessage("No workspace folder is open.");
+  }
+
+  const templates = [
+    ...bundledFeatureTemplates.map((template) => ({
+      template,
+      detail: "Bundled",
+    })),
+    ...(await workspaceTemplates(target)),
+  ];
+  const picked =
+    templates.length === 1
+      ? templates[0]
+      : await vscode.window.showQuickPick(
+          templates.map((item) => ({
+            label: item.template.name,
+            description: item.template.description,
+            detail: item.detail,
+            template: item.template,
+          })),
+          { placeHolder: "Select the feature template" }
+        );
+  if (!picked) {
+    return;
+  }
+
+  const name = await vscode.window.showInputBox({
+    prompt: "Enter the name of the feature",
+    placeHolder: "user profile",
+    validateInput: (value) =>
+      /^[A-Za-z]/.test(featureNames(value).snake)
+        ? undefined
+        : "The name must start with a letter.",
+  });
+  if (!name) {
+    return;
+  }
+  const names = featureNames(name);
+
+  const defaults = await FlutterPlusConfig.getInstance().getGeneratorDefaults(
+    target
+  );
+  const { files: templateFiles } = picked.template;
+
+  // The states of the files that do not list their own
+  let states = defaults.sealedStates.states;
+  if (
+    defaults.ask &&
+    templateFiles.some(
+      (file) => file.sealedStates !== undefined && !file.states
+    )
+  ) {
+    const input = await vscode.window.showInputBox({
+      prompt:
+        "Enter the states (camelCase) separated by commas, with their fields in parentheses",
+      value: states.join(", "),
+      validateInput: (value) =>
+        parseCaseSpec(value, "state").errors.join(" ") || undefined,
+    });
+    if (!input) {
+      return vscode.window.showErrorMessage("Input was cancelled.");
+    }
+    states = splitTopLevel(input, [","]).filter((state) => state);
+  }
+
+  let keyCase = defaults.dataClass.keyCase ?? "snake_case";
+  let members = defaults.dataClass.members;
+  if (
+    defaults.ask &&
+    templateFiles.some((file) => file.dataClass !== undefined)
+  ) {
+    const pickedKeyCase = await pickNamingStyle(keyCase);
+    if (!pickedKeyCase) {
+      return vscode.window.showErrorMessage("No naming style selected.");
+    }
+    const pickedMembers = await pickDataClassMembers(members);
+    if (!pickedMembers) {
+      return vscode.window.showErrorMessage("No members selected.");
+    }
+    keyCase = pickedKeyCase;
+    members = pickedMembers;
+  }
+
+  let files: Array<RenderedFile>;
+  try {
+    files = renderFeature(picked.template, names, {
+      states,
+      stateOptions: defaults.sealedStates.options,
+      useMeta: defaults.sealedStates.useMeta,
+      members,
+      keyCase,
+    });
+  } catch (error) {
+    return vscode.window.showErrorMessage(
+      `Cannot create the ${picked.template.name} template: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+
+  const uris = files.map((file) =>
+    vscode.Uri.joinPath(target, ...file.path.split("/"))
+  );
+  await checkDependencies(
+    target,
+    files.flatMap((file) => findImports(file.content).map(({ uri }) => uri))
+  );
+  const existing = await Promise.all(
+    uris.map((uri) =>
+      vscode.workspace.fs.stat(uri).then(
+        () => true,
+        () => false
+      )
+    )
+  );
+  if (existing.some((exists) => exists)) {
+    const answer = await vscode.window.showWarningMessage(
+      `${existing.filter((exists) => exists).length} files of ${
+        names.pascal
+      } already exist. Do you want to overwrite them?`,
+      { modal: true },
+      "Overwrite"
+    );
+    if (answer !== "Overwrite") {
+      return;
+    }
+  }
+
+  const edit = new GeneratedEdit(
+    `Create the ${names.pascal} feature`,
+    defaults.preview
+  );
+  files.forEach((file, index) => edit.createFile(uris[index], file.content));
+  if (await edit.apply()) {
+    await vscode.window.showTextDocument(uris[uris.length - 1]);
+  }
+};
+
+/**
+ * The templates of the `flutter-plus.featureTemplates` folder of the
+ * workspace folder containing [target]: one YAML file per template.
+ */
+const workspaceTemplates = async (
+  target: vscode.Uri
+): Promise<Array<{ template: FeatureTemplate; detail: string }>> => {
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(target);
+  const folderName = vscode.workspace
+    .getConfiguration("flutter-plus", target)
+    .get<string>("featureTemplates");
+  if (!workspaceFolder || !folderName) {
+    return [];
+  }
+  const folder = vscode.Uri.joinPath(workspaceFolder.uri, folderName);
+  let entries: Array<[string, vscode.FileType]>;
+  try {
+    entries = await vscode.workspace.fs.readDirectory(folder);
+  } catch (_) {
+    return [];
+  }
+
+  const templates: Array<{ template: FeatureTemplate; detail: string }> = [];
+  const errors: Array<string> = [];
+  for (const [fileName, type] of entries.sort(([a], [b]) =>
+    a.localeCompare(b)
+  )) {
+    if (type !== vscode.FileType.File || !/\.ya?ml$/.test(fileName)) {
+      continue;
+    }
+    const uri = vscode.Uri.joinPath(folder, fileName);
+    const location = vscode.workspace.asRelativePath(uri);
+    let template: FeatureTemplate | string;
+    try {
+      template = readFeatureTemplate(
+        parse(
+          new TextDecoder().decode(await vscode.workspace.fs.readFile(uri))
+        ),
+        path.basename(fileName, path.extname(fileName))
+      );
+    } catch (error) {
+      template = `${error}`;
+    }
+    if (typeof template === "string") {
+      errors.push(`${location}: ${template}`);
+    } else {
+      templates.push({ template, detail: location });
+    }
+  }
+  if (errors.length) {
+    vscode.window.showWarningMessage(
+      `Invalid feature templates: ${errors.join(" ")}`
+    );
+  }
+  return templates;
+};
@@ -1 +1,6 @@
-export * from "./sealed-states.command";
+export * from "./sealed-union.command";
+export * from "./sealed-union-case.command";
+export * from "./widget.command";
+export * from "./project-task.command";
+export * from "./build-watch.command";
+export * from "./feature.command";
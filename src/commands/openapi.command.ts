@@ -0,0 +1,137 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { parse } from "yaml";
+import { FlutterPlusConfig } from "../config/config";
+import { generateOpenApiModels } from "../generators";
+import { findPackageRoot, readPackageName } from "../utils";
+import { pickDataClassMembers } from "./data.command";
+
+/**
+ * Generates Dart models from the schemas of a local OpenAPI 3 (or JSON
+ * Schema) document, one file per schema in a chosen folder.
+ * The document is taken from the Explorer, the active editor or a file
+ * picker, nothing is fetched from the network.
+ */
+export const openApiModels = async (uri?: vscode.Uri) => {
+  const specUri = uri ?? (await pickSpecification());
+  if (!specUri) {
+    return vscode.window.showErrorMessage("No OpenAPI document selected.");
+  }
+
+  let document: unknown;
+  try {
+    const bytes = await vscode.workspace.fs.readFile(specUri);
+    // YAML is a superset of JSON, so both formats parse the same way.
+    document = parse(new TextDecoder().decode(bytes));
+  } catch (error) {
+    return vscode.window.showErrorMessage(
+      `Cannot read ${path.basename(specUri.fsPath)}: ${error}`
+    );
+  }
+
+  const [folder] =
+    (await vscode.window.showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      defaultUri: vscode.Uri.joinPath(specUri, ".."),
+      openLabel: "Generate models here",
+    })) ?? [];
+  if (!folder) {
+    return vscode.window.showErrorMessage("No output folder selected.");
+  }
+
+  const defaults = await FlutterPlusConfig.getInstance().getGeneratorDefaults(
+    folder
+  );
+  const members = defaults.ask
+    ? await pickDataClassMembers(defaults.dataClass.members)
+    : defaults.dataClass.members;
+  if (!members) {
+    return vscode.window.showErrorMessage("No members selected.");
+  }
+
+  const { files, warnings } = generateOpenApiModels(document, members, {
+    importPrefix:
+      defaults.importStyle === "package"
+        ? await packageImportPrefix(folder)
+        : undefined,
+  });
+  if (files.length === 0) {
+    return vscode.window.showErrorMessage(
+      "The document does not contain any schemas in components/schemas."
+    );
+  }
+
+  const existing: Array<string> = [];
+  for (const file of files) {
+    try {
+      await vscode.workspace.fs.stat(vscode.Uri.joinPath(folder, file.path));
+      existing.push(file.path);
+    } catch (_) {
+      // The file does not exist yet.
+    }
+  }
+  if (existing.length) {
+    const answer = await vscode.window.showWarningMessage(
+      `${existing.length} of ${files.length} files already exist and will be overwritten.`,
+      { modal: true },
+      "Overwrite"
+    );
+    if (answer !== "Overwrite") {
+      return;
+    }
+  }
+
+  for (const file of files) {
+    await vscode.workspace.fs.writeFile(
+      vscode.Uri.joinPath(folder, file.path),
+      new TextEncoder().encode(file.content)
+    );
+  }
+
+  if (warnings.length) {
+    vscode.window.showWarningMessage(
+      `Generated ${files.length} models with ${
+        warnings.length
+      } warnings: ${warnings.join("; ")}`
+    );
+  } else {
+    vscode.window.showInformationMessage(`Generated ${files.length} models.`);
+  }
+};
+
+/**
+ * The `package:` URI of `folder` if it is in the `lib` folder of a
+ * package, e.g. `package:app/src/models`.
+ */
+const packageImportPrefix = async (
+  folder: vscode.Uri
+): Promise<string | undefined> => {
+  const packageRoot = await findPackageRoot(folder);
+  const packageName = packageRoot && (await readPackageName(packageRoot));
+  if (!packageRoot || !packageName) {
+    return undefined;
+  }
+  const lib = vscode.Uri.joinPath(packageRoot, "lib").path;
+  if (folder.path !== lib && !folder.path.startsWith(`${lib}/`)) {
+    return undefined;
+  }
+  return `package:${packageName}${folder.path.substring(lib.length)}`;
+};
+
+/** The active YAML or JSON document, otherwise a file picked by the user. */
+const pickSpecification = async (): Promise<vscode.Uri | undefined> => {
+  const active = vscode.window.activeTextEditor?.document;
+  if (active && /\.(ya?ml|json)$/i.test(active.fileName)) {
+    return active.uri;
+  }
+  const [file] =
+    (await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+      filters: { OpenAPI: ["yaml", "yml", "json"] },
+      openLabel: "Generate models",
+    })) ?? [];
+  return file;
+};
@@ -0,0 +1,134 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { TaskDiagnostics } from "../diagnostics";
+import { TaskResult, TaskRunner } from "../tasks";
+import {
+  DartCodeAdapter,
+  pickPackageRoot,
+  ProcessFactory,
+  sdkExecutable,
+  spawnProcess,
+} from "../utils";
+
+/** A command line run in a package, e.g. `flutter pub get`. */
+export type ProjectTask = {
+  /** ID of the command running the task. */
+  commandId: string;
+  title: string;
+  /** The SDK tool running the task, see {@link sdkExecutable}. */
+  tool: "dart" | "flutter";
+  args: Array<string>;
+  /** ID of a product icon, e.g. `sync`. */
+  icon: string;
+};
+
+export const projectTasks: ReadonlyArray<ProjectTask> = [
+  {
+    commandId: "flutter-plus.pub-get",
+    title: "Get Packages",
+    tool: "flutter",
+    args: ["pub", "get"],
+    icon: "cloud-download",
+  },
+  {
+    commandId: "flutter-plus.build-runner",
+    title: "Run Code Generation",
+    tool: "dart",
+    args: ["run", "build_runner", "build", "--delete-conflicting-outputs"],
+    icon: "gear",
+  },
+  {
+    commandId: "flutter-plus.gen-l10n",
+    title: "Generate Localizations",
+    tool: "flutter",
+    args: ["gen-l10n"],
+    icon: "globe",
+  },
+];
+
+/**
+ * Runs the project tasks with a `TaskRunner`, using the SDK active in the
+ * Dart extension: their output goes to the "Flutter Plus" output channel
+ * and the problems it reports to the Problems panel.
+ */
+export class ProjectTasks implements vscode.Disposable {
+  private readonly output = vscode.window.createOutputChannel("Flutter Plus");
+  private readonly diagnostics = new TaskDiagnostics();
+  private readonly runner: TaskRunner;
+
+  constructor(
+    private readonly sdk: DartCodeAdapter,
+    spawn: ProcessFactory = spawnProcess
+  ) {
+    this.runner = new TaskRunner(spawn, {
+      onStart: (request) =>
+        this.output.appendLine(
+          `> ${[request.command, ...request.args].join(" ")} (${request.cwd})`
+        ),
+      onOutput: (_, text) => this.output.append(text),
+      onFinish: (request, result) =>
+        this.output.appendLine(
+          `${request.title} exited with code ${result.exitCode ?? "none"}.\n`
+        ),
+    });
+  }
+
+  /**
+   * Runs `task` in the package containing `uri`, see {@link pickPackageRoot}.
+   */
+  public async run(
+    task: ProjectTask,
+    uri?: vscode.Uri
+  ): Promise<TaskResult | undefined> {
+    const root = await pickPackageRoot(uri, this.sdk.projects());
+    if (!root) {
+      vscode.window.showErrorMessage("No Dart package found in the workspace.");
+      return;
+    }
+    const packageName = path.basename(root.fsPath);
+    const request = {
+      title: task.title,
+      command: sdkExecutable(this.sdk, task.tool),
+      args: task.args,
+      cwd: root.fsPath,
+    };
+    const result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Window,
+        title: `${task.title} in ${packageName}`,
+      },
+      () => this.runner.run(request)
+    );
+    this.diagnostics.report(request, result.problems);
+
+    if (result.exitCode === 0) {
+      vscode.window.setStatusBarMessage(
+        `$(check) ${task.title} succeeded in ${packageName}.`,
+        5000
+      );
+      return result;
+    }
+    const problems = result.problems.length;
+    vscode.window
+      .showErrorMessage(
+        `${task.title} failed in ${packageName}${
+          problems ? ` with ${problems} problem${problems > 1 ? "s" : ""}` : ""
+        }.`,
+        "Show Output",
+        ...(problems ? ["Show Problems"] : [])
+      )
+      .then((answer) => {
+        if (answer === "Show Output") {
+          this.output.show();
+        } else if (answer === "Show Problems") {
+          vscode.commands.executeCommand("workbench.actions.view.problems");
+        }
+      });
+    return result;
+  }
+
+  dispose() {
+    this.output.dispose();
+    this.diagnostics.dispose();
+  }
+}
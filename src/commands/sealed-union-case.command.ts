@@ -0,0 +1,203 @@
+import * as vscode from "vscode";
+import { Uri } from "vscode";
+import { FlutterPlusConfig } from "../config/config";
+import { MapCallDiagnostics } from "../diagnostics";
+import {
+  editSealedCases,
+  formatCaseSpec,
+  findSealedUnions,
+  parseCaseSpec,
+  SealedCase,
+  SealedUnionDeclaration,
+} from "../generators";
+import { GeneratedEdit } from "../utils";
+
+/** How the cases of a sealed union are changed. */
+export type SealedCaseAction = "add" | "rename" | "remove";
+
+/**
+ * Adds, renames or removes a case of the sealed union `className` in the
+ * file `uri` and updates all its generated parts.
+ * The `map` calls in the workspace that do not match the new cases are
+ * reported by `mapCalls`.
+ */
+export const editSealedCase = async (
+  mapCalls: MapCallDiagnostics,
+  action: SealedCaseAction,
+  uri: Uri,
+  className: string
+) => {
+  const document = await vscode.workspace.openTextDocument(uri);
+  const source = document.getText();
+  const union = findSealedUnions(source).find(
+    (declaration) => declaration.className === className
+  );
+  if (!union) {
+    return vscode.window.showErrorMessage(
+      `No generated sealed class ${className} found.`
+    );
+  }
+
+  const change = await promptChange(union, action);
+  if (!change) {
+    return;
+  }
+
+  const { preview } =
+    await FlutterPlusConfig.getInstance().getGeneratorDefaults(uri);
+  const edit = new GeneratedEdit(`Update the cases of ${className}`, preview);
+  for (const replacement of editSealedCases(
+    source,
+    union,
+    change.cases,
+    change.renames
+  )) {
+    edit.replace(
+      uri,
+      new vscode.Range(
+        document.positionAt(replacement.start),
+        document.positionAt(replacement.end)
+      ),
+      replacement.text
+    );
+  }
+  if (!(await edit.apply())) {
+    // Discarded in the refactor preview
+    return preview
+      ? undefined
+      : vscode.window.showErrorMessage(
+          `Failed to update the cases of ${className}.`
+        );
+  }
+
+  // Without pattern matching there are no map calls to update
+  if (!union.options.patternMatching) {
+    return;
+  }
+  const count = await mapCalls.report({
+    className,
+    cases: change.cases.map(({ name }) => name),
+    previous: union.cases.map(({ name }) => name),
+  });
+  if (count > 0) {
+    const calls = count === 1 ? "1 map call" : `${count} map calls`;
+    const answer = await vscode.window.showWarningMessage(
+      `${calls} of ${className} must be updated.`,
+      "Show Problems"
+    );
+    if (answer) {
+      vscode.commands.executeCommand("workbench.actions.view.problems");
+    }
+  }
+};
+
+/** Prompts for the change of the cases of `union`. */
+const promptChange = async (
+  union: SealedUnionDeclaration,
+  action: SealedCaseAction
+): Promise<
+  { cases: Array<SealedCase>; renames: ReadonlyMap<string, string> } | undefined
+> => {
+  const names = union.cases.map(({ name }) => name);
+  switch (action) {
+    case "add": {
+      const input = await vscode.window.showInputBox({
+        prompt: `Enter the new case of ${union.className} (camelCase), with its fields in parentheses`,
+        placeHolder: "failed(Object error, StackTrace? stackTrace)",
+        validateInput: (value) => validateCase(value, union, names)[1],
+      });
+      const [added] = validateCase(input ?? "", union, names);
+      return input && added
+        ? { cases: [...union.cases, added], renames: new Map() }
+        : undefined;
+    }
+    case "rename": {
+      const previous = await pickCase(union, "Select the case to rename");
+      if (!previous) {
+        return;
+      }
+      const others = names.filter((name) => name !== previous.name);
+      const input = await vscode.window.showInputBox({
+        prompt: `Enter the new name of ${previous.name} (camelCase)`,
+        value: previous.name,
+        validateInput: (value) =>
+          /[()]/.test(value)
+            ? "Only the name of the case can be changed."
+            : validateCase(value, union, others)[1],
+      });
+      const [renamed] = validateCase(input ?? "", union, others);
+      if (!input || !renamed || renamed.name === previous.name) {
+        return;
+      }
+      return {
+        cases: union.cases.map((item) =>
+          item === previous ? { ...item, name: renamed.name } : item
+        ),
+        renames: new Map([[previous.name, renamed.name]]),
+      };
+    }
+    case "remove": {
+      if (union.cases.length === 1) {
+        vscode.window.showErrorMessage(
+          `${union.className} must have at least one case.`
+        );
+        return;
+      }
+      const removed = await pickCase(union, "Select the case to remove");
+      if (!removed) {
+        return;
+      }
+      const answer = await vscode.window.showWarningMessage(
+        `Remove the case ${removed.name} and its class from ${union.className}?`,
+        { modal: true },
+        "Remove"
+      );
+      return answer === "Remove"
+        ? {
+            cases: union.cases.filter((item) => item !== removed),
+            renames: new Map(),
+          }
+        : undefined;
+    }
+  }
+};
+
+const pickCase = async (
+  union: SealedUnionDeclaration,
+  placeHolder: string
+): Promise<SealedCase | undefined> => {
+  const picked = await vscode.window.showQuickPick(
+    union.cases.map((item) => ({
+      label: item.name,
+      description: formatCaseSpec([item]).slice(item.name.length),
+      item,
+    })),
+    { placeHolder }
+  );
+  return picked?.item;
+};
+
+/**
+ * Parses `value` as a single case that is not one of `taken` and returns
+ * it, or the reason why it is invalid.
+ */
+const validateCase = (
+  value: string,
+  union: SealedUnionDeclaration,
+  taken: Array<string>
+): [SealedCase | undefined, string | undefined] => {
+  const { cases, errors } = parseCaseSpec(value, union.template);
+  if (errors.length) {
+    return [undefined, errors.join(" ")];
+  }
+  if (cases.length !== 1) {
+    return [undefined, "Enter exactly one case."];
+  }
+  if (taken.includes(cases[0].name)) {
+    return [
+      undefined,
+      `${union.className} already has a case ${cases[0].name}.`,
+    ];
+  }
+  return [cases[0], undefined];
+};
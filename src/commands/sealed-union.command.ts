@@ -0,0 +1,283 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Uri } from "vscode";
+import { parse } from 'yaml';
+import { FlutterPlusConfig } from '../config/config';
+import {
+  formatCaseSpec,
+  generateSealedUnion,
+  importBlock,
+  parseCaseSpec,
+  readCaseSpec,
+  renderSnippet,
+  sealedUnionImports,
+  SealedUnionOptions,
+  SealedUnionSpec,
+  SealedUnionTemplate,
+  sealedUnionTemplates,
+} from '../generators';
+import { checkDependencies, GeneratedEdit, importEdit, insertImports } from '../utils';
+
+export const sealedStates = (uri: Uri) => insertSealedUnion(uri, 'state');
+
+/** Generates a sealed union from a template picked by the user. */
+export const sealedUnion = async (uri: Uri) => {
+  if (!vscode.window.activeTextEditor) {
+    vscode.window.showErrorMessage('No active editor found.');
+    return;
+  }
+
+  const template = await pickTemplate();
+  if (template) {
+    await insertSealedUnion(uri, template);
+  }
+};
+
+/**
+ * Creates a new file with sealed states in the `folder` selected in the Explorer.
+ */
+export const newSealedStates = async (folder: Uri) => {
+  const classNameInput = await promptClassName(path.basename(folder.fsPath), 'state');
+  if (!classNameInput) {
+    return;
+  }
+
+  const uri = Uri.joinPath(folder, `${snakeCase(classNameInput)}.dart`);
+  try {
+    await vscode.workspace.fs.stat(uri);
+    const answer = await vscode.window.showWarningMessage(
+      `${path.basename(uri.fsPath)} already exists. Do you want to overwrite it?`,
+      { modal: true },
+      'Overwrite'
+    );
+    if (answer !== 'Overwrite') {
+      return;
+    }
+  } catch (_) {
+    // The file does not exist yet.
+  }
+
+  const generated = await sealedUnionSnippet(uri, 'state', classNameInput);
+  if (!generated) {
+    return;
+  }
+
+  await checkDependencies(uri, generated.imports);
+  const imports = generated.imports.length ? `${importBlock(generated.imports)}\n\n` : '';
+
+  // The refactor preview cannot show placeholders, so the code is created with their default values
+  if (generated.preview) {
+    const edit = new GeneratedEdit('Create sealed states', true);
+    edit.createFile(uri, imports + renderSnippet(generated.snippet.value));
+    if (await edit.apply()) {
+      await vscode.window.showTextDocument(uri);
+    }
+    return;
+  }
+
+  // Create a file with the imports and expand the snippet after them to keep the placeholders
+  await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(imports));
+  const editor = await vscode.window.showTextDocument(uri);
+  await editor.insertSnippet(generated.snippet, editor.document.positionAt(imports.length));
+};
+
+const insertSealedUnion = async (uri: Uri, template: SealedUnionTemplate) => {
+  // The code is inserted in the active editor, checked before any prompt
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showErrorMessage('No active editor found.');
+    return;
+  }
+
+  // Extract the file name in a cross-platform way
+  const fileName = path.basename(uri.fsPath, '.dart');
+  if (!fileName) {
+    vscode.window.showErrorMessage('Invalid file name.');
+    return;
+  }
+
+  const classNameInput = await promptClassName(fileName, template);
+  if (!classNameInput) {
+    return;
+  }
+
+  const generated = await sealedUnionSnippet(uri, template, classNameInput, editor.document.getText(editor.selection));
+  if (!generated) {
+    return;
+  }
+
+  // Insert the generated code into the current document, replacing the selection
+  const document = editor.document;
+  if (generated.preview) {
+    const edit = new GeneratedEdit(`Create ${classNameInput}`, true);
+    const imports = await importEdit(document, generated.imports);
+    if (imports) {
+      edit.replace(document.uri, new vscode.Range(document.positionAt(imports.start), document.positionAt(imports.end)), imports.text);
+    }
+    edit.replace(document.uri, editor.selection, renderSnippet(generated.snippet.value));
+    await edit.apply();
+  } else {
+    // The imports are added above the selection, which moves by their length
+    const start = document.offsetAt(editor.selection.start);
+    const end = document.offsetAt(editor.selection.end);
+    const shift = await insertImports(editor, generated.imports);
+    editor.insertSnippet(
+      generated.snippet,
+      new vscode.Selection(document.positionAt(start + shift), document.positionAt(end + shift))
+    );
+  }
+};
+
+const pickTemplate = async (): Promise<SealedUnionTemplate | undefined> => {
+  const picked = await vscode.window.showQuickPick(
+    Object.entries(sealedUnionTemplates).map(([id, { label, description }]) => ({
+      label,
+      description,
+      id: id as SealedUnionTemplate,
+    })),
+    { placeHolder: 'Select the kind of sealed class' }
+  );
+  return picked?.id;
+};
+
+/** Prompts for the class name, suggesting a name derived from `name`. */
+const promptClassName = async (name: string, template: SealedUnionTemplate): Promise<string | undefined> => {
+  // Convert the name to CamelCase
+  let camelCaseName = name
+    .split(/[_\s-]/)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+
+  // Ensure the name ends with the suffix of the template, e.g. "State"
+  const { suffix } = sealedUnionTemplates[template];
+  if (suffix && (camelCaseName.endsWith(suffix) || camelCaseName.endsWith(`${suffix}s`))) {
+    camelCaseName = camelCaseName.replace(new RegExp(`${suffix}s?$`), suffix);
+  } else {
+    camelCaseName += suffix;
+  }
+
+  // Prompt the user for the class name with a default value of CamelCase name
+  const classNameInput = await vscode.window.showInputBox({
+    prompt: 'Enter the class name',
+    value: camelCaseName,
+    validateInput: value => /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(value.trim()) ? undefined : 'Invalid class name.',
+  });
+
+  if (!classNameInput) {
+    vscode.window.showErrorMessage('Class name input was cancelled.');
+    return;
+  }
+
+  return classNameInput.trim();
+};
+
+/** Converts a class name to snake_case. */
+const snakeCase = (name: string): string => name
+  .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+  .replace(/([A-Z])([A-Z][a-z])/g, '$1_$2')
+  .replace(/[\s-]/g, '_')
+  .toLowerCase();
+
+/**
+ * Generates the sealed union `classNameInput` for the file `uri` as a snippet,
+ * with the libraries it imports and whether it is shown in the refactor preview first.
+ * The cases are pre-filled from `selection` when it declares them.
+ */
+const sealedUnionSnippet = async (
+  uri: Uri,
+  template: SealedUnionTemplate,
+  classNameInput: string,
+  selection = ''
+): Promise<{ snippet: vscode.SnippetString; imports: Array<string>; preview: boolean } | undefined> => {
+  const { ask, preview, sealedStates: defaults } = await FlutterPlusConfig.getInstance().getGeneratorDefaults(uri);
+
+  // Cases declared in the selection, as in the input box or as a YAML block, replace the suggested cases
+  let suggested = readCaseSpec(
+    template === 'state' ? defaults.states.join(', ') : sealedUnionTemplates[template].cases,
+    template
+  ).cases;
+  if (selection.trim()) {
+    let block: unknown;
+    try {
+      block = parse(selection);
+    } catch (_) {
+      block = undefined;
+    }
+    const selected = readCaseSpec(block, template);
+    if (typeof block === 'object' && block !== null && selected.errors.length) {
+      vscode.window.showErrorMessage(`Invalid cases in the selection: ${selected.errors.join(' ')}`);
+      return;
+    }
+    if (selected.errors.length === 0 && selected.cases.length) {
+      suggested = selected.cases;
+    }
+  }
+
+  // Prompt the user for the list of cases, defaulting to the suggested cases
+  const casesInput = ask || suggested.length === 0
+    ? await vscode.window.showInputBox({
+      prompt: `Enter the ${template === 'state' ? 'states' : 'cases'} (camelCase) separated by commas, with their fields in parentheses`,
+      placeHolder: 'idle, processing(double progress = 0), failed(Object error, StackTrace? stackTrace)',
+      value: formatCaseSpec(suggested),
+      validateInput: value => parseCaseSpec(value, template).errors.join(' ') || undefined,
+    })
+    : formatCaseSpec(suggested);
+
+  if (!casesInput) {
+    vscode.window.showErrorMessage('Input was cancelled.');
+    return;
+  }
+
+  const { cases, errors } = parseCaseSpec(casesInput, template);
+  if (errors.length) {
+    vscode.window.showErrorMessage(errors.join(' '));
+    return;
+  }
+
+  if (cases.length === 0) {
+    vscode.window.showErrorMessage('Invalid cases input.');
+    return;
+  }
+
+  const options = [
+    { label: "Nullable data", picked: defaults.options.nullableData, id: 'nullableData', states: true },
+    { label: "Generate pattern matching", picked: defaults.options.patternMatching, id: 'patternMatching', states: false },
+    { label: "Generate toString method", picked: defaults.options.toStringMethod, id: 'toStringMethod', states: false },
+    { label: "Generate Initial state", picked: defaults.options.initialState, id: 'initialState', states: true },
+    { label: "Generate property getters", picked: defaults.options.propertyGetters, id: 'propertyGetters', states: false },
+    { label: "Generate type alias", picked: defaults.options.typeAlias, id: 'typeAlias', states: false },
+    { label: "Generate equality operator (==)", picked: defaults.options.equalityOperator, id: 'equalityOperator', states: false },
+  ] as const;
+  const applicable = options.filter(option => template === 'state' || !option.states);
+
+  const selectedOptions = ask
+    ? await vscode.window.showQuickPick(applicable, {
+      canPickMany: true,
+      placeHolder: 'Select the options you want to generate',
+    }) ?? []
+    : applicable.filter(option => option.picked);
+
+  const isSelected = (id: keyof SealedUnionOptions) => selectedOptions.some(option => option.id === id);
+
+  const spec: SealedUnionSpec = {
+    template,
+    className: classNameInput,
+    templateName: snakeCase(classNameInput),
+    cases,
+    options: {
+      nullableData: isSelected('nullableData'),
+      patternMatching: isSelected('patternMatching'),
+      toStringMethod: isSelected('toStringMethod'),
+      initialState: isSelected('initialState'),
+      propertyGetters: isSelected('propertyGetters'),
+      typeAlias: isSelected('typeAlias'),
+      equalityOperator: isSelected('equalityOperator'),
+    },
+    useMeta: defaults.useMeta,
+  };
+  return {
+    snippet: new vscode.SnippetString(generateSealedUnion(spec)),
+    imports: sealedUnionImports(spec),
+    preview,
+  };
+};
@@ -0,0 +1,149 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { FlutterPlusConfig } from "../config/config";
+import {
+  moveWidget,
+  TextReplacement,
+  unwrapWidget,
+  wrapApplies,
+  wrapContext,
+} from "../generators";
+import {
+  findWidgetRange,
+  findWidgetSiblings,
+  findWrappedWidget,
+  WidgetRange,
+} from "../parser";
+import { applyWrap } from "../utils";
+
+/** Replaces the wrapper at the cursor with the widget it wraps. */
+export const unwrap = async () => {
+  const target = widgetAtCursor();
+  if (!target) {
+    return;
+  }
+  const { editor, source, widget } = target;
+  const edit = unwrapWidget(source, widget);
+  if (!edit) {
+    return vscode.window.showErrorMessage(
+      `${widget.name} has no child, sliver or builder to keep.`
+    );
+  }
+  await replace(editor, edit);
+};
+
+/**
+ * Replaces the wrapper at the cursor with one of the `flutter-plus.wraps`,
+ * keeping the widget it wraps.
+ */
+export const swapWrapper = async () => {
+  const target = widgetAtCursor();
+  if (!target) {
+    return;
+  }
+  const { editor, source, widget } = target;
+  const child = findWrappedWidget(source, widget);
+  if (!child) {
+    return vscode.window.showErrorMessage(
+      `${widget.name} has no child, sliver or builder to keep.`
+    );
+  }
+
+  // The wraps are offered for the child, which they wrap instead
+  const childWidget = {
+    name: findWidgetRange(source, child.start, child.end)?.name ?? "",
+    ...child,
+  };
+  const context = wrapContext(
+    source,
+    childWidget,
+    path.basename(editor.document.uri.fsPath)
+  );
+  const picked = await vscode.window.showQuickPick(
+    FlutterPlusConfig.getInstance()
+      .getCustomWraps()
+      .filter((wrap) => wrapApplies(wrap.when, context))
+      .map((wrap) => ({ label: wrap.name, wrap })),
+    { placeHolder: `Replace ${widget.name} with` }
+  );
+  if (!picked) {
+    return;
+  }
+
+  await applyWrap(editor, picked.wrap, widget, childWidget);
+};
+
+export const moveWidgetUp = () => move("up");
+
+export const moveWidgetDown = () => move("down");
+
+const move = async (direction: "up" | "down") => {
+  const target = widgetAtCursor();
+  if (!target) {
+    return;
+  }
+  const { editor, source, widget } = target;
+  const edit = moveWidget(source, widget, direction);
+  if (!edit) {
+    return vscode.window.showErrorMessage(
+      `${widget.name} cannot be moved ${direction}.`
+    );
+  }
+
+  // Keep the cursor at the same place in the moved element. The text
+  // between the elements is kept, so the document is not formatted.
+  const { elements, index } = findWidgetSiblings(source, widget)!;
+  const element = elements[index];
+  const cursor =
+    editor.document.offsetAt(editor.selection.active) - element.start;
+  const movedStart =
+    direction === "up"
+      ? edit.start
+      : edit.start + edit.text.length - (element.end - element.start);
+  await replace(editor, edit, false);
+  const position = editor.document.positionAt(movedStart + cursor);
+  editor.selection = new vscode.Selection(position, position);
+};
+
+/** Finds the widget at the cursor of the active editor. */
+const widgetAtCursor = ():
+  | { editor: vscode.TextEditor; source: string; widget: WidgetRange }
+  | undefined => {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showErrorMessage("No active editor found.");
+    return;
+  }
+  const document = editor.document;
+  const source = document.getText();
+  const widget = findWidgetRange(
+    source,
+    document.offsetAt(editor.selection.start),
+    document.offsetAt(editor.selection.end)
+  );
+  if (!widget) {
+    vscode.window.showErrorMessage("No widget found at the cursor.");
+    return;
+  }
+  return { editor, source, widget };
+};
+
+const replace = async (
+  editor: vscode.TextEditor,
+  edit: TextReplacement,
+  format = true
+) => {
+  const document = editor.document;
+  await editor.edit((editBuilder) =>
+    editBuilder.replace(
+      new vscode.Range(
+        document.positionAt(edit.start),
+        document.positionAt(edit.end)
+      ),
+      edit.text
+    )
+  );
+  if (format) {
+    await vscode.commands.executeCommand("editor.action.formatDocument");
+  }
+};
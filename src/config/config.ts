@@ -1,10 +1,28 @@
-import { workspace } from "vscode";
+import { Uri, window, workspace } from "vscode";
+import { parse } from "yaml";
+import { scopeWrapConditions, WrapConditions } from "../generators";
+import { findPackageRoot } from "../utils/package-root";
+import {
+  defaultGeneratorDefaults,
+  GeneratorDefaults,
+  readGeneratorDefaults,
+} from "./generator-defaults";
+import { LocatedWrap, mergeWraps, orderWraps, packWraps, readWrapFile, WrapFile } from "./wrap-sources";
 
 export type CustomWrapConfig = {
   name: string,
   body: Array<string>,
+  /** Group of the wrap in the refactor menu, e.g. `layout`. */
+  group?: string,
+  /** Conditions under which the wrap is offered. */
+  when?: WrapConditions,
+  /** URIs imported by the file once the widget is wrapped. */
+  imports?: Array<string>,
 };
 
+/** Name of the generator defaults file, next to `pubspec.yaml`. */
+export const projectConfigFileName = "flutter_plus.yaml";
+
 export class FlutterPlusConfig {
   private static instance: FlutterPlusConfig;
 
@@ -15,10 +33,117 @@ export class FlutterPlusConfig {
     return FlutterPlusConfig.instance;
   }
 
+  private wraps: Array<CustomWrapConfig> = [];
+
+  /** The wraps loaded by `loadWraps`. */
   public getCustomWraps(): Array<CustomWrapConfig> {
+    return this.wraps;
+  }
+
+  /**
+   * Loads the wraps of the enabled packs, of the `flutter_plus.yaml` files
+   * at the root of the workspace folders and of the settings, merged by
+   * name in this order. Invalid and duplicate wraps are reported.
+   * The favourite wraps come first and, unless disabled, a wrap is only
+   * offered for box widgets or for slivers, see {@link scopeWrapConditions}.
+   */
+  public async loadWraps(): Promise<Array<CustomWrapConfig>> {
     const config = workspace.getConfiguration('flutter-plus');
-    const customWraps = config.get<Array<CustomWrapConfig>>('wraps');
+    const files: Array<WrapFile> = [];
+    for (const folder of workspace.workspaceFolders ?? []) {
+      const uri = Uri.joinPath(folder.uri, projectConfigFileName);
+      let content: string;
+      try {
+        content = new TextDecoder().decode(await workspace.fs.readFile(uri));
+      } catch (_) {
+        continue;
+      }
+      const file = readWrapFile(content, workspace.asRelativePath(uri));
+      if (file.errors.length) {
+        window.showWarningMessage(`Invalid wraps: ${file.errors.join(' ')}`);
+      }
+      files.push(file);
+    }
 
-    return customWraps || [];
+    const packs = [
+      ...(config.get<Array<string>>('wrapPacks') ?? []),
+      ...files.flatMap((file) => file.packs),
+    ];
+    const { wraps, duplicates } = mergeWraps([
+      packWraps(packs),
+      ...files.map((file) => file.wraps),
+      this.settingsWraps(),
+    ]);
+    if (duplicates.length) {
+      window.showWarningMessage(`Duplicate wraps: ${duplicates.join(' ')}`);
+    }
+    const scoped = config.get<boolean>('hideInapplicableWraps', true);
+    this.wraps = orderWraps(wraps, config.get<Array<string>>('favouriteWraps') ?? [])
+      .map((wrap) => scoped ? { ...wrap, when: scopeWrapConditions(wrap.body, wrap.when) } : wrap);
+    return this.wraps;
+  }
+
+  /**
+   * The `flutter-plus.wraps` settings, located in the settings they come from.
+   */
+  private settingsWraps(): Array<LocatedWrap> {
+    const inspected = workspace.getConfiguration('flutter-plus').inspect<Array<CustomWrapConfig>>('wraps');
+    const [wraps, settings] =
+      inspected?.workspaceFolderValue ? [inspected.workspaceFolderValue, 'folder settings']
+      : inspected?.workspaceValue ? [inspected.workspaceValue, 'workspace settings']
+      : inspected?.globalValue ? [inspected.globalValue, 'user settings']
+      : [inspected?.defaultValue ?? [], 'default settings'];
+    return wraps.map((wrap, index) => ({ ...wrap, location: `${settings}, flutter-plus.wraps[${index}]` }));
+  }
+
+  /**
+   * Defaults of the generators for [resource]: the `flutter-plus`
+   * settings, overridden by the `flutter_plus.yaml` of its package.
+   * Invalid values are reported and skipped.
+   */
+  public async getGeneratorDefaults(resource?: Uri): Promise<GeneratorDefaults> {
+    const config = workspace.getConfiguration('flutter-plus', resource);
+    const settings = readGeneratorDefaults({
+      ask: config.get('generators.ask'),
+      preview: config.get('generators.preview'),
+      importStyle: config.get('generators.importStyle'),
+      dataClass: {
+        suffix: config.get('dataClass.suffix'),
+        keyCase: config.get('dataClass.keyCase') || undefined,
+        members: config.get('dataClass.members'),
+      },
+      sealedStates: {
+        states: config.get('sealedStates.states'),
+        options: config.get('sealedStates.options'),
+        useMeta: config.get('sealedStates.useMeta'),
+      },
+    }, defaultGeneratorDefaults);
+    this.reportErrors('Flutter Plus settings', settings.errors);
+
+    const packageRoot = resource && await findPackageRoot(resource);
+    if (!packageRoot) {
+      return settings.defaults;
+    }
+    const file = Uri.joinPath(packageRoot, projectConfigFileName);
+    let content: string;
+    try {
+      content = new TextDecoder().decode(await workspace.fs.readFile(file));
+    } catch (_) {
+      return settings.defaults;
+    }
+    try {
+      const project = readGeneratorDefaults(parse(content), settings.defaults);
+      this.reportErrors(workspace.asRelativePath(file), project.errors);
+      return project.defaults;
+    } catch (error) {
+      this.reportErrors(workspace.asRelativePath(file), [`${error}`]);
+      return settings.defaults;
+    }
+  }
+
+  private reportErrors(source: string, errors: Array<string>) {
+    if (errors.length) {
+      window.showWarningMessage(`Invalid generator defaults in ${source}: ${errors.join(' ')}`);
+    }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,270 @@
+import {
+  DataClassOptions,
+  defaultDataClassOptions,
+  NamingStyle,
+  namingStyles,
+  SealedUnionOptions,
+} from "../generators";
+
+export type GeneratorDefaults = {
+  /**
+   * Whether the generators still ask for the values below, pre-filled,
+   * or use them as they are.
+   */
+  ask: boolean;
+  /**
+   * Whether generated code is shown in the refactor preview, to be
+   * accepted or discarded, before it is applied.
+   */
+  preview: boolean;
+  /** How generated files import each other: `package:` or relative paths. */
+  importStyle: "relative" | "package";
+  dataClass: {
+    suffix: string;
+    keyCase?: NamingStyle;
+    members: DataClassOptions;
+  };
+  sealedStates: {
+    states: Array<string>;
+    options: SealedUnionOptions;
+    /** Whether to use the annotations of `package:meta`. */
+    useMeta: boolean;
+  };
+};
+
+export const defaultGeneratorDefaults: GeneratorDefaults = {
+  ask: true,
+  preview: false,
+  importStyle: "relative",
+  dataClass: {
+    suffix: "",
+    members: defaultDataClassOptions,
+  },
+  sealedStates: {
+    states: ["idle", "processing", "succeeded", "failed"],
+    options: {
+      nullableData: true,
+      patternMatching: true,
+      toStringMethod: true,
+      initialState: true,
+      propertyGetters: true,
+      typeAlias: true,
+      equalityOperator: true,
+    },
+    useMeta: true,
+  },
+};
+
+/** Names of the data class members in the configuration. */
+const dataClassMembers = new Map<string, keyof DataClassOptions>([
+  ["map", "mapMethods"],
+  ["json", "jsonMethods"],
+  ["copyWith", "copyWithMethod"],
+  ["equality", "equalityOperator"],
+  ["toString", "toStringMethod"],
+]);
+
+/**
+ * Reads generator defaults from `raw`, the content of `flutter_plus.yaml`
+ * or the `flutter-plus` settings, on top of `base`. Keys may be written in
+ * snake_case or camelCase:
+ *
+ * ```yaml
+ * ask: false
+ * preview: true
+ * import_style: package
+ * data_class:
+ *   suffix: DTO
+ *   key_case: snake_case
+ *   members: [map, json, copy_with, equality, to_string]
+ * sealed_states:
+ *   states: [initial, loading, loaded, error]
+ *   options: [pattern_matching, to_string_method, equality_operator]
+ *   use_meta: false
+ * ```
+ *
+ * Invalid values are skipped and described in the returned errors.
+ */
+export const readGeneratorDefaults = (
+  raw: unknown,
+  base: GeneratorDefaults = defaultGeneratorDefaults
+): { defaults: GeneratorDefaults; errors: Array<string> } => {
+  const errors: Array<string> = [];
+  const root = normalizeKeys(raw);
+  if (root === undefined || root === null) {
+    return { defaults: base, errors };
+  }
+  if (!isObject(root)) {
+    return {
+      defaults: base,
+      errors: ["Expected a map of generator defaults."],
+    };
+  }
+
+  const defaults: GeneratorDefaults = {
+    ask: base.ask,
+    preview: base.preview,
+    importStyle: base.importStyle,
+    dataClass: { ...base.dataClass },
+    sealedStates: { ...base.sealedStates },
+  };
+
+  if (root.ask !== undefined) {
+    if (typeof root.ask === "boolean") {
+      defaults.ask = root.ask;
+    } else {
+      errors.push("ask: expected true or false.");
+    }
+  }
+  if (root.preview !== undefined) {
+    if (typeof root.preview === "boolean") {
+      defaults.preview = root.preview;
+    } else {
+      errors.push("preview: expected true or false.");
+    }
+  }
+  if (root.importStyle !== undefined) {
+    if (root.importStyle === "relative" || root.importStyle === "package") {
+      defaults.importStyle = root.importStyle;
+    } else {
+      errors.push("import_style: expected relative or package.");
+    }
+  }
+
+  const dataClass = root.dataClass;
+  if (isObject(dataClass)) {
+    if (typeof dataClass.suffix === "string") {
+      defaults.dataClass.suffix = dataClass.suffix.trim();
+    } else if (dataClass.suffix !== undefined && dataClass.suffix !== null) {
+      errors.push("data_class.suffix: expected a string.");
+    }
+    if (dataClass.keyCase !== undefined) {
+      if (
+        (namingStyles as ReadonlyArray<unknown>).includes(dataClass.keyCase)
+      ) {
+        defaults.dataClass.keyCase = dataClass.keyCase as NamingStyle;
+      } else {
+        errors.push(
+          `data_class.key_case: expected one of ${namingStyles.join(", ")}.`
+        );
+      }
+    }
+    if (dataClass.members !== undefined) {
+      const members = readFlags(
+        dataClass.members,
+        [...dataClassMembers.keys()],
+        "data_class.members",
+        errors
+      );
+      if (members) {
+        defaults.dataClass.members = { ...defaults.dataClass.members };
+        for (const [name, enabled] of Object.entries(members)) {
+          defaults.dataClass.members[dataClassMembers.get(name)!] = enabled;
+        }
+      }
+    }
+  } else if (dataClass !== undefined) {
+    errors.push("data_class: expected a map.");
+  }
+
+  const sealedStates = root.sealedStates;
+  if (isObject(sealedStates)) {
+    if (sealedStates.states !== undefined) {
+      const states =
+        typeof sealedStates.states === "string"
+          ? sealedStates.states.split(/[,;]/)
+          : sealedStates.states;
+      if (
+        Array.isArray(states) &&
+        states.every((state) => typeof state === "string")
+      ) {
+        defaults.sealedStates.states = states
+          .map((state: string) => state.trim())
+          .filter((state: string) => state.length > 0);
+      } else {
+        errors.push("sealed_states.states: expected a list of names.");
+      }
+    }
+    if (sealedStates.options !== undefined) {
+      const options = readFlags(
+        sealedStates.options,
+        Object.keys(defaultGeneratorDefaults.sealedStates.options),
+        "sealed_states.options",
+        errors
+      );
+      if (options) {
+        defaults.sealedStates.options = {
+          ...defaults.sealedStates.options,
+          ...options,
+        };
+      }
+    }
+    if (sealedStates.useMeta !== undefined) {
+      if (typeof sealedStates.useMeta === "boolean") {
+        defaults.sealedStates.useMeta = sealedStates.useMeta;
+      } else {
+        errors.push("sealed_states.use_meta: expected true or false.");
+      }
+    }
+  } else if (sealedStates !== undefined) {
+    errors.push("sealed_states: expected a map.");
+  }
+
+  return { defaults, errors };
+};
+
+/**
+ * Reads a list of the enabled `names`, where the other names are
+ * disabled, or a map of some of the names to booleans.
+ */
+const readFlags = (
+  value: unknown,
+  names: Array<string>,
+  path: string,
+  errors: Array<string>
+): Record<string, boolean> | undefined => {
+  const entries = Array.isArray(value)
+    ? value.map((name) => [name, true] as const)
+    : isObject(value)
+    ? Object.entries(value)
+    : undefined;
+  if (!entries) {
+    errors.push(`${path}: expected a list of ${names.join(", ")}.`);
+    return undefined;
+  }
+  const flags: Record<string, boolean> = Array.isArray(value)
+    ? Object.fromEntries(names.map((name) => [name, false]))
+    : {};
+  for (const [name, enabled] of entries) {
+    if (typeof name !== "string" || !names.includes(camelCase(name))) {
+      errors.push(`${path}: unknown ${name}, expected ${names.join(", ")}.`);
+    } else if (typeof enabled !== "boolean") {
+      errors.push(`${path}.${name}: expected true or false.`);
+    } else {
+      flags[camelCase(name)] = enabled;
+    }
+  }
+  return flags;
+};
+
+/** Converts the keys of maps in `value` from snake_case to camelCase. */
+const normalizeKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        camelCase(key),
+        normalizeKeys(item),
+      ])
+    );
+  }
+  return value;
+};
+
+const camelCase = (name: string): string =>
+  name.replace(/[_-]([a-z])/g, (_, char: string) => char.toUpperCase());
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
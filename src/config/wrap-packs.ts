@@ -0,0 +1,169 @@
+import type { CustomWrapConfig } from "./config";
+
+/**
+ * Wraps bundled with the extension, enabled by name with the
+ * `flutter-plus.wrapPacks` setting or the `wrap_packs` of
+ * `flutter_plus.yaml`.
+ */
+export const wrapPacks: ReadonlyMap<string, Array<CustomWrapConfig>> = new Map([
+  [
+    "bloc",
+    [
+      {
+        name: "BlocBuilder",
+        body: [
+          "BlocBuilder<${1:${className}Bloc}, ${2:${className}State}>(",
+          "  builder: (context, state) => ${widget},",
+          ")",
+        ],
+        group: "state",
+        when: { insideBuild: true },
+        imports: ["package:flutter_bloc/flutter_bloc.dart"],
+      },
+      {
+        name: "BlocSelector",
+        body: [
+          "BlocSelector<${1:${className}Bloc}, ${2:${className}State}, ${3:bool}>(",
+          "  selector: (state) => ${4:state},",
+          "  builder: (context, ${5:value}) => ${widget},",
+          ")",
+        ],
+        group: "state",
+        when: { insideBuild: true },
+        imports: ["package:flutter_bloc/flutter_bloc.dart"],
+      },
+      {
+        name: "BlocListener",
+        body: [
+          "BlocListener<${1:${className}Bloc}, ${2:${className}State}>(",
+          "  listener: (context, state) {",
+          "    $0",
+          "  },",
+          "  child: ${widget},",
+          ")",
+        ],
+        group: "state",
+        when: { insideBuild: true },
+        imports: ["package:flutter_bloc/flutter_bloc.dart"],
+      },
+      {
+        name: "BlocProvider",
+        body: [
+          "BlocProvider<${1:${className}Bloc}>(",
+          "  create: (context) => ${2:${className}Bloc()},",
+          "  child: ${widget},",
+          ")",
+        ],
+        group: "state",
+        imports: ["package:flutter_bloc/flutter_bloc.dart"],
+      },
+    ],
+  ],
+  [
+    "provider",
+    [
+      {
+        name: "Consumer",
+        body: [
+          "Consumer<${1:Model}>(",
+          "  builder: (context, ${2:model}, child) => ${widget},",
+          ")",
+        ],
+        group: "state",
+        when: { insideBuild: true },
+        imports: ["package:provider/provider.dart"],
+      },
+      {
+        name: "Selector",
+        body: [
+          "Selector<${1:Model}, ${2:bool}>(",
+          "  selector: (context, model) => ${3:model},",
+          "  builder: (context, ${4:value}, child) => ${widget},",
+          ")",
+        ],
+        group: "state",
+        when: { insideBuild: true },
+        imports: ["package:provider/provider.dart"],
+      },
+      {
+        name: "ChangeNotifierProvider",
+        body: [
+          "ChangeNotifierProvider<${1:Model}>(",
+          "  create: (context) => ${2:Model()},",
+          "  child: ${widget},",
+          ")",
+        ],
+        group: "state",
+        imports: ["package:provider/provider.dart"],
+      },
+    ],
+  ],
+  [
+    "riverpod",
+    [
+      {
+        name: "Riverpod Consumer",
+        body: [
+          "Consumer(",
+          "  builder: (context, ref, child) => ${widget},",
+          ")",
+        ],
+        group: "state",
+        when: { insideBuild: true },
+        imports: ["package:flutter_riverpod/flutter_riverpod.dart"],
+      },
+      {
+        name: "ProviderScope",
+        body: ["ProviderScope(", "  child: ${widget},", ")"],
+        group: "state",
+        imports: ["package:flutter_riverpod/flutter_riverpod.dart"],
+      },
+    ],
+  ],
+  [
+    "animation",
+    [
+      {
+        name: "AnimatedBuilder",
+        body: [
+          "AnimatedBuilder(",
+          "  animation: ${1:animation},",
+          "  builder: (context, child) => ${widget},",
+          ")",
+        ],
+        group: "animation",
+      },
+      {
+        name: "AnimatedSwitcher",
+        body: [
+          "AnimatedSwitcher(",
+          "  duration: const Duration(milliseconds: ${1:300}),",
+          "  child: ${widget},",
+          ")",
+        ],
+        group: "animation",
+      },
+      {
+        name: "AnimatedOpacity",
+        body: [
+          "AnimatedOpacity(",
+          "  opacity: ${1:1},",
+          "  duration: const Duration(milliseconds: ${2:300}),",
+          "  child: ${widget},",
+          ")",
+        ],
+        group: "animation",
+      },
+      {
+        name: "FadeTransition",
+        body: [
+          "FadeTransition(",
+          "  opacity: ${1:animation},",
+          "  child: ${widget},",
+          ")",
+        ],
+        group: "animation",
+      },
+    ],
+  ],
+]);
@@ -0,0 +1,191 @@
+import { isMap, isSeq, LineCounter, parseDocument } from "yaml";
+import type { CustomWrapConfig } from "./config";
+import { wrapPacks } from "./wrap-packs";
+
+/** A wrap with where it is defined, e.g. `flutter_plus.yaml:12`. */
+export type LocatedWrap = CustomWrapConfig & { location: string };
+
+/** Wraps defined in a `flutter_plus.yaml` file and the packs it enables. */
+export type WrapFile = {
+  wraps: Array<LocatedWrap>;
+  packs: Array<string>;
+  errors: Array<string>;
+};
+
+/**
+ * Command ID of the wrap `name`, e.g. `flutter-plus.wrapWith.bloc-builder`
+ * for `Bloc Builder`.
+ */
+export const wrapCommandId = (name: string): string =>
+  `flutter-plus.wrapWith.${name.toLowerCase().replace(/\s/g, "-")}`;
+
+/**
+ * Reads the `wraps` and `wrap_packs` of a `flutter_plus.yaml` file at
+ * `path`, e.g.:
+ *
+ * ```yaml
+ * wrap_packs: [bloc, animation]
+ * wraps:
+ *   - name: Card
+ *     body: |-
+ *       Card(
+ *         child: ${widget},
+ *       )
+ * ```
+ *
+ * The body is a list of lines or a block of text. Invalid wraps and
+ * unknown packs are skipped and described in the returned errors.
+ */
+export const readWrapFile = (content: string, path: string): WrapFile => {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(content, { lineCounter });
+  const file: WrapFile = { wraps: [], packs: [], errors: [] };
+  if (document.errors.length) {
+    file.errors.push(
+      ...document.errors.map((error) => `${path}: ${error.message}`)
+    );
+    return file;
+  }
+  const location = (offset: number | undefined) =>
+    offset === undefined ? path : `${path}:${lineCounter.linePos(offset).line}`;
+
+  const packs =
+    document.get("wrap_packs", true) ?? document.get("wrapPacks", true);
+  if (packs !== undefined) {
+    const names = isSeq(packs) ? packs.toJSON() : undefined;
+    if (!Array.isArray(names)) {
+      file.errors.push(`${path}: wrap_packs must be a list of packs.`);
+    } else {
+      for (const name of names) {
+        if (typeof name === "string" && wrapPacks.has(name)) {
+          file.packs.push(name);
+        } else {
+          file.errors.push(
+            `${path}: unknown wrap pack ${name}, expected ${[
+              ...wrapPacks.keys(),
+            ].join(", ")}.`
+          );
+        }
+      }
+    }
+  }
+
+  const wraps = document.get("wraps", true);
+  if (wraps === undefined) {
+    return file;
+  }
+  if (!isSeq(wraps)) {
+    file.errors.push(`${path}: wraps must be a list.`);
+    return file;
+  }
+  for (const item of wraps.items) {
+    const at = location(isMap(item) ? item.range?.[0] : undefined);
+    const wrap = readWrap(isMap(item) ? item.toJSON() : undefined);
+    if (typeof wrap === "string") {
+      file.errors.push(`${at}: ${wrap}`);
+    } else {
+      file.wraps.push({ ...wrap, location: at });
+    }
+  }
+  return file;
+};
+
+/** Reads a wrap, or returns why it is invalid. */
+const readWrap = (raw: unknown): CustomWrapConfig | string => {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return "expected a wrap with a name and a body.";
+  }
+  const { name, body, when, imports, group } = raw as Record<string, unknown>;
+  if (typeof name !== "string" || !name.trim()) {
+    return "the name of a wrap must be a string.";
+  }
+  const lines =
+    typeof body === "string"
+      ? body.split("\n")
+      : Array.isArray(body) && body.every((line) => typeof line === "string")
+      ? (body as Array<string>)
+      : undefined;
+  if (!lines) {
+    return `the body of ${name} must be a string or a list of lines.`;
+  }
+  if (
+    imports !== undefined &&
+    !(Array.isArray(imports) && imports.every((uri) => typeof uri === "string"))
+  ) {
+    return `the imports of ${name} must be a list of URIs.`;
+  }
+  if (
+    when !== undefined &&
+    (typeof when !== "object" || when === null || Array.isArray(when))
+  ) {
+    return `the conditions of ${name} must be a map.`;
+  }
+  if (group !== undefined && !isWrapGroup(group)) {
+    return `the group of ${name} must be a word, e.g. layout.`;
+  }
+  return {
+    name,
+    body: lines,
+    ...(group ? { group } : {}),
+    ...(when ? { when } : {}),
+    ...(imports ? { imports: imports as Array<string> } : {}),
+  };
+};
+
+/**
+ * Whether `group` can be appended to a code action kind, which separates
+ * its parts with dots.
+ */
+export const isWrapGroup = (group: unknown): group is string =>
+  typeof group === "string" && /^[A-Za-z][\w-]*$/.test(group);
+
+/** `wraps` with the `favourites`, by name, first and in their order. */
+export const orderWraps = <T extends CustomWrapConfig>(
+  wraps: Array<T>,
+  favourites: Array<string>
+): Array<T> => {
+  const rank = (wrap: T) => {
+    const index = favourites.indexOf(wrap.name);
+    return index < 0 ? favourites.length : index;
+  };
+  // Array.sort is stable, the other wraps keep their order
+  return [...wraps].sort((a, b) => rank(a) - rank(b));
+};
+
+/** The wraps of the enabled `packs`, in the order of the packs. */
+export const packWraps = (packs: Array<string>): Array<LocatedWrap> =>
+  [...new Set(packs)].flatMap((pack) =>
+    (wrapPacks.get(pack) ?? []).map((wrap) => ({
+      ...wrap,
+      location: `${pack} pack`,
+    }))
+  );
+
+/**
+ * Merges the wraps of `sources`, ordered from the lowest to the highest
+ * priority: a wrap replaces the wrap with the same name of an earlier
+ * source and keeps its position.
+ * Wraps with the same command ID within a source, or with different names
+ * but the same command ID, are reported with their locations.
+ */
+export const mergeWraps = (
+  sources: Array<Array<LocatedWrap>>
+): { wraps: Array<LocatedWrap>; duplicates: Array<string> } => {
+  const merged = new Map<string, LocatedWrap>();
+  const duplicates: Array<string> = [];
+  for (const source of sources) {
+    const seen = new Map<string, LocatedWrap>();
+    for (const wrap of source) {
+      const id = wrapCommandId(wrap.name);
+      const previous = seen.get(id) ?? merged.get(id);
+      if (previous && (seen.has(id) || previous.name !== wrap.name)) {
+        duplicates.push(
+          `${wrap.name} (${wrap.location}) has the same command as ${previous.name} (${previous.location}).`
+        );
+      }
+      seen.set(id, wrap);
+      merged.set(id, wrap);
+    }
+  }
+  return { wraps: [...merged.values()], duplicates };
+};
@@ -0,0 +1,103 @@
+import * as vscode from "vscode";
+import {
+  fieldHintPattern,
+  isGeneratedDataClass,
+  mayContainFieldHints,
+  validateFieldHints,
+} from "../generators";
+import { parseDart } from "../parser";
+
+/** Delay after the last edit of a document before checking it again. */
+const updateDelay = 300;
+
+/**
+ * Reports invalid data class field hints (`// @key`, `// Parsing:`, ...)
+ * of the open Dart documents as diagnostics on the hint comments.
+ * Only classes that are data classes or use a known hint are checked, and
+ * a document being edited is checked once the edits pause.
+ */
+export class FieldHintDiagnostics implements vscode.Disposable {
+  private readonly collection =
+    vscode.languages.createDiagnosticCollection("flutter-plus.hints");
+  private readonly subscriptions: vscode.Disposable[];
+  /** The pending updates of the edited documents. */
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+
+  constructor() {
+    this.subscriptions = [
+      vscode.workspace.onDidOpenTextDocument((document) =>
+        this.update(document)
+      ),
+      vscode.workspace.onDidChangeTextDocument((event) =>
+        this.schedule(event.document)
+      ),
+      vscode.workspace.onDidCloseTextDocument((document) => {
+        this.cancel(document.uri);
+        this.collection.delete(document.uri);
+      }),
+    ];
+    vscode.workspace.textDocuments.forEach((document) => this.update(document));
+  }
+
+  private schedule(document: vscode.TextDocument) {
+    if (document.languageId !== "dart") {
+      return;
+    }
+    this.cancel(document.uri);
+    this.timers.set(
+      document.uri.toString(),
+      setTimeout(() => {
+        this.timers.delete(document.uri.toString());
+        this.update(document);
+      }, updateDelay)
+    );
+  }
+
+  private cancel(uri: vscode.Uri) {
+    clearTimeout(this.timers.get(uri.toString()));
+    this.timers.delete(uri.toString());
+  }
+
+  private update(document: vscode.TextDocument) {
+    if (document.languageId !== "dart" || document.isClosed) {
+      return;
+    }
+    const source = document.getText();
+    if (!mayContainFieldHints(source)) {
+      this.collection.delete(document.uri);
+      return;
+    }
+
+    const diagnostics = parseDart(source)
+      .classes.filter(
+        (declaration) =>
+          isGeneratedDataClass(declaration) ||
+          fieldHintPattern.test(
+            source.substring(declaration.bodyStart, declaration.bodyEnd)
+          )
+      )
+      .flatMap((declaration) => validateFieldHints(declaration, source))
+      .map((hint) => {
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(
+            document.positionAt(hint.start),
+            document.positionAt(hint.end)
+          ),
+          hint.message,
+          hint.severity === "error"
+            ? vscode.DiagnosticSeverity.Error
+            : vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = "Flutter Plus";
+        return diagnostic;
+      });
+    this.collection.set(document.uri, diagnostics);
+  }
+
+  dispose() {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+    this.subscriptions.forEach((subscription) => subscription.dispose());
+    this.collection.dispose();
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./field-hints.diagnostics";
+export * from "./map-calls.diagnostics";
+export * from "./task.diagnostics";
@@ -0,0 +1,105 @@
+import * as vscode from "vscode";
+import { findIncompleteMapCalls } from "../generators";
+
+/** The cases of a sealed union before and after an edit. */
+type CaseChange = {
+  className: string;
+  cases: Array<string>;
+  previous: Array<string>;
+};
+
+/**
+ * Reports the `map` calls in the workspace that do not match the cases of
+ * a sealed union after a case was added, renamed or removed.
+ * The reports of a document are checked again when it changes and are
+ * dropped once its calls are complete.
+ */
+export class MapCallDiagnostics implements vscode.Disposable {
+  private readonly collection = vscode.languages.createDiagnosticCollection(
+    "flutter-plus.map-calls"
+  );
+  private readonly changes = new Map<string, CaseChange>();
+  private readonly subscriptions: vscode.Disposable[];
+
+  constructor() {
+    this.subscriptions = [
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        const change = this.changes.get(event.document.uri.toString());
+        if (change) {
+          this.update(event.document.uri, event.document.getText(), change);
+        }
+      }),
+    ];
+  }
+
+  /**
+   * Checks every Dart file of the workspace after the cases of
+   * `change.className` changed and returns the number of reported calls.
+   */
+  public async report(change: CaseChange): Promise<number> {
+    this.collection.clear();
+    this.changes.clear();
+    const files = await vscode.workspace.findFiles(
+      "**/*.dart",
+      "**/{.dart_tool,build}/**"
+    );
+    let count = 0;
+    for (const uri of files) {
+      const open = vscode.workspace.textDocuments.find(
+        (document) => document.uri.toString() === uri.toString()
+      );
+      const source =
+        open?.getText() ??
+        new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+      count += this.update(uri, source, change);
+    }
+    return count;
+  }
+
+  private update(uri: vscode.Uri, source: string, change: CaseChange) {
+    const calls = change.previous.every((name) => source.includes(name))
+      ? findIncompleteMapCalls(source, change.cases, change.previous)
+      : [];
+    if (calls.length === 0) {
+      this.collection.delete(uri);
+      this.changes.delete(uri.toString());
+      return 0;
+    }
+
+    const position = (offset: number) => {
+      const lines = source.substring(0, offset).split("\n");
+      return new vscode.Position(
+        lines.length - 1,
+        lines[lines.length - 1].length
+      );
+    };
+    this.collection.set(
+      uri,
+      calls.map((call) => {
+        const problems = [
+          ...(call.missing.length ? [`misses ${call.missing.join(", ")}`] : []),
+          ...(call.obsolete.length
+            ? [`still handles ${call.obsolete.join(", ")}`]
+            : []),
+        ];
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(
+            position(call.start),
+            position(call.start + "map".length)
+          ),
+          `This map call of ${change.className} ${problems.join(" and ")}.`,
+          vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = "Flutter Plus";
+        return diagnostic;
+      })
+    );
+    this.changes.set(uri.toString(), change);
+    return calls.length;
+  }
+
+  dispose() {
+    this.subscriptions.forEach((subscription) => subscription.dispose());
+    this.collection.dispose();
+  }
+}
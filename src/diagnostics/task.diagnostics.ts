@@ -0,0 +1,59 @@
+import * as vscode from "vscode";
+import { AnalyzerProblem, TaskRequest } from "../tasks";
+
+const severities = new Map<
+  AnalyzerProblem["severity"],
+  vscode.DiagnosticSeverity
+>([
+  ["error", vscode.DiagnosticSeverity.Error],
+  ["warning", vscode.DiagnosticSeverity.Warning],
+  ["info", vscode.DiagnosticSeverity.Information],
+]);
+
+/**
+ * Reports the problems in the output of the tasks. The problems of a task
+ * replace the problems of its previous run, the problems of other tasks
+ * are kept.
+ */
+export class TaskDiagnostics implements vscode.Disposable {
+  private readonly collection: vscode.DiagnosticCollection;
+  /** The problems of the last run of each task, by title and package. */
+  private readonly reports = new Map<string, Array<AnalyzerProblem>>();
+
+  constructor(name = "flutter-plus.tasks") {
+    this.collection = vscode.languages.createDiagnosticCollection(name);
+  }
+
+  /** Replaces the problems of the previous run of the `task` in its package. */
+  public report(
+    task: Pick<TaskRequest, "title" | "cwd">,
+    problems: Array<AnalyzerProblem>
+  ): void {
+    this.reports.set(`${task.title}\0${task.cwd}`, problems);
+    const files = new Map<string, Array<vscode.Diagnostic>>();
+    for (const reported of this.reports.values()) {
+      for (const problem of reported) {
+        const start = new vscode.Position(problem.line - 1, problem.column - 1);
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(start, start.translate(0, problem.length ?? 1)),
+          problem.message,
+          severities.get(problem.severity)
+        );
+        diagnostic.source = "Flutter Plus";
+        diagnostic.code = problem.code;
+        files.set(problem.file, [
+          ...(files.get(problem.file) ?? []),
+          diagnostic,
+        ]);
+      }
+    }
+    this.collection.clear();
+    for (const [file, diagnostics] of files) {
+      this.collection.set(vscode.Uri.file(file), diagnostics);
+    }
+  }
+
+  dispose() {
+    this.collection.dispose();
+  }
+}
@@ -1,15 +1,39 @@
 import * as vscode from "vscode";
 import { Disposable } from "vscode";
-import { sealedStates } from "./commands";
-import { FlutterPlusConfig } from "./config/config";
-import { wrapWith } from "./utils";
+import {
+  BuildWatchers,
+  editSealedCase,
+  moveWidgetDown,
+  moveWidgetUp,
+  newFeature,
+  newSealedStates,
+  projectTasks,
+  ProjectTasks,
+  SealedCaseAction,
+  sealedStates,
+  sealedUnion,
+  swapWrapper,
+  unwrap,
+} from "./commands";
+import { FlutterPlusConfig, projectConfigFileName } from "./config/config";
+import { isWrapGroup, wrapCommandId } from "./config/wrap-sources";
+import { WrapConditions } from "./generators";
+import { DartCodeAdapter, wrapWith } from "./utils";
 import {
   dartCodeExtensionIdentifier,
   flutterExtensionIdentifier,
 } from "./constants";
-import { CodeActionWrap } from "./code-actions";
+import {
+  CodeActionSealedUnion,
+  CodeActionWidget,
+  CodeActionWrap,
+} from "./code-actions";
+import { FieldHintDiagnostics, MapCallDiagnostics } from "./diagnostics";
 import { SdkCommands } from "./utils";
 import { dataClass } from "./commands/data.command";
+import { dataClassFromJson } from "./commands/data-from-json.command";
+import { openApiModels } from "./commands/openapi.command";
+import { SidebarActions } from "./views";
 
 const DART_MODE = { language: "dart", scheme: "file" };
 
@@ -47,7 +71,12 @@ export async function activate(
   const sdkCommands = new SdkCommands(context, dartExt.exports);
 
   registerCommands(context);
-  registerWrappers(context);
+  registerSealedCaseCommands(context);
+  const sidebar = registerSidebarActions(context, sdkCommands.api);
+  registerBuildWatchers(context, sdkCommands.api);
+  registerWrappers(context, () => sidebar.refresh());
+  registerWidgetCommands(context);
+  context.subscriptions.push(new FieldHintDiagnostics());
 }
 
 /// Register all commands.
@@ -55,70 +84,205 @@ function registerCommands(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     vscode.commands.registerCommand("flutter-plus.sealed-states", sealedStates)
   );
+  context.subscriptions.push(
+    vscode.commands.registerCommand("flutter-plus.sealed-union", sealedUnion)
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "flutter-plus.new-sealed-states",
+      newSealedStates
+    )
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand("flutter-plus.new-feature", newFeature)
+  );
   context.subscriptions.push(
     vscode.commands.registerCommand("flutter-plus.data", dataClass)
   );
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "flutter-plus.data-from-json",
+      dataClassFromJson
+    )
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "flutter-plus.openapi-models",
+      openApiModels
+    )
+  );
+}
+
+/**
+ * Register the "Actions" view of the Flutter panel and the project tasks
+ * it runs.
+ */
+function registerSidebarActions(
+  context: vscode.ExtensionContext,
+  sdk: DartCodeAdapter
+): SidebarActions {
+  const sidebar = new SidebarActions();
+  const tasks = new ProjectTasks(sdk);
+  context.subscriptions.push(
+    sidebar,
+    tasks,
+    vscode.window.registerTreeDataProvider(SidebarActions.viewId, sidebar),
+    vscode.commands.registerCommand(
+      SidebarActions.runCommandId,
+      SidebarActions.run
+    ),
+    ...projectTasks.map((task) =>
+      vscode.commands.registerCommand(task.commandId, (uri?: vscode.Uri) =>
+        tasks.run(task, uri)
+      )
+    )
+  );
+  return sidebar;
+}
+
+/** Register the commands running `build_runner watch` in the packages. */
+function registerBuildWatchers(
+  context: vscode.ExtensionContext,
+  sdk: DartCodeAdapter
+) {
+  const watchers = new BuildWatchers(sdk);
+  context.subscriptions.push(
+    watchers,
+    vscode.commands.registerCommand(
+      "flutter-plus.build-runner-watch",
+      (uri?: vscode.Uri) => watchers.start(uri)
+    ),
+    vscode.commands.registerCommand(
+      "flutter-plus.build-runner-watch.stop",
+      () => watchers.stop()
+    ),
+    vscode.commands.registerCommand(
+      "flutter-plus.build-runner-watch.restart",
+      () => watchers.restart()
+    ),
+    vscode.commands.registerCommand(
+      "flutter-plus.build-runner-watch.actions",
+      () => watchers.showActions()
+    )
+  );
 }
 
-/// Register all wrappers (Wrap With...).
-function registerWrappers(context: vscode.ExtensionContext) {
-  let wrappers = registerWrapperCommands(context);
-  const disposable = vscode.workspace.onDidChangeConfiguration((event) => {
-    if (event.affectsConfiguration("flutter-plus")) {
-      unregisterWrappers(wrappers);
-      wrappers = registerWrapperCommands(context);
-    }
-  });
-
-  context.subscriptions.push(disposable);
+/** Register the code actions changing the cases of generated sealed unions. */
+function registerSealedCaseCommands(context: vscode.ExtensionContext) {
+  const mapCalls = new MapCallDiagnostics();
+  const actions: Array<[string, SealedCaseAction]> = [
+    ["flutter-plus.sealed-union.add-case", "add"],
+    ["flutter-plus.sealed-union.rename-case", "rename"],
+    ["flutter-plus.sealed-union.remove-case", "remove"],
+  ];
+  context.subscriptions.push(
+    mapCalls,
+    ...actions.map(([command, action]) =>
+      vscode.commands.registerCommand(
+        command,
+        (uri: vscode.Uri, className: string) =>
+          editSealedCase(mapCalls, action, uri, className)
+      )
+    ),
+    vscode.languages.registerCodeActionsProvider(
+      DART_MODE,
+      new CodeActionSealedUnion(),
+      { providedCodeActionKinds: CodeActionSealedUnion.providedCodeActionKinds }
+    )
+  );
+}
+
+/**
+ * Register all wrappers (Wrap With...).
+ * The wraps are registered again when the settings or a
+ * `flutter_plus.yaml` file change, then `onReload` is called.
+ */
+function registerWrappers(
+  context: vscode.ExtensionContext,
+  onReload: () => void
+) {
+  let wrappers: Disposable[] = [];
+  // Reloads run one after the other, so that a command is never registered twice.
+  // A failed reload is reported and does not stop the next ones.
+  let loading = Promise.resolve();
+  const reload = () => {
+    loading = loading
+      .then(async () => {
+        unregisterWrappers(wrappers);
+        wrappers = await registerWrapperCommands(context);
+        onReload();
+      })
+      .catch((error) => {
+        vscode.window.showErrorMessage(`Error reloading wraps: ${error}`);
+      });
+  };
+  reload();
+
+  const watcher = vscode.workspace.createFileSystemWatcher(
+    `**/${projectConfigFileName}`
+  );
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("flutter-plus")) {
+        reload();
+      }
+    }),
+    watcher,
+    watcher.onDidChange(reload),
+    watcher.onDidCreate(reload),
+    watcher.onDidDelete(reload)
+  );
+}
+
+/** Register the refactors of the widget at the cursor, next to Wrap With. */
+function registerWidgetCommands(context: vscode.ExtensionContext) {
+  context.subscriptions.push(
+    vscode.commands.registerCommand("flutter-plus.unwrap", unwrap),
+    vscode.commands.registerCommand("flutter-plus.swap-wrapper", swapWrapper),
+    vscode.commands.registerCommand(
+      "flutter-plus.move-widget-up",
+      moveWidgetUp
+    ),
+    vscode.commands.registerCommand(
+      "flutter-plus.move-widget-down",
+      moveWidgetDown
+    ),
+    vscode.languages.registerCodeActionsProvider(
+      DART_MODE,
+      new CodeActionWidget(),
+      { providedCodeActionKinds: CodeActionWidget.providedCodeActionKinds }
+    )
+  );
 }
 
 function unregisterWrappers(disposables: Disposable[]) {
   disposables.forEach((disposable) => disposable.dispose());
 }
 
-function registerWrapperCommands(
+async function registerWrapperCommands(
   context: vscode.ExtensionContext
-): Disposable[] {
+): Promise<Disposable[]> {
   try {
-    const configWraps = FlutterPlusConfig.getInstance().getCustomWraps();
+    // The wraps are merged by command ID, duplicates are reported while loading
+    const configWraps = await FlutterPlusConfig.getInstance().loadWraps();
     const wraps: CodeWrap[] = configWraps.map((wrap) => ({
-      commandId: `flutter-plus.wrapWith.${wrap.name
-        .toLowerCase()
-        .replace(/\s/g, "-")}`,
+      commandId: wrapCommandId(wrap.name),
       title: `Wrap with ${wrap.name}`,
-      command: () =>
-        wrapWith((selectedText) =>
-          wrap.body.join("\n").replace("${widget}", selectedText)
-        ),
+      // Settings are not validated, a group that is not a word is ignored
+      group: isWrapGroup(wrap.group) ? wrap.group : "other",
+      when: wrap.when,
+      command: () => wrapWith(wrap),
     }));
 
-    const filteredWraps = wraps.filter(
-      (wrap, index, self) =>
-        index === self.findIndex((t) => t.commandId === wrap.commandId)
-    );
-
-    if (filteredWraps.length < wraps.length) {
-      const duplicates = wraps.filter(
-        (wrap, index, self) =>
-          index !== self.findIndex((t) => t.commandId === wrap.commandId)
-      );
-
-      vscode.window.showWarningMessage(
-        `Multiple wraps with the same command ID found: ${duplicates
-          .map((d) => d.commandId)
-          .join(", ")}`
-      );
-    }
-
-    const subscriptions = filteredWraps.map((wrap) =>
+    const subscriptions = wraps.map((wrap) =>
       vscode.commands.registerCommand(wrap.commandId, wrap.command)
     );
 
     subscriptions.push(
       vscode.languages.registerCodeActionsProvider(
         DART_MODE,
-        new CodeActionWrap(wraps)
+        new CodeActionWrap(wraps),
+        { providedCodeActionKinds: CodeActionWrap.providedCodeActionKinds }
       )
     );
     context.subscriptions.push(...subscriptions);
@@ -135,5 +299,8 @@ export function deactivate() {}
 export type CodeWrap = {
   commandId: string;
   title: string;
+  /** Last part of the code action kind, e.g. `layout`. */
+  group: string;
+  when?: WrapConditions;
   command: () => void;
 };
@@ -0,0 +1,667 @@
+import {
+  DartClass,
+  DartConstructor,
+  DartEnum,
+  DartMember,
+  DartType,
+  formatDartType,
+  parseDartType,
+  tokenizeDart,
+} from "../parser";
+import { enumCodecOf } from "./enum-codec";
+import { parseFieldHints, substituteValue } from "./field-hints";
+import {
+  EnumCodec,
+  fromJsonExpression,
+  SerializationContext,
+  toJsonExpression,
+} from "./serialization";
+
+export const namingStyles = [
+  "camelCase",
+  "snake_case",
+  "PascalCase",
+  "kebab-case",
+  "original",
+] as const;
+
+export type NamingStyle = (typeof namingStyles)[number];
+
+export const convertCase: Record<NamingStyle, (str: string) => string> = {
+  camelCase: (str: string) =>
+    str.replace(/_./g, (s) => s.charAt(1).toUpperCase()),
+  snake_case: (str: string) =>
+    str.replace(/([a-z])([A-Z])/g, "$1_$2").toLowerCase(),
+  PascalCase: (str: string) =>
+    str.replace(/(^\w|_\w)/g, (s: string) => s.replace("_", "").toUpperCase()),
+  "kebab-case": (str: string) =>
+    str.replace(/([a-z])([A-Z])/g, "$1-$2").toLowerCase(),
+  original: (str: string) => str,
+};
+
+const collectionTypes = new Set(["List", "Map", "Set", "Iterable"]);
+
+export type DataClassField = {
+  name: string;
+  type: DartType;
+  /** Key of the field in the serialized map. */
+  key: string;
+  nullable: boolean;
+  defaultValue?: string;
+  isEnum: boolean;
+  customParsing: { fromJson?: string; toJson?: string };
+  /** Text of the doc comment of a generated field declaration. */
+  documentation?: string;
+  /** Whether the field is left out of the serialized map. */
+  ignored?: boolean;
+  /** Conversions of this field, overriding the ones of the class. */
+  serialization?: SerializationContext;
+  /**
+   * Whether the field is declared without `final`, which makes the
+   * constructor non-const.
+   */
+  mutable?: boolean;
+  /**
+   * Whether the field is declared `late`, which also makes the constructor
+   * non-const.
+   */
+  late?: boolean;
+};
+
+/** Optional members of a data class. */
+export type DataClassOptions = {
+  /** `fromMap` and `toMap`. */
+  mapMethods: boolean;
+  /** `fromJson` and `toJson`, built on the map methods. */
+  jsonMethods: boolean;
+  copyWithMethod: boolean;
+  /** `operator ==` and `hashCode`. */
+  equalityOperator: boolean;
+  toStringMethod: boolean;
+};
+
+export const defaultDataClassOptions: DataClassOptions = {
+  mapMethods: true,
+  jsonMethods: true,
+  copyWithMethod: true,
+  equalityOperator: true,
+  toStringMethod: true,
+};
+
+export type DataClassSpec = {
+  name: string;
+  /** Type arguments to refer to the class itself, e.g. `<T>`. */
+  typeArguments: string;
+  /** Declaration line up to the opening brace, e.g. `final class User`. */
+  header: string;
+  fields: Array<DataClassField>;
+  /** Members that are not generated and kept as is. */
+  keptMembers: Array<string>;
+  options: DataClassOptions;
+  /** Text of the doc comment of a generated class. */
+  documentation?: string;
+  serialization?: SerializationContext;
+  /**
+   * Superclass of the class, e.g. `Base<T>`. Its constructor may not be
+   * const, so neither is the generated one.
+   */
+  superclass?: string;
+};
+
+/** Members produced by the data class generator, in output order. */
+export const dataClassMemberKinds = [
+  "constructor",
+  "fromMap",
+  "fromJson",
+  "toMap",
+  "toJson",
+  "copyWith",
+  "equals",
+  "hashCode",
+  "toString",
+] as const;
+
+export type DataClassMemberKind = (typeof dataClassMemberKinds)[number];
+
+export type TextReplacement = {
+  start: number;
+  end: number;
+  text: string;
+};
+
+/**
+ * Collects the data of a parsed class needed to generate its data class.
+ * Static, const and computed (`late` with an initializer) fields are not
+ * part of the data and are kept as is. Fields that are not `final` stay
+ * mutable and `late` fields stay `late`.
+ * Fields of the types in `options.enums` are serialized as enums, as well
+ * as fields with an `@enum` hint, whose enum declaration may be unknown.
+ */
+export const dataClassSpec = (
+  declaration: DartClass,
+  source: string,
+  options: {
+    suffix: string;
+    namingStyle: NamingStyle;
+    members?: DataClassOptions;
+    enums?: ReadonlyArray<DartEnum>;
+  }
+): DataClassSpec => {
+  const enums = new Map<string, EnumCodec>(
+    (options.enums ?? []).map((e) => [e.name, enumCodecOf(e.name, e)])
+  );
+  const name = `${declaration.name}${options.suffix}`;
+  const fields: Array<DataClassField> = [];
+  const keptMembers: Array<string> = [];
+  const constructor = findGeneratedMembers(declaration).get("constructor") as
+    | DartConstructor
+    | undefined;
+
+  for (const field of declaration.fields) {
+    if (
+      field.isStatic ||
+      field.isConst ||
+      (field.isLate && field.defaultValue)
+    ) {
+      const text = source.substring(field.start, field.end).trim();
+      if (!keptMembers.includes(text)) {
+        keptMembers.push(text);
+      }
+      continue;
+    }
+
+    const type = field.type ?? parseDartType("dynamic")!;
+
+    // A default value moved to a previously generated constructor.
+    const parameter = constructor?.parameters.find(
+      (p) => p.isInitializingFormal && p.name === field.name
+    );
+    const { hints } = parseFieldHints(field, source, parameter?.defaultValue);
+
+    fields.push({
+      name: field.name,
+      type,
+      key:
+        hints.key?.replace(/[\\'$]/g, "\\$&") ??
+        convertCase[options.namingStyle](field.name),
+      nullable: type.nullable || type.name === "dynamic",
+      defaultValue:
+        hints.defaultValue ?? field.defaultValue ?? parameter?.defaultValue,
+      isEnum: hints.isEnum,
+      customParsing: { fromJson: hints.fromJson, toJson: hints.toJson },
+      ignored: hints.ignore,
+      ...(field.isFinal ? {} : { mutable: true }),
+      ...(field.isLate ? { late: true } : {}),
+      serialization: hints.isEnum
+        ? {
+            enums: new Map([
+              ...enums,
+              ...leafTypeNames(type).map((name): [string, EnumCodec] => [
+                name,
+                enumCodecOf(
+                  name,
+                  options.enums?.find((e) => e.name === name),
+                  hints.enumFallback
+                ),
+              ]),
+            ]),
+          }
+        : undefined,
+    });
+  }
+
+  const header = [
+    ...declaration.modifiers,
+    "class",
+    `${name}${declaration.typeParameters ?? ""}`,
+    ...(declaration.superclass ? ["extends", declaration.superclass.text] : []),
+    ...(declaration.mixins.length
+      ? ["with", declaration.mixins.map((t) => t.text).join(", ")]
+      : []),
+    ...(declaration.interfaces.length
+      ? ["implements", declaration.interfaces.map((t) => t.text).join(", ")]
+      : []),
+  ].join(" ");
+
+  // Type parameters without their bounds, e.g. `<K, V>`.
+  const typeArguments = declaration.typeParameters
+    ? `<${declaration.typeParameters
+        .slice(1, -1)
+        .split(",")
+        .map((parameter) => parameter.trim().split(/\s+/)[0])
+        .join(", ")}>`
+    : "";
+
+  return {
+    name,
+    typeArguments,
+    header,
+    fields,
+    keptMembers,
+    options: options.members ?? defaultDataClassOptions,
+    serialization: { enums },
+    superclass: declaration.superclass?.text,
+  };
+};
+
+/**
+ * Names of the enums of the fields of `declaration` with an `@enum`
+ * hint, to look up their declarations.
+ */
+export const hintedEnumNames = (
+  declaration: DartClass,
+  source: string
+): Array<string> => [
+  ...new Set(
+    declaration.fields
+      .filter(
+        (field) => field.type && parseFieldHints(field, source).hints.isEnum
+      )
+      .flatMap((field) => leafTypeNames(field.type!))
+  ),
+];
+
+/**
+ * Names of the element types of `type`, e.g. `Status` of
+ * `List<Status>?`.
+ */
+const leafTypeNames = (type: DartType): Array<string> =>
+  collectionTypes.has(type.name)
+    ? type.args.slice(type.name === "Map" ? 1 : 0).flatMap(leafTypeNames)
+    : [type.name];
+
+/** Member kinds enabled by `options`, in output order. */
+export const enabledMemberKinds = (
+  options: DataClassOptions
+): Array<DataClassMemberKind> =>
+  dataClassMemberKinds.filter((kind) => {
+    switch (kind) {
+      case "constructor":
+        return true;
+      case "fromMap":
+      case "toMap":
+        return options.mapMethods || options.jsonMethods;
+      case "fromJson":
+      case "toJson":
+        return options.jsonMethods;
+      case "copyWith":
+        return options.copyWithMethod;
+      case "equals":
+      case "hashCode":
+        return options.equalityOperator;
+      case "toString":
+        return options.toStringMethod;
+    }
+  });
+
+/** Generates the members of a data class, indented for a class body. */
+export const generateDataClassMembers = (
+  spec: DataClassSpec
+): Record<DataClassMemberKind, string> => {
+  const { name, fields, serialization } = spec;
+  const type = `${name}${spec.typeArguments}`;
+
+  // A class with mutable or late fields cannot have a const constructor
+  const isConst =
+    !spec.superclass && !fields.some((field) => field.mutable || field.late);
+  const constructor = `${isConst ? "const " : ""}${name}({
+    ${fields
+      .map(({ name, nullable, defaultValue }) =>
+        defaultValue !== undefined
+          ? `this.${name} = ${defaultValue},`
+          : `${nullable ? "" : "required "}this.${name},`
+      )
+      .join("\n    ")}
+  });`;
+
+  const serialized = fields.filter((field) => !field.ignored);
+
+  const fromMap = `factory ${name}.fromMap(Map<String, dynamic> map) => ${name}(
+    ${serialized
+      .map((field) => {
+        const { type, name, key, defaultValue, customParsing } = field;
+        const context = field.serialization ?? serialization;
+        const value = `map['${key}']`;
+        if (customParsing.fromJson) {
+          return `${name}: ${substituteValue(customParsing.fromJson, value)},`;
+        }
+        if (defaultValue !== undefined) {
+          // A missing value falls back to the default value
+          const nullableType = parseDartType(`${type.text}?`) ?? type;
+          const converted = fromJsonExpression(nullableType, value, context);
+          // `a == null ? null : b ?? c` would apply the default to `b` only.
+          return `${name}: ${
+            converted.startsWith(`${value} == null ?`)
+              ? `(${converted})`
+              : converted
+          } ?? ${defaultValue},`;
+        }
+        return `${name}: ${fromJsonExpression(type, value, context)},`;
+      })
+      .join("\n    ")}
+  );`;
+
+  const fromJson = `factory ${name}.fromJson(String source) =>
+      ${name}.fromMap(json.decode(source));`;
+
+  const toMap = `Map<String, dynamic> toMap() => {
+    ${serialized
+      .map((field) => {
+        const { type, name, key, customParsing } = field;
+        if (customParsing.toJson) {
+          return `'${key}': ${substituteValue(customParsing.toJson, name)},`;
+        }
+        return `'${key}': ${toJsonExpression(
+          type,
+          name,
+          field.serialization ?? serialization
+        )},`;
+      })
+      .join("\n    ")}
+  };`;
+
+  const toJson = `String toJson() => json.encode(toMap());`;
+
+  // Nullable fields take a function, so they can be reset to null:
+  // `user.copyWith(birthday: () => null)`.
+  const copyWith = `${type} copyWith({
+    ${fields
+      .map(({ type, name, nullable }) =>
+        nullable
+          ? `${type.text} Function()? ${name},`
+          : `${formatDartType(type.name, type.args, true)} ${name},`
+      )
+      .join("\n    ")}
+  }) =>
+      ${name}(
+        ${fields
+          .map(({ name, nullable }) =>
+            nullable
+              ? `${name}: ${name} != null ? ${name}() : this.${name},`
+              : `${name}: ${name} ?? this.${name},`
+          )
+          .join("\n        ")}
+      );`;
+
+  // Collections are compared by their content.
+  const isCollection = (field: DataClassField) =>
+    collectionTypes.has(field.type.name);
+
+  const equals = `@override
+  bool operator ==(Object other) =>
+      identical(this, other) ||
+      other is ${type} &&
+          runtimeType == other.runtimeType${fields
+            .map((field) =>
+              isCollection(field)
+                ? ` &&\n          const DeepCollectionEquality().equals(${field.name}, other.${field.name})`
+                : ` &&\n          ${field.name} == other.${field.name}`
+            )
+            .join("")};`;
+
+  const hashCode = `@override
+  int get hashCode => Object.hashAll([
+        ${fields
+          .map((field) =>
+            isCollection(field)
+              ? `const DeepCollectionEquality().hash(${field.name}),`
+              : `${field.name},`
+          )
+          .join("\n        ")}
+      ]);`;
+
+  const toString = `@override
+  String toString() => '${name}(${fields
+    .map(({ name }) => `${name}: \$${name}`)
+    .join(", ")})';`;
+
+  return {
+    constructor,
+    fromMap,
+    fromJson,
+    toMap,
+    toJson,
+    copyWith,
+    equals,
+    hashCode,
+    toString,
+  };
+};
+
+/** Generates the whole data class. */
+export const generateDataClass = (spec: DataClassSpec): string => {
+  const members = generateDataClassMembers(spec);
+  const keptMembers = spec.keptMembers.length
+    ? `\n  ${spec.keptMembers.join("\n  ")}\n`
+    : "";
+  const fieldDeclarations = spec.fields
+    .map(
+      ({ type, name, documentation, mutable, late }) =>
+        `${docComment(documentation, "  ")}${late ? "late " : ""}${
+          mutable ? "" : "final "
+        }${type.text} ${name};`
+    )
+    .join("\n  ");
+
+  return `${docComment(spec.documentation, "")}${spec.header} {${keptMembers}
+  ${fieldDeclarations}
+
+  ${enabledMemberKinds(spec.options)
+    .map((kind) => members[kind])
+    .join("\n\n  ")}
+}`;
+};
+
+/** Libraries the generated members of `spec` depend on. */
+export const dataClassImports = (spec: DataClassSpec): Array<string> => {
+  const imports: Array<string> = [];
+  if (spec.options.jsonMethods) {
+    imports.push("dart:convert");
+  }
+  if (
+    spec.options.equalityOperator &&
+    spec.fields.some((field) => collectionTypes.has(field.type.name))
+  ) {
+    imports.push("package:collection/collection.dart");
+  }
+  return imports;
+};
+
+/** Formats `text` as a `///` comment followed by a line break and `indent`. */
+const docComment = (text: string | undefined, indent: string): string =>
+  text
+    ? text
+        .trim()
+        .split("\n")
+        .map((line) => `/// ${line.trimEnd()}`.trimEnd())
+        .join(`\n${indent}`) + `\n${indent}`
+    : "";
+
+/**
+ * Finds the members of `declaration` that the data class generator
+ * produces, if any.
+ */
+export const findGeneratedMembers = (
+  declaration: DartClass
+): Map<DataClassMemberKind, DartMember> => {
+  const members = new Map<DataClassMemberKind, DartMember>();
+  const add = (kind: DataClassMemberKind, member: DartMember) => {
+    if (!members.has(kind)) {
+      members.set(kind, member);
+    }
+  };
+  for (const member of declaration.members) {
+    if (member.kind === "constructor") {
+      const constructor = member as DartConstructor;
+      if (!constructor.constructorName && !constructor.isFactory) {
+        add("constructor", member);
+      } else if (
+        constructor.constructorName === "fromMap" ||
+        constructor.constructorName === "fromJson"
+      ) {
+        add(constructor.constructorName, member);
+      }
+    } else if (
+      member.kind === "method" &&
+      !member.isStatic &&
+      (member.name === "toMap" ||
+        member.name === "toJson" ||
+        member.name === "toString" ||
+        member.name === "copyWith")
+    ) {
+      add(member.name, member);
+    } else if (member.kind === "operator" && member.name === "==") {
+      add("equals", member);
+    } else if (member.kind === "getter" && member.name === "hashCode") {
+      add("hashCode", member);
+    }
+  }
+  return members;
+};
+
+/**
+ * Whether `declaration` already contains generated members, so that it
+ * keeps its name when it is refreshed. Without serialization or
+ * `copyWith`, the generated constructor, taking only named `this.`
+ * parameters, must come with the generated equality or `toString`.
+ */
+export const isGeneratedDataClass = (declaration: DartClass): boolean => {
+  const members = findGeneratedMembers(declaration);
+  if (
+    members.has("fromMap") ||
+    members.has("fromJson") ||
+    members.has("toMap") ||
+    members.has("copyWith")
+  ) {
+    return true;
+  }
+  const constructor = members.get("constructor") as
+    | DartConstructor
+    | undefined;
+  return (
+    !!constructor &&
+    constructor.parameters.length > 0 &&
+    constructor.parameters.every(
+      (parameter) => parameter.isNamed && parameter.isInitializingFormal
+    ) &&
+    (members.has("equals") ||
+      members.has("hashCode") ||
+      members.has("toString"))
+  );
+};
+
+/**
+ * Regenerates only the generated members of `declaration`, keeping every
+ * other member, comment and annotation as it is. Members of disabled
+ * options are left untouched. Missing generated members
+ * are inserted after the preceding generated member or after the fields.
+ * Initializers of data fields move to the constructor, like in a freshly
+ * generated class.
+ */
+export const refreshDataClass = (
+  declaration: DartClass,
+  spec: DataClassSpec
+): Array<TextReplacement> => {
+  const existing = findGeneratedMembers(declaration);
+  const generated = generateDataClassMembers(spec);
+  const edits: Array<TextReplacement> = [];
+
+  // Field declarations with an initializer.
+  const dataFields = new Set(spec.fields.map((field) => field.name));
+  const initialized = declaration.fields.filter(
+    (field) => dataFields.has(field.name) && field.defaultValue !== undefined
+  );
+  for (const field of initialized) {
+    if (edits.some((edit) => edit.start === field.declarationStart)) {
+      continue;
+    }
+    const declarators = declaration.fields.filter(
+      (other) => other.declarationStart === field.declarationStart
+    );
+    edits.push({
+      start: field.declarationStart,
+      end: field.end,
+      text: declarators
+        .map(
+          (other) =>
+            `${other.isFinal ? "final " : ""}${other.type?.text ?? "dynamic"} ${
+              other.name
+            };`
+        )
+        .join("\n  "),
+    });
+  }
+
+  const lastField = declaration.fields[declaration.fields.length - 1];
+  const anchor = lastField?.end ?? declaration.bodyStart + 1;
+  let previous: TextReplacement | undefined;
+  let pending: Array<string> = [];
+  const flush = () => {
+    if (pending.length === 0) {
+      return;
+    }
+    const text = pending.map((member) => `\n\n  ${member}`).join("");
+    if (previous) {
+      previous.text += text;
+    } else {
+      const fieldEdit = edits.find((edit) => edit.end === anchor);
+      if (fieldEdit) {
+        fieldEdit.text += text;
+      } else {
+        edits.push({ start: anchor, end: anchor, text });
+      }
+    }
+    pending = [];
+  };
+
+  for (const kind of enabledMemberKinds(spec.options)) {
+    const member = existing.get(kind);
+    if (!member) {
+      pending.push(generated[kind]);
+      continue;
+    }
+    flush();
+    previous = {
+      start: member.annotations[0]?.start ?? member.declarationStart,
+      end: member.end,
+      text: generated[kind],
+    };
+    edits.push(previous);
+  }
+  flush();
+
+  return edits.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Renames `declaration` to `name`: the class name in its header, its
+ * constructors and the other references to the class in its body.
+ * The ranges replaced by `edits` are left out, they are generated with the
+ * new name.
+ */
+export const renameDataClass = (
+  declaration: DartClass,
+  source: string,
+  name: string,
+  edits: ReadonlyArray<TextReplacement>
+): Array<TextReplacement> => {
+  const offset = declaration.declarationStart;
+  const tokens = tokenizeDart(source.substring(offset, declaration.end));
+  return tokens
+    .filter(
+      (token, index) =>
+        token.kind === "identifier" &&
+        token.text === declaration.name &&
+        tokens[index - 1]?.text !== "." &&
+        !edits.some(
+          (edit) =>
+            edit.start <= offset + token.start &&
+            offset + token.end <= edit.end
+        )
+    )
+    .map((token) => ({
+      start: offset + token.start,
+      end: offset + token.end,
+      text: name,
+    }));
+};
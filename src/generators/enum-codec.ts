@@ -0,0 +1,77 @@
+import { DartEnum, DartField } from "../parser";
+import { EnumCodec } from "./serialization";
+
+/** Names of fields that usually hold the wire value of an enhanced enum. */
+const wireValueNames = ["value", "code", "json", "key", "id"];
+
+const wireValueTypes = new Set(["String", "int", "num", "double"]);
+
+/**
+ * Builds the conversions of the enum `name` from its `declaration`, if it
+ * was found. In order of preference, the enum is converted with:
+ * - its own static `fromJson` and `toJson` methods;
+ * - the wire value field of an enhanced enum, e.g. `final String value;`;
+ * - the name of its values, with `values.byName`.
+ * Unknown values decode to the `fallback` value if one is given, otherwise
+ * they throw.
+ */
+export const enumCodecOf = (
+  name: string,
+  declaration?: DartEnum,
+  fallback?: string
+): EnumCodec => {
+  const fallbackValue = fallback && `${name}.${fallback}`;
+  const members = declaration?.members ?? [];
+  const fromJson = members.find(
+    (m) => m.isStatic && m.kind === "method" && m.name === "fromJson"
+  );
+  const toJson = members.find(
+    (m) => !m.isStatic && m.kind === "method" && m.name === "toJson"
+  );
+  if (fromJson && toJson && !fallbackValue) {
+    return {
+      decode: (value) => `${name}.fromJson(${value})`,
+      encode: (value, access) => `${value}${access}toJson()`,
+    };
+  }
+
+  const field = declaration && wireValueField(declaration);
+  if (field) {
+    return {
+      decode: (value) =>
+        `${name}.values.firstWhere((v) => v.${field.name} == ${value}${
+          fallbackValue ? `, orElse: () => ${fallbackValue}` : ""
+        })`,
+      encode: (value, access) => `${value}${access}${field.name}`,
+    };
+  }
+
+  return {
+    decode: (value) =>
+      fallbackValue
+        ? `${name}.values.asNameMap()[${value}] ?? ${fallbackValue}`
+        : `${name}.values.byName(${value} as String)`,
+    encode: (value, access) => `${value}${access}name`,
+  };
+};
+
+/**
+ * The field of an enhanced enum holding the serialized form of its
+ * values: a well-known name, or the only instance field of a JSON type.
+ */
+const wireValueField = (declaration: DartEnum): DartField | undefined => {
+  const fields = declaration.fields.filter(
+    (field) =>
+      !field.isStatic &&
+      field.defaultValue === undefined &&
+      field.type !== undefined &&
+      wireValueTypes.has(field.type.name) &&
+      !field.type.nullable
+  );
+  return (
+    fields.find((field) => wireValueNames.includes(field.name)) ??
+    (fields.length === 1 && declaration.fields.length === 1
+      ? fields[0]
+      : undefined)
+  );
+};
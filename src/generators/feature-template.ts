@@ -0,0 +1,318 @@
+import { parseDart } from "../parser";
+import {
+  DataClassOptions,
+  dataClassImports,
+  dataClassSpec,
+  generateDataClass,
+  NamingStyle,
+} from "./data-class.generator";
+import { importBlock } from "./imports";
+import { fieldNameOf, fileNameOf, typeNameOf } from "./naming";
+import {
+  generateSealedUnion,
+  readCaseSpec,
+  renderSnippet,
+  SealedUnionOptions,
+  sealedUnionImports,
+  splitTopLevel,
+} from "./sealed-union.generator";
+
+/**
+ * A file of a feature template. Its content is the text of `content`, or
+ * generated by the sealed states generator for `sealedStates` or by the
+ * data class generator for `dataClass`.
+ */
+export type FeatureFile = {
+  /**
+   * Path from the folder of the feature, e.g. `bloc/${name.snake}_state.dart`.
+   */
+  path: string;
+  content?: string;
+  /** Name of the sealed states class, e.g. `${name.pascal}State`. */
+  sealedStates?: string;
+  /** States of `sealedStates`, the generator defaults when missing. */
+  states?: Array<string>;
+  /** Name of the data class, e.g. `${name.pascal}Model`. */
+  dataClass?: string;
+  /** Fields of `dataClass`, e.g. `String id, String title`. */
+  fields?: string;
+};
+
+/** A set of files created together for a new feature. */
+export type FeatureTemplate = {
+  name: string;
+  description?: string;
+  /** Folder of the feature, created in the selected folder. */
+  folder: string;
+  files: Array<FeatureFile>;
+};
+
+/** The name of a feature in every case, see {@link featureNames}. */
+export type FeatureNames = {
+  pascal: string;
+  camel: string;
+  snake: string;
+  kebab: string;
+};
+
+/** Options of the generators creating the files of a feature. */
+export type FeatureGeneratorOptions = {
+  states: Array<string>;
+  stateOptions: SealedUnionOptions;
+  useMeta: boolean;
+  members: DataClassOptions;
+  keyCase: NamingStyle;
+};
+
+/** A file of a feature, with its path from the selected folder. */
+export type RenderedFile = { path: string; content: string };
+
+/**
+ * `name`, e.g. `user profile`, in the cases of the variables
+ * `${name.pascal}`, `${name.camel}`, `${name.snake}` and `${name.kebab}`.
+ */
+export const featureNames = (name: string): FeatureNames => {
+  const snake = fileNameOf(name);
+  return {
+    pascal: typeNameOf(snake),
+    camel: fieldNameOf(snake),
+    snake,
+    kebab: snake.replace(/_/g, "-"),
+  };
+};
+
+/**
+ * Replaces the `${name.<case>}` variables of `text`, other `${...}` are
+ * kept, e.g. Dart string interpolations.
+ */
+export const expandFeatureVariables = (
+  text: string,
+  names: FeatureNames
+): string =>
+  text.replace(
+    /\$\{name\.(pascal|camel|snake|kebab)\}/g,
+    (_, nameCase: keyof FeatureNames) => names[nameCase]
+  );
+
+/**
+ * Reads a feature template, e.g. a YAML file of the workspace templates
+ * folder, or returns why it is invalid.
+ */
+export const readFeatureTemplate = (
+  raw: unknown,
+  fallbackName: string
+): FeatureTemplate | string => {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return "expected a template with files.";
+  }
+  const { name, description, folder, files } = raw as Record<string, unknown>;
+  if (!Array.isArray(files) || !files.length) {
+    return "files must be a list of files.";
+  }
+  if (typeof folder === "string" && !isRelativePath(folder)) {
+    return "folder must be a relative path without '..'.";
+  }
+  const template: FeatureTemplate = {
+    name: typeof name === "string" && name.trim() ? name : fallbackName,
+    ...(typeof description === "string" ? { description } : {}),
+    folder: typeof folder === "string" ? folder : "${name.snake}",
+    files: [],
+  };
+  for (const [index, file] of files.entries()) {
+    const { path, content, sealedStates, states, dataClass, fields } = (
+      typeof file === "object" && file !== null ? file : {}
+    ) as Record<string, unknown>;
+    const kinds = [content, sealedStates, dataClass].filter(
+      (kind) => typeof kind === "string"
+    );
+    if (typeof path !== "string" || !path.trim() || kinds.length !== 1) {
+      return `files[${index}] must have a path and one of content, sealedStates or dataClass.`;
+    }
+    if (!isRelativePath(path)) {
+      return `the path of files[${index}] must be a relative path without '..'.`;
+    }
+    if (
+      states !== undefined &&
+      !(Array.isArray(states) && states.every((s) => typeof s === "string"))
+    ) {
+      return `the states of files[${index}] must be a list of names.`;
+    }
+    if (fields !== undefined && typeof fields !== "string") {
+      return `the fields of files[${index}] must be a string, e.g. String id, String title.`;
+    }
+    template.files.push({
+      path,
+      ...(typeof content === "string" ? { content } : {}),
+      ...(typeof sealedStates === "string" ? { sealedStates } : {}),
+      ...(states ? { states: states as Array<string> } : {}),
+      ...(typeof dataClass === "string" ? { dataClass } : {}),
+      ...(fields ? { fields } : {}),
+    });
+  }
+  return template;
+};
+
+/**
+ * Whether `path` stays in the folder it is relative to, so a template
+ * cannot write outside of the selected folder.
+ */
+const isRelativePath = (path: string): boolean =>
+  !/^([\\/]|[A-Za-z]:)/.test(path) &&
+  !path.split(/[\\/]/).some((segment) => segment.trim() === "..");
+
+/**
+ * Renders the files of `template` for the feature [names]: the variables
+ * of the paths and contents are replaced, and the sealed states and data
+ * classes are generated with `options`, with the imports they need.
+ * Throws when the states or fields of a file are invalid.
+ */
+export const renderFeature = (
+  template: FeatureTemplate,
+  names: FeatureNames,
+  options: FeatureGeneratorOptions
+): Array<RenderedFile> => {
+  const folder = expandFeatureVariables(template.folder, names);
+  return template.files.map((file) => {
+    const path = [folder, expandFeatureVariables(file.path, names)]
+      .filter((part) => part)
+      .join("/");
+    if (file.sealedStates !== undefined) {
+      return { path, content: sealedStatesFile(file, names, options) };
+    }
+    if (file.dataClass !== undefined) {
+      return { path, content: dataClassFile(file, names, options) };
+    }
+    const content = expandFeatureVariables(file.content ?? "", names);
+    return { path, content: content.endsWith("\n") ? content : `${content}\n` };
+  });
+};
+
+const sealedStatesFile = (
+  file: FeatureFile,
+  names: FeatureNames,
+  options: FeatureGeneratorOptions
+): string => {
+  const className = expandFeatureVariables(file.sealedStates!, names);
+  const { cases, errors } = readCaseSpec(
+    (file.states ?? options.states).join(", "),
+    "state"
+  );
+  if (errors.length) {
+    throw new Error(`Invalid states of ${className}: ${errors.join(" ")}`);
+  }
+  const spec = {
+    template: "state" as const,
+    className,
+    templateName: fileNameOf(className),
+    cases,
+    options: options.stateOptions,
+    useMeta: options.useMeta,
+  };
+  return withImports(
+    sealedUnionImports(spec),
+    renderSnippet(generateSealedUnion(spec))
+  );
+};
+
+const dataClassFile = (
+  file: FeatureFile,
+  names: FeatureNames,
+  options: FeatureGeneratorOptions
+): string => {
+  const className = expandFeatureVariables(file.dataClass!, names);
+  // The commas of type arguments, e.g. `Map<String, int> counts`, are kept
+  const fields = splitTopLevel(file.fields ?? "String id", [","]).filter(
+    (field) => field
+  );
+  const invalid = fields.find((field) => !/^\S.*\s[A-Za-z_]\w*$/.test(field));
+  if (invalid !== undefined || !fields.length) {
+    throw new Error(
+      `Invalid fields of ${className}: expected a type and a name, e.g. String id.`
+    );
+  }
+  // The generator reads the fields from a class declaring them
+  const source = `class ${className} {\n${fields
+    .map((field) => `  final ${field};`)
+    .join("\n")}\n}\n`;
+  const spec = dataClassSpec(parseDart(source).classes[0], source, {
+    suffix: "",
+    namingStyle: options.keyCase,
+    members: options.members,
+  });
+  return withImports(dataClassImports(spec), generateDataClass(spec));
+};
+
+const withImports = (imports: Array<string>, code: string): string =>
+  `${imports.length ? `${importBlock(imports)}\n\n` : ""}${code.trim()}\n`;
+
+/**
+ * The template bundled with the extension: a sealed state, a repository
+ * interface and its implementation, a model and a screen.
+ */
+export const bundledFeatureTemplates: ReadonlyArray<FeatureTemplate> = [
+  {
+    name: "Feature",
+    description: "bloc, data, model and widget folders",
+    folder: "${name.snake}",
+    files: [
+      {
+        path: "bloc/${name.snake}_state.dart",
+        sealedStates: "${name.pascal}State",
+      },
+      {
+        path: "bloc/${name.snake}_bloc.dart",
+        content: `import 'package:flutter_bloc/flutter_bloc.dart';
+
+import '../data/\${name.snake}_repository.dart';
+import '\${name.snake}_state.dart';
+
+/// Business logic of the \${name.pascal} feature.
+final class \${name.pascal}Bloc extends Cubit<\${name.pascal}State> {
+  \${name.pascal}Bloc({
+    required I\${name.pascal}Repository repository,
+    required \${name.pascal}State initialState,
+  })  : _repository = repository,
+        super(initialState);
+
+  final I\${name.pascal}Repository _repository;
+}
+`,
+      },
+      {
+        path: "data/${name.snake}_repository.dart",
+        content: `import '../model/\${name.snake}_model.dart';
+
+/// Loads the data of the \${name.pascal} feature.
+abstract interface class I\${name.pascal}Repository {
+  Future<\${name.pascal}Model> fetch();
+}
+
+final class \${name.pascal}RepositoryImpl implements I\${name.pascal}Repository {
+  const \${name.pascal}RepositoryImpl();
+
+  @override
+  Future<\${name.pascal}Model> fetch() => throw UnimplementedError();
+}
+`,
+      },
+      {
+        path: "model/${name.snake}_model.dart",
+        dataClass: "${name.pascal}Model",
+        fields: "String id",
+      },
+      {
+        path: "widget/${name.snake}_screen.dart",
+        content: `import 'package:flutter/material.dart';
+
+/// Screen of the \${name.pascal} feature.
+class \${name.pascal}Screen extends StatelessWidget {
+  const \${name.pascal}Screen({super.key});
+
+  @override
+  Widget build(BuildContext context) => const Placeholder();
+}
+`,
+      },
+    ],
+  },
+];
@@ -0,0 +1,361 @@
+import { DartClass, DartField, tokenizeDart } from "../parser";
+
+/**
+ * Hints of a data class field, written as tags in the comments above it:
+ *
+ * ```dart
+ * /// @key user_name
+ * /// @default 'Anonymous'
+ * final String name;
+ *
+ * // @converter ColorConverter
+ * final Color color;
+ *
+ * // @enum unknown
+ * final Status status;
+ *
+ * // @fromJson Count.parse(value)
+ * // @toJson value.serialize()
+ * final Count count;
+ * ```
+ *
+ * The legacy `// Type: enum` and `// Parsing: fromJson, toJson` comments
+ * are still understood.
+ */
+export type FieldHints = {
+  /** Key of the field in the serialized map, overriding the naming style. */
+  key?: string;
+  defaultValue?: string;
+  /** Whether the field is left out of `fromMap` and `toMap`. */
+  ignore: boolean;
+  isEnum: boolean;
+  /** Enum value used for unknown serialized values. */
+  enumFallback?: string;
+  /** Conversions of the field, `value` stands for the converted value. */
+  fromJson?: string;
+  toJson?: string;
+};
+
+export type HintDiagnostic = {
+  message: string;
+  severity: "error" | "warning";
+  /** Offsets of the hint in the source. */
+  start: number;
+  end: number;
+};
+
+export const fieldHintTags = [
+  "key",
+  "default",
+  "ignore",
+  "enum",
+  "converter",
+  "fromJson",
+  "toJson",
+] as const;
+
+type FieldHintTag = (typeof fieldHintTags)[number];
+
+/** Tags that take no value. */
+const flagTags = new Set<string>(["ignore"]);
+
+/** Tags whose value is optional. */
+const optionalValueTags = new Set<string>(["enum"]);
+
+const tagPattern = /^(\s*)@([A-Za-z_][\w-]*)(.*)$/;
+
+/**
+ * Comments starting with a known hint, or with a hint in the older
+ * formats. Doc comment tags such as `{@template}` are not hints.
+ */
+export const fieldHintPattern = new RegExp(
+  `//+(?:[ \\t]*@(?:${fieldHintTags.join("|")})\\b` +
+    "|.*(?:Type:\\s*enum|Parsing:))"
+);
+
+/**
+ * Whether `source` may contain field hints, to skip parsing files
+ * without any.
+ */
+export const mayContainFieldHints = (source: string): boolean =>
+  fieldHintPattern.test(source);
+
+/**
+ * Parses the hints in the comments above `field`. `constructorDefault`
+ * is the default value of the field in the existing constructor, if any.
+ */
+export const parseFieldHints = (
+  field: DartField,
+  source: string,
+  constructorDefault?: string
+): { hints: FieldHints; diagnostics: Array<HintDiagnostic> } => {
+  const hints: FieldHints = { ignore: false, isEnum: false };
+  const diagnostics: Array<HintDiagnostic> = [];
+  // Where each hint was given, to report conflicts on it.
+  const seen = new Map<string, { start: number; end: number }>();
+
+  const report = (
+    severity: HintDiagnostic["severity"],
+    message: string,
+    at: { start: number; end: number }
+  ) => diagnostics.push({ message, severity, ...at });
+
+  const set = (
+    tag: FieldHintTag,
+    at: { start: number; end: number },
+    apply: () => void
+  ) => {
+    if (seen.has(tag)) {
+      report("error", `Duplicate hint @${tag}.`, at);
+      return;
+    }
+    seen.set(tag, at);
+    apply();
+  };
+
+  const comments = tokenizeDart(
+    source.substring(field.start, field.declarationStart)
+  ).filter((token) => token.kind === "comment" && token.text.startsWith("//"));
+
+  for (const comment of comments) {
+    const prefix = /^\/\/+/.exec(comment.text)![0].length;
+    const text = comment.text.substring(prefix);
+    const at = {
+      start: field.start + comment.start,
+      end: field.start + comment.end,
+    };
+
+    if (/Type:\s*enum\b/.test(text)) {
+      set("enum", at, () => (hints.isEnum = true));
+      continue;
+    }
+    const parsing = /Parsing:(.*)$/.exec(text);
+    if (parsing) {
+      const parts = splitArguments(parsing[1]);
+      if (parts.length !== 2 || parts.some((part) => !part)) {
+        report(
+          "error",
+          "Parsing: expects two expressions separated by a comma, e.g. `Parsing: Count.parse(value), value.toString()`.",
+          at
+        );
+        continue;
+      }
+      set("fromJson", at, () => (hints.fromJson = parts[0]));
+      set("toJson", at, () => (hints.toJson = parts[1]));
+      continue;
+    }
+
+    const match = tagPattern.exec(text);
+    if (!match) {
+      continue;
+    }
+    const [, indent, tag, rest] = match;
+    const value = rest.replace(/^\s*:/, "").trim();
+    at.start += prefix + indent.length;
+
+    if (!(fieldHintTags as ReadonlyArray<string>).includes(tag)) {
+      report(
+        "warning",
+        `Unknown data class hint @${tag}. Known hints: ${fieldHintTags
+          .map((known) => `@${known}`)
+          .join(", ")}.`,
+        at
+      );
+      continue;
+    }
+    if (rest && !/^\s*:|^\s/.test(rest)) {
+      report("error", `Unknown data class hint @${tag}${rest}.`, at);
+      continue;
+    }
+    if (flagTags.has(tag)) {
+      if (value) {
+        report("warning", `@${tag} takes no value.`, at);
+      }
+    } else if (!value && !optionalValueTags.has(tag)) {
+      report("error", `@${tag} needs a value.`, at);
+      continue;
+    } else if (tag !== "key" && !isBalanced(value)) {
+      report("error", `@${tag} is not a valid expression: ${value}`, at);
+      continue;
+    }
+
+    switch (tag as FieldHintTag) {
+      case "key":
+        set("key", at, () => (hints.key = unquote(value)));
+        break;
+      case "default":
+        set("default", at, () => (hints.defaultValue = value));
+        break;
+      case "ignore":
+        set("ignore", at, () => (hints.ignore = true));
+        break;
+      case "enum": {
+        // The fallback may be written with the enum name, `Status.unknown`.
+        const fallback = /^(?:[A-Za-z_$][\w$]*\.)?([A-Za-z_$][\w$]*)$/.exec(
+          value
+        );
+        if (value && !fallback) {
+          report(
+            "error",
+            `@enum expects the name of the value used for unknown values: ${value}`,
+            at
+          );
+          break;
+        }
+        set("enum", at, () => {
+          hints.isEnum = true;
+          hints.enumFallback = fallback?.[1];
+        });
+        break;
+      }
+      case "converter": {
+        // A bare class name refers to its const default constructor.
+        const converter = /^[A-Za-z_$][\w$]*$/.test(value)
+          ? `const ${value}()`
+          : value;
+        set("converter", at, () => {
+          hints.fromJson = `${converter}.fromJson(value)`;
+          hints.toJson = `${converter}.toJson(value)`;
+        });
+        break;
+      }
+      case "fromJson":
+      case "toJson":
+        if (!referencesValue(value)) {
+          report(
+            "warning",
+            `@${tag} does not use \`value\`, the converted value.`,
+            at
+          );
+        }
+        set(tag as FieldHintTag, at, () => (hints[tag as "toJson"] = value));
+        break;
+    }
+  }
+
+  const conflict = (a: string, b: string) => {
+    const at = seen.get(b);
+    if (seen.has(a) && at) {
+      report("error", `@${b} cannot be combined with @${a}.`, at);
+    }
+  };
+  conflict("converter", "fromJson");
+  conflict("converter", "toJson");
+  conflict("enum", "converter");
+  conflict("enum", "fromJson");
+  conflict("enum", "toJson");
+  const ignored = seen.get("ignore");
+  if (
+    ignored &&
+    !field.type?.nullable &&
+    field.type?.name !== "dynamic" &&
+    field.type !== undefined &&
+    hints.defaultValue === undefined &&
+    field.defaultValue === undefined &&
+    constructorDefault === undefined
+  ) {
+    report(
+      "error",
+      "An ignored field needs a default value or a nullable type.",
+      ignored
+    );
+  }
+
+  return { hints, diagnostics };
+};
+
+/** Validates the hints of all fields of `declaration`. */
+export const validateFieldHints = (
+  declaration: DartClass,
+  source: string
+): Array<HintDiagnostic> => {
+  const constructor = declaration.constructors.find(
+    (c) => !c.constructorName && !c.isFactory
+  );
+  const diagnostics = declaration.fields.flatMap(
+    (field) =>
+      parseFieldHints(
+        field,
+        source,
+        constructor?.parameters.find((p) => p.name === field.name)?.defaultValue
+      ).diagnostics
+  );
+  // Fields declared together share their comments.
+  return diagnostics.filter(
+    (diagnostic, index) =>
+      diagnostics.findIndex(
+        (other) =>
+          other.start === diagnostic.start &&
+          other.message === diagnostic.message
+      ) === index
+  );
+};
+
+/**
+ * Replaces the `value` identifier in a hint `expression` with
+ * `replacement`, leaving strings and longer identifiers untouched.
+ */
+export const substituteValue = (
+  expression: string,
+  replacement: string
+): string =>
+  tokenizeDart(expression)
+    .filter((token) => token.kind === "identifier" && token.text === "value")
+    .reverse()
+    .reduce(
+      (text, token) =>
+        text.substring(0, token.start) +
+        replacement +
+        text.substring(token.end),
+      expression
+    );
+
+const referencesValue = (expression: string): boolean =>
+  tokenizeDart(expression).some(
+    (token) => token.kind === "identifier" && token.text === "value"
+  );
+
+const brackets: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+
+/** Splits `text` at the commas outside of brackets and strings. */
+const splitArguments = (text: string): Array<string> => {
+  const parts: Array<string> = [];
+  let depth = 0;
+  let from = 0;
+  for (const token of tokenizeDart(text)) {
+    if (token.text in brackets) {
+      depth++;
+    } else if (Object.values(brackets).includes(token.text)) {
+      depth--;
+    } else if (token.text === "," && depth === 0) {
+      parts.push(text.substring(from, token.start).trim());
+      from = token.end;
+    }
+  }
+  parts.push(text.substring(from).trim());
+  return parts;
+};
+
+/** Whether the brackets of `expression` are balanced. */
+const isBalanced = (expression: string): boolean => {
+  const stack: Array<string> = [];
+  for (const token of tokenizeDart(expression)) {
+    if (token.kind === "comment") {
+      return false;
+    }
+    if (token.text in brackets) {
+      stack.push(brackets[token.text]);
+    } else if (
+      Object.values(brackets).includes(token.text) &&
+      stack.pop() !== token.text
+    ) {
+      return false;
+    }
+  }
+  return stack.length === 0;
+};
+
+const unquote = (value: string): string => {
+  const match = /^(['"])(.*)\1$/.exec(value);
+  return match ? match[2] : value;
+};
@@ -0,0 +1,177 @@
+import { DartToken, tokenizeDart } from "../parser";
+import { TextReplacement } from "./data-class.generator";
+
+/** An `import` directive of a Dart file. */
+export type DartImport = {
+  /** The imported URI, without quotes. */
+  uri: string;
+  start: number;
+  /** Offset just after the semicolon. */
+  end: number;
+};
+
+/** Finds the `import` directives of `source`. */
+export const findImports = (
+  source: string,
+  allTokens: Array<DartToken> = tokenizeDart(source)
+): Array<DartImport> => {
+  const tokens = allTokens.filter(
+    (token) => token.kind !== "comment"
+  );
+  const imports: Array<DartImport> = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const previous = tokens[i - 1]?.text;
+    if (
+      tokens[i].text !== "import" ||
+      tokens[i + 1]?.kind !== "string" ||
+      (previous !== undefined && previous !== ";")
+    ) {
+      continue;
+    }
+    const end = tokens.findIndex(
+      (token, index) => index > i && token.text === ";"
+    );
+    if (end < 0) {
+      break;
+    }
+    imports.push({
+      uri: tokens[i + 1].text.replace(/^r?(['"])(.*)\1$/, "$2"),
+      start: tokens[i].start,
+      end: tokens[end].end,
+    });
+    i = end;
+  }
+  return imports;
+};
+
+/**
+ * Order of the groups of imports: `dart:` libraries, packages, then
+ * relative paths.
+ */
+const importGroup = (uri: string): number =>
+  uri.startsWith("dart:") ? 0 : uri.startsWith("package:") ? 1 : 2;
+
+/**
+ * Import directives for [uris]: `dart:` libraries first, then packages,
+ * then relative paths, each group sorted and separated by a blank line.
+ */
+export const importBlock = (uris: Array<string>): string => {
+  const groups: Array<Array<string>> = [[], [], []];
+  for (const uri of [...new Set(uris)].sort()) {
+    groups[importGroup(uri)].push(`import '${uri}';`);
+  }
+  return groups
+    .filter((imports) => imports.length)
+    .map((imports) => imports.join("\n"))
+    .join("\n\n");
+};
+
+/**
+ * Merges the imports of `uris` that are missing in `source` into its
+ * imports: each one is inserted in the group of its kind (`dart:`,
+ * `package:`, relative) in alphabetical order, and a missing group is
+ * added between the others. Without imports, they are added after the
+ * `library` directive or at the top of the file.
+ * The insertions are returned as a single replacement, which keeps the
+ * text between them.
+ */
+export const addImports = (
+  source: string,
+  uris: Array<string>
+): TextReplacement | undefined => {
+  const imports = findImports(source);
+  const missing = [...new Set(uris)]
+    .filter((uri) => !imports.some((existing) => existing.uri === uri))
+    .sort();
+  if (missing.length === 0) {
+    return;
+  }
+
+  if (imports.length === 0) {
+    const library = /^\s*(?:\/\/.*\n\s*)*library\b[^;]*;/.exec(source);
+    const offset = library ? library[0].length : 0;
+    return {
+      start: offset,
+      end: offset,
+      text: library
+        ? `\n\n${importBlock(missing)}`
+        : `${importBlock(missing)}\n\n`,
+    };
+  }
+
+  const insertions: Array<{ offset: number; text: string }> = [];
+  for (const group of [0, 1, 2]) {
+    const added = missing.filter((uri) => importGroup(uri) === group);
+    const existing = imports.filter(({ uri }) => importGroup(uri) === group);
+    if (added.length === 0) {
+      continue;
+    }
+    if (existing.length === 0) {
+      // A new group, before the first import of a later group
+      const next = imports.find(({ uri }) => importGroup(uri) > group);
+      insertions.push(
+        next
+          ? { offset: next.start, text: `${importBlock(added)}\n\n` }
+          : {
+              offset: imports[imports.length - 1].end,
+              text: `\n\n${importBlock(added)}`,
+            }
+      );
+      continue;
+    }
+    for (const uri of added) {
+      const next = existing.find((other) => other.uri > uri);
+      insertions.push(
+        next
+          ? { offset: next.start, text: `import '${uri}';\n` }
+          : {
+              offset: existing[existing.length - 1].end,
+              text: `\nimport '${uri}';`,
+            }
+      );
+    }
+  }
+
+  // Insertions at the same offset keep the order they were added in
+  insertions.sort((a, b) => a.offset - b.offset);
+  const start = insertions[0].offset;
+  const end = insertions[insertions.length - 1].offset;
+  let text = "";
+  let offset = start;
+  for (const insertion of insertions) {
+    text += source.substring(offset, insertion.offset) + insertion.text;
+    offset = insertion.offset;
+  }
+  return { start, end, text };
+};
+
+/**
+ * Names of the packages imported by `uris`, e.g. `provider` for
+ * `package:provider/provider.dart`.
+ */
+export const importedPackages = (uris: Array<string>): Array<string> => [
+  ...new Set(uris.flatMap((uri) => /^package:([\w]+)\//.exec(uri)?.[1] ?? [])),
+];
+
+/**
+ * Returns the packages imported by `uris` that are neither the package of
+ * `pubspec`, the content of its `pubspec.yaml`, nor one of its
+ * dependencies.
+ */
+export const missingDependencies = (
+  uris: Array<string>,
+  pubspec: unknown
+): Array<string> => {
+  const root = isObject(pubspec) ? pubspec : {};
+  const declared = new Set<string>([
+    ...(typeof root.name === "string" ? [root.name] : []),
+    ...["dependencies", "dev_dependencies"].flatMap((key) => {
+      const dependencies = root[key];
+      return isObject(dependencies) ? Object.keys(dependencies) : [];
+    }),
+  ]);
+  return importedPackages(uris).filter((name) => !declared.has(name));
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
@@ -0,0 +1,13 @@
+export * from "./serialization";
+export * from "./data-class.generator";
+export * from "./json-model";
+export * from "./naming";
+export * from "./openapi";
+export * from "./field-hints";
+export * from "./enum-codec";
+export * from "./sealed-union.generator";
+export * from "./sealed-union-cases";
+export * from "./widget-refactors";
+export * from "./imports";
+export * from "./wrap-template";
+export * from "./feature-template";
@@ -0,0 +1,233 @@
+import { parseDartType } from "../parser";
+import {
+  convertCase,
+  DataClassField,
+  DataClassOptions,
+  DataClassSpec,
+  NamingStyle,
+} from "./data-class.generator";
+import { fieldNameOf, pascalCase, singular } from "./naming";
+
+export type JsonModel = {
+  name: string;
+  fields: Array<Omit<DataClassField, "key"> & { jsonKey: string }>;
+};
+
+/** Shape of the JSON values seen at one position of the sample. */
+type Shape = { nullable: boolean } & (
+  | { kind: "null" }
+  | { kind: "bool" }
+  | { kind: "int" }
+  | { kind: "double" }
+  | { kind: "string"; dateTime: boolean }
+  | { kind: "list"; element?: Shape }
+  | { kind: "object"; fields: Map<string, Shape> }
+  | { kind: "dynamic" }
+);
+
+const dateTimePattern = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/;
+
+/**
+ * Infers a tree of models from a decoded JSON sample.
+ * Objects become models named after their key, lists take the merged shape
+ * of all their items, and a field that is null or missing in some of the
+ * items becomes nullable. Returns the root model first.
+ */
+export const inferJsonModels = (
+  value: unknown,
+  rootName: string,
+  suffix = ""
+): Array<JsonModel> => {
+  let shape = shapeOf(value);
+  while (shape.kind === "list" && shape.element) {
+    shape = shape.element;
+  }
+  if (shape.kind !== "object") {
+    return [];
+  }
+
+  const models: Array<JsonModel> = [];
+  const usedNames = new Set<string>();
+
+  const modelFor = (shape: Shape & { kind: "object" }, base: string) => {
+    let name = `${base}${suffix}`;
+    for (let i = 2; usedNames.has(name); i++) {
+      name = `${base}${i}${suffix}`;
+    }
+    usedNames.add(name);
+    const model: JsonModel = { name, fields: [] };
+    models.push(model);
+
+    const usedFields = new Set<string>();
+    for (const [jsonKey, fieldShape] of shape.fields) {
+      let fieldName = fieldNameOf(jsonKey);
+      for (let i = 2; usedFields.has(fieldName); i++) {
+        fieldName = `${fieldNameOf(jsonKey)}${i}`;
+      }
+      usedFields.add(fieldName);
+      const type = parseDartType(
+        typeOf(fieldShape, pascalCase(singular(fieldName)))
+      )!;
+      model.fields.push({
+        name: fieldName,
+        jsonKey,
+        type,
+        nullable: type.nullable || type.name === "dynamic",
+        isEnum: false,
+        customParsing: {},
+      });
+    }
+    return name;
+  };
+
+  const typeOf = (shape: Shape, base: string): string => {
+    const nullable = shape.nullable ? "?" : "";
+    switch (shape.kind) {
+      case "null":
+      case "dynamic":
+        return "dynamic";
+      case "bool":
+        return `bool${nullable}`;
+      case "int":
+        return `int${nullable}`;
+      case "double":
+        return `double${nullable}`;
+      case "string":
+        return `${shape.dateTime ? "DateTime" : "String"}${nullable}`;
+      case "list":
+        return `List<${
+          shape.element ? typeOf(shape.element, base) : "dynamic"
+        }>${nullable}`;
+      case "object":
+        return `${modelFor(shape, base)}${nullable}`;
+    }
+  };
+
+  modelFor(shape, rootName);
+  return models;
+};
+
+/**
+ * Builds the data class of `model`. The keys are the ones of the sample
+ * (escaped for a Dart string): the naming style only applies when it
+ * reproduces the key, since `class` or `URL` do not round-trip through
+ * the field names `classValue` and `url`.
+ */
+export const jsonModelSpec = (
+  model: JsonModel,
+  options: { namingStyle: NamingStyle; members: DataClassOptions }
+): DataClassSpec => ({
+  name: model.name,
+  typeArguments: "",
+  header: `class ${model.name}`,
+  fields: model.fields.map(({ jsonKey, ...field }) => {
+    const styled =
+      options.namingStyle === "original"
+        ? undefined
+        : convertCase[options.namingStyle](field.name);
+    return {
+      ...field,
+      key: styled === jsonKey ? styled : jsonKey.replace(/[\\'$]/g, "\\$&"),
+    };
+  }),
+  keptMembers: [],
+  options: options.members,
+});
+
+/** Guesses the naming style of the keys of the JSON sample. */
+export const detectKeyStyle = (
+  models: Array<JsonModel>
+): "snake_case" | "kebab-case" | "PascalCase" | "camelCase" => {
+  const keys = models.flatMap((model) => model.fields.map((f) => f.jsonKey));
+  if (keys.some((key) => key.includes("_"))) {
+    return "snake_case";
+  }
+  if (keys.some((key) => key.includes("-"))) {
+    return "kebab-case";
+  }
+  if (keys.length && keys.every((key) => /^[A-Z]/.test(key))) {
+    return "PascalCase";
+  }
+  return "camelCase";
+};
+
+const shapeOf = (value: unknown): Shape => {
+  if (value === null || value === undefined) {
+    return { kind: "null", nullable: true };
+  }
+  if (typeof value === "boolean") {
+    return { kind: "bool", nullable: false };
+  }
+  if (typeof value === "number") {
+    return {
+      kind: Number.isInteger(value) ? "int" : "double",
+      nullable: false,
+    };
+  }
+  if (typeof value === "string") {
+    return {
+      kind: "string",
+      dateTime: dateTimePattern.test(value),
+      nullable: false,
+    };
+  }
+  if (Array.isArray(value)) {
+    const element = value
+      .map(shapeOf)
+      .reduce<Shape | undefined>(
+        (merged, shape) => (merged ? merge(merged, shape) : shape),
+        undefined
+      );
+    return { kind: "list", element, nullable: false };
+  }
+  const fields = new Map<string, Shape>();
+  for (const [key, field] of Object.entries(value as object)) {
+    fields.set(key, shapeOf(field));
+  }
+  return { kind: "object", fields, nullable: false };
+};
+
+const merge = (a: Shape, b: Shape): Shape => {
+  const nullable = a.nullable || b.nullable;
+  if (a.kind === "null") {
+    return { ...b, nullable: true };
+  }
+  if (b.kind === "null") {
+    return { ...a, nullable: true };
+  }
+  if (a.kind === "string" && b.kind === "string") {
+    return { kind: "string", dateTime: a.dateTime && b.dateTime, nullable };
+  }
+  if (a.kind === "list" && b.kind === "list") {
+    const element =
+      a.element && b.element
+        ? merge(a.element, b.element)
+        : a.element ?? b.element;
+    return { kind: "list", element, nullable };
+  }
+  if (a.kind === "object" && b.kind === "object") {
+    // A field missing in one of the objects is nullable.
+    const fields = new Map<string, Shape>();
+    for (const key of new Set([...a.fields.keys(), ...b.fields.keys()])) {
+      const left = a.fields.get(key);
+      const right = b.fields.get(key);
+      fields.set(
+        key,
+        left && right
+          ? merge(left, right)
+          : { ...(left ?? right)!, nullable: true }
+      );
+    }
+    return { kind: "object", fields, nullable };
+  }
+  if (
+    (a.kind === "int" || a.kind === "double") &&
+    (b.kind === "int" || b.kind === "double")
+  ) {
+    return { kind: a.kind === b.kind ? a.kind : "double", nullable };
+  }
+  if (a.kind === b.kind) {
+    return { ...a, nullable };
+  }
+  return { kind: "dynamic", nullable: true };
+};
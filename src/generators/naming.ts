@@ -0,0 +1,102 @@
+export const dartKeywords = new Set([
+  "assert",
+  "break",
+  "case",
+  "catch",
+  "class",
+  "const",
+  "continue",
+  "default",
+  "do",
+  "else",
+  "enum",
+  "extends",
+  "false",
+  "final",
+  "finally",
+  "for",
+  "if",
+  "in",
+  "is",
+  "new",
+  "null",
+  "rethrow",
+  "return",
+  "super",
+  "switch",
+  "this",
+  "throw",
+  "true",
+  "try",
+  "var",
+  "void",
+  "while",
+  "with",
+]);
+
+/** Splits `text` into words on case changes and non-alphanumeric characters. */
+const wordsOf = (text: string): Array<string> =>
+  text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z])([A-Z][a-z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter((word) => word.length > 0);
+
+const capitalize = (word: string): string =>
+  word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+/** Converts a JSON key to a Dart field name in camelCase. */
+export const fieldNameOf = (key: string): string => {
+  let name = wordsOf(key)
+    .map((word, index) => (index === 0 ? word.toLowerCase() : capitalize(word)))
+    .join("");
+  if (!name) {
+    name = "value";
+  }
+  if (/^[0-9]/.test(name)) {
+    name = `n${name}`;
+  }
+  return dartKeywords.has(name) ? `${name}Value` : name;
+};
+
+/**
+ * Converts any name to a Dart type name in PascalCase, e.g. `pet-type` to
+ * `PetType`. Names that are already PascalCase are kept as they are.
+ */
+export const typeNameOf = (name: string): string => {
+  const words = wordsOf(name);
+  let typeName = words
+    .map((word) =>
+      /^[A-Z][a-z0-9]*$/.test(word) || /^[A-Z0-9]+$/.test(word)
+        ? word
+        : word.charAt(0).toUpperCase() + word.slice(1)
+    )
+    .join("");
+  if (!typeName) {
+    typeName = "Model";
+  }
+  return /^[0-9]/.test(typeName) ? `Model${typeName}` : typeName;
+};
+
+/**
+ * Converts a type name to the snake_case name of its file, e.g.
+ * `HTTPError` to `http_error`.
+ */
+export const fileNameOf = (name: string): string =>
+  wordsOf(name)
+    .map((word) => word.toLowerCase())
+    .join("_");
+
+export const pascalCase = (name: string): string =>
+  name.charAt(0).toUpperCase() + name.slice(1);
+
+/** Naive singular form of a list field name, e.g. `items` to `item`. */
+export const singular = (name: string): string => {
+  if (/ies$/.test(name) && name.length > 4) {
+    return name.replace(/ies$/, "y");
+  }
+  if (/[^s]s$/.test(name) && name.length > 3) {
+    return name.slice(0, -1);
+  }
+  return name;
+};
@@ -0,0 +1,647 @@
+import { parseDartType } from "../parser";
+import {
+  dataClassImports,
+  DataClassField,
+  DataClassOptions,
+  DataClassSpec,
+  generateDataClass,
+} from "./data-class.generator";
+import { importBlock } from "./imports";
+import { fieldNameOf, fileNameOf, singular, typeNameOf } from "./naming";
+import { EnumCodec, SerializationContext } from "./serialization";
+
+/** A schema object of an OpenAPI 3 document or of JSON Schema. */
+type Schema = {
+  $ref?: string;
+  type?: string | Array<string>;
+  format?: string;
+  description?: string;
+  nullable?: boolean;
+  enum?: Array<unknown>;
+  default?: unknown;
+  properties?: Record<string, Schema>;
+  required?: Array<string>;
+  additionalProperties?: boolean | Schema;
+  items?: Schema;
+  allOf?: Array<Schema>;
+  oneOf?: Array<Schema>;
+  anyOf?: Array<Schema>;
+  discriminator?: { propertyName: string; mapping?: Record<string, string> };
+};
+
+export type OpenApiFile = {
+  /** File name relative to the output folder, e.g. `pet_type.dart`. */
+  path: string;
+  content: string;
+};
+
+export type OpenApiModels = {
+  files: Array<OpenApiFile>;
+  /** Parts of the document that could not be converted exactly. */
+  warnings: Array<string>;
+};
+
+/** Declarations of one generated file. */
+type Library = {
+  imports: Set<string>;
+  declarations: Array<string>;
+};
+
+/**
+ * Generates one Dart library per schema of `components/schemas` (or the
+ * `definitions` and `$defs` of JSON Schema) of an OpenAPI `document`.
+ * Object schemas become data classes with the members of `options`, `enum`
+ * schemas become enums with their wire values, and `oneOf` schemas with a
+ * discriminator become a sealed class with a subclass per variant. Inline
+ * objects and enums are generated in the library of the schema using them.
+ * Only local `$ref`s are resolved, everything else that cannot be typed
+ * becomes `dynamic` and is reported in the warnings.
+ * The libraries import each other with relative paths, or with
+ * `importPrefix` when given, e.g. `package:app/models`.
+ */
+export const generateOpenApiModels = (
+  document: unknown,
+  options: DataClassOptions,
+  { importPrefix }: { importPrefix?: string } = {}
+): OpenApiModels => {
+  const root = (document ?? {}) as {
+    components?: { schemas?: Record<string, Schema> };
+    definitions?: Record<string, Schema>;
+    $defs?: Record<string, Schema>;
+  };
+  const schemas: Record<string, Schema> =
+    root.components?.schemas ?? root.definitions ?? root.$defs ?? {};
+  const warnings: Array<string> = [];
+
+  // Schema names and their Dart names, made unique.
+  const typeNames = new Map<string, string>();
+  const usedNames = new Set<string>();
+  const uniqueName = (base: string) => {
+    let name = base;
+    for (let i = 2; usedNames.has(name); i++) {
+      name = `${base}${i}`;
+    }
+    usedNames.add(name);
+    return name;
+  };
+  for (const key of Object.keys(schemas)) {
+    typeNames.set(key, uniqueName(typeNameOf(key)));
+  }
+
+  const enums = new Map<string, EnumCodec>();
+  const serialization: SerializationContext = { enums };
+  for (const [key, schema] of Object.entries(schemas)) {
+    if (schema.enum) {
+      enums.set(typeNames.get(key)!, enumCodec(typeNames.get(key)!, schema));
+    }
+  }
+
+  const resolve = (ref: string): [string, Schema] | undefined => {
+    const match = /^#\/(?:components\/schemas|definitions|\$defs)\/(.+)$/.exec(
+      ref
+    );
+    const key = match && decodeURIComponent(match[1]).replace(/~1/g, "/");
+    return key && schemas[key] ? [key, schemas[key]] : undefined;
+  };
+
+  /**
+   * Dart type of `schema` without its nullability. Inline objects and
+   * enums are added to `library` and named after `hint`.
+   */
+  const typeOf = (
+    schema: Schema,
+    hint: string,
+    library: Library,
+    where: string
+  ): string => {
+    if (schema.$ref) {
+      const target = resolve(schema.$ref);
+      if (!target) {
+        warnings.push(`${where}: unresolved reference ${schema.$ref}`);
+        return "dynamic";
+      }
+      if (isAlias(target[1])) {
+        return aliasOf(target[0], library, where);
+      }
+      const name = typeNames.get(target[0])!;
+      library.imports.add(`${fileNameOf(name)}.dart`);
+      return name;
+    }
+    // `allOf` with a single reference is used to add a description or
+    // nullability to a referenced schema.
+    const parts = schema.allOf ?? [];
+    if (parts.length === 1 && !schema.properties) {
+      return typeOf(parts[0], hint, library, where);
+    }
+    const alternatives = (schema.oneOf ?? schema.anyOf ?? []).filter(
+      (alternative) => !isNull(alternative)
+    );
+    if (alternatives.length === 1) {
+      return typeOf(alternatives[0], hint, library, where);
+    }
+    if (alternatives.length > 1) {
+      warnings.push(`${where}: inline oneOf/anyOf is generated as dynamic`);
+      return "dynamic";
+    }
+    if (schema.enum) {
+      const name = uniqueName(hint);
+      enums.set(name, enumCodec(name, schema));
+      library.declarations.push(generateEnum(name, schema));
+      return name;
+    }
+
+    switch (typeName(schema)) {
+      case "string":
+        switch (schema.format) {
+          case "date-time":
+          case "date":
+            return "DateTime";
+          case "uri":
+            return "Uri";
+          default:
+            return "String";
+        }
+      case "integer":
+        return "int";
+      case "number":
+        return "double";
+      case "boolean":
+        return "bool";
+      case "array": {
+        if (!schema.items) {
+          return "List<dynamic>";
+        }
+        const element = typeOf(schema.items, singular(hint), library, where);
+        return `List<${nullable(schema.items, element)}>`;
+      }
+      case "object": {
+        if (schema.properties || schema.allOf) {
+          const name = uniqueName(hint);
+          library.declarations.push(
+            dataClass(name, schema, library, `${where}.${name}`)
+          );
+          return name;
+        }
+        if (
+          schema.additionalProperties &&
+          typeof schema.additionalProperties === "object"
+        ) {
+          const value = typeOf(
+            schema.additionalProperties,
+            hint,
+            library,
+            where
+          );
+          return `Map<String, ${nullable(schema.additionalProperties, value)}>`;
+        }
+        return "Map<String, dynamic>";
+      }
+      default:
+        return "dynamic";
+    }
+  };
+
+  // Types of the alias schemas and the libraries declaring their inline
+  // models, computed once.
+  const aliases = new Map<string, { type: string; library: Library }>();
+  const resolvingAliases = new Set<string>();
+
+  /**
+   * Underlying type of the alias schema `key`, to convert and compare the
+   * values of the schemas referencing it. Its inline models and imports are
+   * imported by `library`.
+   */
+  const aliasOf = (key: string, library: Library, where: string): string => {
+    if (resolvingAliases.has(key)) {
+      warnings.push(`${where}: recursive alias ${key} is generated as dynamic`);
+      return "dynamic";
+    }
+    let alias = aliases.get(key);
+    if (!alias) {
+      const name = typeNames.get(key)!;
+      const aliasLibrary: Library = { imports: new Set(), declarations: [] };
+      resolvingAliases.add(key);
+      const type = typeOf(schemas[key], `${name}Value`, aliasLibrary, key);
+      resolvingAliases.delete(key);
+      if (type === "dynamic" && (schemas[key].oneOf || schemas[key].anyOf)) {
+        warnings.push(`${key}: oneOf/anyOf without a discriminator`);
+      }
+      alias = { type, library: aliasLibrary };
+      aliases.set(key, alias);
+    }
+    alias.library.imports.forEach((path) => library.imports.add(path));
+    if (alias.library.declarations.length > 0) {
+      library.imports.add(`${fileNameOf(typeNames.get(key)!)}.dart`);
+    }
+    return alias.type;
+  };
+
+  /**
+   * Collects the properties of `schema`, including the ones of the schemas
+   * it is composed of with `allOf`.
+   */
+  const propertiesOf = (
+    schema: Schema,
+    seen = new Set<Schema>()
+  ): { properties: Array<[string, Schema]>; required: Set<string> } => {
+    const properties = new Map<string, Schema>();
+    const required = new Set<string>();
+    if (seen.has(schema)) {
+      return { properties: [], required };
+    }
+    seen.add(schema);
+    for (const part of schema.allOf ?? []) {
+      const target = part.$ref ? resolve(part.$ref)?.[1] : part;
+      if (target) {
+        const inherited = propertiesOf(target, seen);
+        inherited.properties.forEach(([key, p]) => properties.set(key, p));
+        inherited.required.forEach((key) => required.add(key));
+      }
+    }
+    for (const [key, property] of Object.entries(schema.properties ?? {})) {
+      properties.set(key, property);
+    }
+    (schema.required ?? []).forEach((key) => required.add(key));
+    return { properties: [...properties], required };
+  };
+
+  const dataClass = (
+    name: string,
+    schema: Schema,
+    library: Library,
+    where: string
+  ): string => {
+    const { properties, required } = propertiesOf(schema);
+    const usedFields = new Set<string>();
+    const fields = properties.map(([key, property]): DataClassField => {
+      let fieldName = fieldNameOf(key);
+      for (let i = 2; usedFields.has(fieldName); i++) {
+        fieldName = `${fieldNameOf(key)}${i}`;
+      }
+      usedFields.add(fieldName);
+      const typeText = typeOf(
+        property,
+        `${name}${typeNameOf(fieldName)}`,
+        library,
+        `${where}.${key}`
+      );
+      const isOptional =
+        !required.has(key) && defaultValueOf(property) === undefined;
+      const type = parseDartType(
+        isOptional && typeText !== "dynamic"
+          ? `${typeText}?`
+          : nullable(property, typeText)
+      )!;
+      return {
+        name: fieldName,
+        type,
+        key: key.replace(/[\\'$]/g, "\\$&"),
+        nullable: type.nullable || type.name === "dynamic",
+        defaultValue: defaultValueOf(property, type.name),
+        isEnum: false,
+        customParsing: {},
+        documentation: property.description,
+      };
+    });
+    const spec: DataClassSpec = {
+      name,
+      typeArguments: "",
+      header: `class ${name}`,
+      fields,
+      keptMembers: [],
+      options,
+      documentation: schema.description,
+      serialization,
+    };
+    dataClassImports(spec).forEach((path) => library.imports.add(path));
+    return generateDataClass(spec);
+  };
+
+  /** Dart literal of the `default` of `schema`, if it has one. */
+  const defaultValueOf = (
+    schema: Schema,
+    type?: string
+  ): string | undefined => {
+    const value = schema.default;
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (type && enums.has(type)) {
+      return `${type}.${enumValueName(value)}`;
+    }
+    if (typeof value === "string") {
+      return type === "String" || !type
+        ? `'${value.replace(/[\\'$]/g, "\\$&")}'`
+        : undefined;
+    }
+    if (typeof value === "number") {
+      return type === "double" && Number.isInteger(value)
+        ? `${value}.0`
+        : `${value}`;
+    }
+    if (typeof value === "boolean") {
+      return `${value}`;
+    }
+    return undefined;
+  };
+
+  const sealedClass = (
+    name: string,
+    schema: Schema,
+    library: Library,
+    where: string
+  ): string => {
+    const discriminator = schema.discriminator!;
+    const mapping = new Map<string, string>(
+      Object.entries(discriminator.mapping ?? {})
+    );
+    // Without a mapping the value is the name of the referenced schema.
+    for (const alternative of schema.oneOf ?? schema.anyOf ?? []) {
+      const key = alternative.$ref && resolve(alternative.$ref)?.[0];
+      if (key && ![...mapping.values()].includes(alternative.$ref!)) {
+        mapping.set(key, alternative.$ref!);
+      }
+    }
+    const variants = [...mapping].flatMap(([value, ref]) => {
+      const target = resolve(ref) ?? resolve(`#/components/schemas/${ref}`);
+      if (!target) {
+        warnings.push(`${where}: unresolved discriminator mapping ${ref}`);
+        return [];
+      }
+      const type = typeNames.get(target[0])!;
+      library.imports.add(`${fileNameOf(type)}.dart`);
+      return [{ value, type, name: fieldNameOf(value) }];
+    });
+    return generateSealedClass(
+      name,
+      schema,
+      discriminator.propertyName,
+      variants,
+      options
+    );
+  };
+
+  const files: Array<OpenApiFile> = [];
+  for (const [key, schema] of Object.entries(schemas)) {
+    const name = typeNames.get(key)!;
+    let library: Library = { imports: new Set(), declarations: [] };
+    let declaration: string;
+    if (schema.enum) {
+      declaration = generateEnum(name, schema);
+    } else if ((schema.oneOf ?? schema.anyOf) && schema.discriminator) {
+      declaration = sealedClass(name, schema, library, key);
+      if (options.jsonMethods) {
+        library.imports.add("dart:convert");
+      }
+    } else if (!isAlias(schema)) {
+      declaration = dataClass(name, schema, library, key);
+    } else {
+      const type = aliasOf(key, library, key);
+      library = aliases.get(key)!.library;
+      declaration = `${docComment(
+        schema.description
+      )}typedef ${name} = ${type};`;
+    }
+    library.imports.delete(`${fileNameOf(name)}.dart`);
+    const imports = importBlock(
+      [...library.imports].map((path) =>
+        importPrefix && !path.includes(":") ? `${importPrefix}/${path}` : path
+      )
+    );
+    const body = [declaration, ...library.declarations].join("\n\n");
+    files.push({
+      path: `${fileNameOf(name)}.dart`,
+      content: imports ? `${imports}\n\n${body}\n` : `${body}\n`,
+    });
+  }
+
+  return { files, warnings };
+};
+
+/** Primary type of `schema`, OpenAPI 3.1 allows a list with `null`. */
+const typeName = (schema: Schema): string | undefined => {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const type = types.find((type) => type && type !== "null");
+  if (type) {
+    return type;
+  }
+  if (schema.properties || schema.allOf) {
+    return "object";
+  }
+  return schema.items ? "array" : undefined;
+};
+
+/**
+ * Whether `schema` is an alias of another type, generated as a `typedef`,
+ * rather than an enum, a sealed class or a data class.
+ */
+const isAlias = (schema: Schema): boolean =>
+  !schema.enum &&
+  !((schema.oneOf ?? schema.anyOf) && schema.discriminator) &&
+  !(typeName(schema) === "object" && (schema.properties || schema.allOf));
+
+const isNull = (schema: Schema): boolean =>
+  schema.type === "null" ||
+  (Array.isArray(schema.type) && schema.type.every((type) => type === "null"));
+
+/** Adds the nullability of `schema` to `type`. */
+const nullable = (schema: Schema, type: string): string => {
+  const isNullable =
+    schema.nullable === true ||
+    (Array.isArray(schema.type) && schema.type.includes("null")) ||
+    [...(schema.oneOf ?? []), ...(schema.anyOf ?? [])].some(isNull);
+  return isNullable && type !== "dynamic" ? `${type}?` : type;
+};
+
+/**
+ * Members of the generated enums, with those of `Enum` and `Object`, that
+ * a constant cannot be named after.
+ */
+const enumMembers = new Set([
+  "value",
+  "fromValue",
+  "values",
+  "index",
+  "name",
+  "hashCode",
+  "runtimeType",
+  "toString",
+  "noSuchMethod",
+]);
+
+const enumValueName = (value: unknown): string => {
+  const name = fieldNameOf(String(value));
+  return enumMembers.has(name) ? `${name}Value` : name;
+};
+
+/** Enums keep their wire value and decode it with `fromValue`. */
+const enumCodec = (name: string, schema: Schema): EnumCodec => ({
+  decode: (value) => `${name}.fromValue(${value} as ${enumValueType(schema)})`,
+  encode: (value, access) => `${value}${access}value`,
+});
+
+const enumValueType = (schema: Schema): string =>
+  schema.enum!.every((value) => typeof value === "number")
+    ? schema.enum!.every((value) => Number.isInteger(value))
+      ? "int"
+      : "num"
+    : "String";
+
+const generateEnum = (name: string, schema: Schema): string => {
+  const type = enumValueType(schema);
+  const values = schema.enum!.filter((value) => value !== null);
+  const usedNames = new Set<string>();
+  const constants = values.map((value) => {
+    let constant = enumValueName(value);
+    for (let i = 2; usedNames.has(constant); i++) {
+      constant = `${enumValueName(value)}${i}`;
+    }
+    usedNames.add(constant);
+    const literal =
+      typeof value === "number"
+        ? `${value}`
+        : `'${String(value).replace(/[\\'$]/g, "\\$&")}'`;
+    return `${constant}(${literal})`;
+  });
+
+  return `${docComment(schema.description)}enum ${name} {
+  ${constants.join(",\n  ")};
+
+  const ${name}(this.value);
+
+  final ${type} value;
+
+  static ${name} fromValue(${type} value) => values.firstWhere(
+        (e) => e.value == value,
+        orElse: () => throw ArgumentError.value(value, 'value', 'Unknown ${name}'),
+      );
+}`;
+};
+
+/** A sealed class with a subclass wrapping the model of each variant. */
+const generateSealedClass = (
+  name: string,
+  schema: Schema,
+  discriminator: string,
+  variants: Array<{ value: string; type: string; name: string }>,
+  options: DataClassOptions
+): string => {
+  const escape = (text: string) => text.replace(/[\\'$]/g, "\\$&");
+  const subclass = (variant: { name: string }) =>
+    `${name}$${variant.name.charAt(0).toUpperCase()}${variant.name.slice(1)}`;
+
+  const members = [`const ${name}();`];
+  if (options.mapMethods || options.jsonMethods) {
+    members.push(`factory ${name}.fromMap(Map<String, dynamic> map) =>
+      switch (map['${escape(discriminator)}']) {
+        ${variants
+          .map(
+            (variant) =>
+              `'${escape(variant.value)}' => ${subclass(variant)}(${
+                variant.type
+              }.fromMap(map)),`
+          )
+          .join("\n        ")}
+        final type => throw ArgumentError.value(type, '${escape(
+          discriminator
+        )}', 'Unknown ${name}'),
+      };`);
+  }
+  if (options.jsonMethods) {
+    members.push(`factory ${name}.fromJson(String source) =>
+      ${name}.fromMap(json.decode(source));`);
+  }
+  if (options.mapMethods || options.jsonMethods) {
+    members.push(`Map<String, dynamic> toMap();`);
+  }
+  if (options.jsonMethods) {
+    members.push(`String toJson() => json.encode(toMap());`);
+  }
+  members.push(`R map<R>({
+    ${variants
+      .map(
+        (variant) =>
+          `required ${name}Match<R, ${subclass(variant)}> ${variant.name},`
+      )
+      .join("\n    ")}
+  }) =>
+      switch (this) {
+        ${variants
+          .map((variant) => `${subclass(variant)} s => ${variant.name}(s),`)
+          .join("\n        ")}
+      };`);
+  members.push(`R maybeMap<R>({
+    required R Function() orElse,
+    ${variants
+      .map(
+        (variant) => `${name}Match<R, ${subclass(variant)}>? ${variant.name},`
+      )
+      .join("\n    ")}
+  }) =>
+      map<R>(
+        ${variants
+          .map(
+            (variant) => `${variant.name}: ${variant.name} ?? (_) => orElse(),`
+          )
+          .join("\n        ")}
+      );`);
+  members.push(`R? mapOrNull<R>({
+    ${variants
+      .map(
+        (variant) => `${name}Match<R, ${subclass(variant)}>? ${variant.name},`
+      )
+      .join("\n    ")}
+  }) =>
+      map<R?>(
+        ${variants
+          .map((variant) => `${variant.name}: ${variant.name} ?? (_) => null,`)
+          .join("\n        ")}
+      );`);
+
+  const subclasses = variants.map((variant) => {
+    const type = subclass(variant);
+    const variantMembers = [
+      `const ${type}(this.value);`,
+      `final ${variant.type} value;`,
+    ];
+    if (options.mapMethods || options.jsonMethods) {
+      variantMembers.push(`@override
+  Map<String, dynamic> toMap() => {
+        ...value.toMap(),
+        '${escape(discriminator)}': '${escape(variant.value)}',
+      };`);
+    }
+    if (options.equalityOperator) {
+      variantMembers.push(`@override
+  bool operator ==(Object other) =>
+      identical(this, other) || other is ${type} && value == other.value;`);
+      variantMembers.push(`@override
+  int get hashCode => value.hashCode;`);
+    }
+    if (options.toStringMethod) {
+      variantMembers.push(`@override
+  String toString() => '${name}.${variant.name}(\$value)';`);
+    }
+    return `final class ${type} extends ${name} {
+  ${variantMembers.join("\n\n  ")}
+}`;
+  });
+
+  return [
+    `${docComment(schema.description)}sealed class ${name} {
+  ${members.join("\n\n  ")}
+}`,
+    ...subclasses,
+    `/// Pattern matching for [${name}].
+typedef ${name}Match<R, S extends ${name}> = R Function(S element);`,
+  ].join("\n\n");
+};
+
+const docComment = (text: string | undefined): string =>
+  text
+    ? `${text
+        .trim()
+        .split("\n")
+        .map((line) => `/// ${line}`.trimEnd())
+        .join("\n")}\n`
+    : "";
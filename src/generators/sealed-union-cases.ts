@@ -0,0 +1,482 @@
+import { DartClass, DartMember, parseDart, tokenizeDart } from "../parser";
+import { TextReplacement } from "./data-class.generator";
+import { fileNameOf } from "./naming";
+import {
+  caseNames,
+  generateSealedUnion,
+  renderSnippet,
+  SealedCase,
+  SealedCaseField,
+  SealedUnionOptions,
+  SealedUnionTemplate,
+} from "./sealed-union.generator";
+
+/** A sealed union generated by `generateSealedUnion`, found in a file. */
+export type SealedUnionDeclaration = {
+  className: string;
+  /** Name of the `{@template}` of the doc comments. */
+  templateName: string;
+  /** `union` for events and plain unions, which are generated the same way. */
+  template: SealedUnionTemplate;
+  options: SealedUnionOptions;
+  useMeta: boolean;
+  cases: Array<SealedCase>;
+  sealedClass: DartClass;
+  baseClass: DartClass;
+  /** Classes of the cases by the name of the case. */
+  caseClasses: ReadonlyMap<string, DartClass>;
+};
+
+/** A `map` call on a sealed union that does not match its cases. */
+export type IncompleteMapCall = {
+  start: number;
+  end: number;
+  /** Cases without an argument. */
+  missing: Array<string>;
+  /** Arguments of cases that do not exist anymore. */
+  obsolete: Array<string>;
+};
+
+/**
+ * Finds the sealed unions generated by `generateSealedUnion` in [source]:
+ * a sealed class extending `_$NameBase` with factory constructors that
+ * redirect to its `Name$Case` subclasses.
+ */
+export const findSealedUnions = (
+  source: string
+): Array<SealedUnionDeclaration> => {
+  const { classes } = parseDart(source);
+  return classes.flatMap((sealedClass): Array<SealedUnionDeclaration> => {
+    const className = sealedClass.name;
+    const baseClass = classes.find(
+      (declaration) => declaration.name === `_$${className}Base`
+    );
+    if (
+      !sealedClass.modifiers.includes("sealed") ||
+      !baseClass ||
+      sealedClass.superclass?.name !== baseClass.name
+    ) {
+      return [];
+    }
+
+    const caseClasses = new Map<string, DartClass>();
+    const cases: Array<SealedCase> = [];
+    for (const factory of sealedClass.constructors) {
+      const target = /=\s*([A-Za-z0-9_$]+)\s*;$/.exec(
+        source.substring(factory.declarationStart, factory.end)
+      )?.[1];
+      const caseClass = classes.find(
+        (declaration) =>
+          declaration.name === target &&
+          declaration.superclass?.name === className
+      );
+      if (
+        !factory.isFactory ||
+        !factory.constructorName ||
+        !target?.startsWith(`${className}$`) ||
+        !caseClass
+      ) {
+        continue;
+      }
+      caseClasses.set(factory.constructorName, caseClass);
+      cases.push({
+        name: factory.constructorName,
+        fields: caseFields(caseClass),
+      });
+    }
+    if (cases.length === 0) {
+      return [];
+    }
+
+    const members = [
+      ...sealedClass.members,
+      ...baseClass.members,
+      ...[...caseClasses.values()].flatMap(
+        (declaration) => declaration.members
+      ),
+    ];
+    const data = baseClass.fields.find((field) => field.name === "data");
+    const isState =
+      data !== undefined &&
+      baseClass.fields.some((field) => field.name === "message");
+    return [
+      {
+        className,
+        templateName:
+          /\{@template\s+([^}\s]+)\s*\}/.exec(
+            sealedClass.docComment ?? ""
+          )?.[1] ?? fileNameOf(className),
+        template: isState ? "state" : "union",
+        options: {
+          nullableData: data?.type?.nullable ?? true,
+          patternMatching: members.some(
+            (member) => member.kind === "method" && member.name === "map"
+          ),
+          toStringMethod: members.some(
+            (member) => member.kind === "method" && member.name === "toString"
+          ),
+          initialState: sealedClass.constructors.some(
+            (constructor) => constructor.constructorName === "initial"
+          ),
+          propertyGetters: baseClass.members.some(
+            (member) => member.kind === "getter" && /^is[A-Z]/.test(member.name)
+          ),
+          typeAlias: baseClass.members.some((member) => member.name === "type"),
+          equalityOperator: members.some(
+            (member) => member.kind === "operator" && member.name === "=="
+          ),
+        },
+        useMeta: baseClass.annotations.some(
+          (annotation) => annotation.name === "immutable"
+        ),
+        cases,
+        sealedClass,
+        baseClass,
+        caseClasses,
+      },
+    ];
+  });
+};
+
+/**
+ * Changes the cases of `union` to `cases`, where `renames` maps the
+ * previous names of renamed cases to their new names.
+ * The generated members of the sealed and the base class are regenerated,
+ * classes of new cases are inserted after the last case class and classes
+ * of removed cases are deleted. Classes of renamed cases keep their
+ * members, only the generated names in them change.
+ */
+export const editSealedCases = (
+  source: string,
+  union: SealedUnionDeclaration,
+  cases: Array<SealedCase>,
+  renames: ReadonlyMap<string, string> = new Map()
+): Array<TextReplacement> => {
+  const { className } = union;
+  const generated = renderSnippet(
+    generateSealedUnion({
+      template: union.template,
+      className,
+      templateName: union.templateName,
+      cases,
+      options: union.options,
+      useMeta: union.useMeta,
+    })
+  );
+  const [regenerated] = findSealedUnions(generated);
+
+  // Members of the previous cases and pattern matching methods left in the
+  // base class by earlier versions of the generator are not regenerated.
+  const obsolete = new Set([
+    "method:map",
+    "method:maybeMap",
+    "method:mapOrNull",
+    ...union.cases.flatMap(({ name }) => [
+      `constructor:${className}.${name}`,
+      `getter:is${caseNames(name).pascalCase}`,
+    ]),
+  ]);
+  const edits = [
+    ...syncMembers(
+      source,
+      union.sealedClass,
+      generated,
+      regenerated.sealedClass,
+      obsolete
+    ),
+    ...syncMembers(
+      source,
+      union.baseClass,
+      generated,
+      regenerated.baseClass,
+      obsolete
+    ),
+  ];
+
+  const kept = new Set(cases.map(({ name }) => name));
+  const previous = new Set(
+    union.cases.map(({ name }) => renames.get(name) ?? name)
+  );
+  let anchor = union.sealedClass.end;
+  for (const [name, declaration] of union.caseClasses) {
+    const renamed = renames.get(name);
+    if (renamed !== undefined && kept.has(renamed)) {
+      edits.push(...renameCaseClass(source, declaration, name, renamed));
+    } else if (!kept.has(name)) {
+      edits.push({
+        start: whitespaceBefore(source, declaration.start),
+        end: declaration.end,
+        text: "",
+      });
+      continue;
+    }
+    anchor = Math.max(anchor, declaration.end);
+  }
+  const added = cases
+    .filter(({ name }) => !previous.has(name))
+    .map(({ name }) => regenerated.caseClasses.get(name)!)
+    .map((declaration) =>
+      generated.substring(declaration.start, declaration.end)
+    );
+  if (added.length) {
+    edits.push({
+      start: anchor,
+      end: anchor,
+      text: added.map((text) => `\n\n${text}`).join(""),
+    });
+  }
+
+  // References to renamed case classes elsewhere in the file.
+  for (const [name, renamed] of renames) {
+    const from = `${className}$${caseNames(name).pascalCase}`;
+    const to = `${className}$${caseNames(renamed).pascalCase}`;
+    for (const token of tokenizeDart(source)) {
+      if (
+        token.kind === "identifier" &&
+        token.text === from &&
+        !edits.some(
+          (edit) => edit.start <= token.start && token.end <= edit.end
+        )
+      ) {
+        edits.push({ start: token.start, end: token.end, text: to });
+      }
+    }
+  }
+
+  return edits.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Finds the calls of `map` in `source` whose named arguments covered the
+ * `previous` cases of a sealed union but do not match its `cases`.
+ * Calls with positional arguments, like `List.map`, are never reported.
+ */
+export const findIncompleteMapCalls = (
+  source: string,
+  cases: Array<string>,
+  previous: Array<string>
+): Array<IncompleteMapCall> => {
+  const tokens = tokenizeDart(source).filter(
+    (token) => token.kind !== "comment"
+  );
+  const known = new Set([...cases, ...previous]);
+  const calls: Array<IncompleteMapCall> = [];
+  for (let index = 1; index < tokens.length; index++) {
+    if (tokens[index].text !== "map" || tokens[index - 1].text !== ".") {
+      continue;
+    }
+    let open = index + 1;
+    if (tokens[open]?.text === "<") {
+      open = skipBrackets(tokens, open);
+    }
+    if (tokens[open]?.text !== "(") {
+      continue;
+    }
+    const close = skipBrackets(tokens, open) - 1;
+
+    // Named arguments at the top level of the call.
+    const named: Array<string> = [];
+    let positional = false;
+    let argumentStart = open + 1;
+    for (let i = open + 1; i <= close; i++) {
+      if (["(", "[", "{"].includes(tokens[i].text)) {
+        i = skipBrackets(tokens, i) - 1;
+        continue;
+      }
+      if (tokens[i].text !== "," && i !== close) {
+        continue;
+      }
+      if (i > argumentStart) {
+        if (
+          tokens[argumentStart].kind === "identifier" &&
+          tokens[argumentStart + 1]?.text === ":"
+        ) {
+          named.push(tokens[argumentStart].text);
+        } else {
+          positional = true;
+        }
+      }
+      argumentStart = i + 1;
+    }
+
+    if (
+      positional ||
+      named.length === 0 ||
+      !named.every((name) => known.has(name)) ||
+      !previous.every((name) => named.includes(name))
+    ) {
+      continue;
+    }
+    const missing = cases.filter((name) => !named.includes(name));
+    const obsolete = named.filter((name) => !cases.includes(name));
+    if (missing.length || obsolete.length) {
+      calls.push({
+        start: tokens[index].start,
+        end: tokens[close].end,
+        missing,
+        obsolete,
+      });
+    }
+  }
+  return calls;
+};
+
+/** Fields of a case, from the initializing formals of its constructor. */
+const caseFields = (declaration: DartClass): Array<SealedCaseField> =>
+  (
+    declaration.constructors.find(
+      (constructor) => constructor.constructorName === undefined
+    )?.parameters ?? []
+  )
+    .filter((parameter) => parameter.isInitializingFormal)
+    .map((parameter) => ({
+      name: parameter.name,
+      type:
+        declaration.fields.find((field) => field.name === parameter.name)?.type
+          ?.text ??
+        parameter.type?.text ??
+        "dynamic",
+      defaultValue: parameter.defaultValue,
+    }));
+
+const memberKey = (member: DartMember) => `${member.kind}:${member.name}`;
+
+/**
+ * Replaces the members of `declaration` generated in `generatedClass`,
+ * inserts the missing ones after the preceding generated member and
+ * deletes the `obsolete` ones that are not generated anymore.
+ */
+const syncMembers = (
+  source: string,
+  declaration: DartClass,
+  generated: string,
+  generatedClass: DartClass,
+  obsolete: ReadonlySet<string>
+): Array<TextReplacement> => {
+  const keys = new Set(generatedClass.members.map(memberKey));
+  const existing = new Map(
+    declaration.members
+      .filter(
+        (member) =>
+          keys.has(memberKey(member)) || obsolete.has(memberKey(member))
+      )
+      .map((member) => [memberKey(member), member])
+  );
+  const edits: Array<TextReplacement> = [];
+  let previous: TextReplacement | undefined;
+  let pending: Array<string> = [];
+  const flush = () => {
+    if (pending.length === 0) {
+      return;
+    }
+    if (previous) {
+      previous.text += pending.map((text) => `\n\n  ${text}`).join("");
+    } else {
+      edits.push({
+        start: declaration.bodyStart + 1,
+        end: declaration.bodyStart + 1,
+        text: pending.map((text) => `\n  ${text}\n`).join(""),
+      });
+    }
+    pending = [];
+  };
+
+  for (const member of generatedClass.members) {
+    const text = generated.substring(member.start, member.end);
+    const current = existing.get(memberKey(member));
+    if (!current) {
+      pending.push(text);
+      continue;
+    }
+    flush();
+    existing.delete(memberKey(member));
+    previous = { start: current.start, end: current.end, text };
+    edits.push(previous);
+  }
+  flush();
+
+  for (const member of existing.values()) {
+    edits.push({
+      start: whitespaceBefore(source, member.start),
+      end: member.end,
+      text: "",
+    });
+  }
+  return edits;
+};
+
+/** Renames the generated names in the class of the case `from`. */
+const renameCaseClass = (
+  source: string,
+  declaration: DartClass,
+  from: string,
+  to: string
+): Array<TextReplacement> => {
+  const previous = caseNames(from);
+  const next = caseNames(to);
+  const replacements = new Map([
+    [`'${previous.snakeCase}'`, `'${next.snakeCase}'`],
+    [`'${previous.pascalCase}'`, `'${next.pascalCase}'`],
+    [`/// ${previous.pascalCase}`, `/// ${next.pascalCase}`],
+  ]);
+  const edits: Array<TextReplacement> = [];
+  for (const token of tokenizeDart(
+    source.substring(declaration.start, declaration.end)
+  )) {
+    const start = declaration.start + token.start;
+    const end = declaration.start + token.end;
+    let text = replacements.get(token.text);
+    if (token.kind === "string" && text === undefined) {
+      // toString of cases without a type alias, e.g. 'AuthState.idle{}'.
+      const prefix = `${declaration.superclass?.name}.${from}{`;
+      text = token.text.includes(prefix)
+        ? token.text.replace(prefix, `${declaration.superclass?.name}.${to}{`)
+        : undefined;
+    }
+    if (text !== undefined) {
+      edits.push({ start, end, text });
+    }
+  }
+  return edits;
+};
+
+/**
+ * Offset of the whitespace before `offset`, to delete a declaration with
+ * the blank line that separates it from the previous one.
+ */
+const whitespaceBefore = (source: string, offset: number): number => {
+  let start = offset;
+  while (start > 0 && /\s/.test(source.charAt(start - 1))) {
+    start--;
+  }
+  return start;
+};
+
+/**
+ * Index just after the bracket matching the one at `index`. Angle
+ * brackets are only matched with each other, since `<` may be an operator.
+ */
+const skipBrackets = (
+  tokens: ReturnType<typeof tokenizeDart>,
+  index: number
+): number => {
+  const [opening, closing] =
+    tokens[index].text === "<"
+      ? [["<"], [">"]]
+      : [
+          ["(", "[", "{"],
+          [")", "]", "}"],
+        ];
+  let depth = 0;
+  for (let i = index; i < tokens.length; i++) {
+    if (opening.includes(tokens[i].text)) {
+      depth++;
+    } else if (closing.includes(tokens[i].text)) {
+      depth--;
+      if (depth === 0) {
+        return i + 1;
+      }
+    }
+  }
+  return tokens.length;
+};
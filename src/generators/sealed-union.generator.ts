@@ -0,0 +1,714 @@
+import { parseDartType, tokenizeDart } from "../parser";
+import { dartKeywords } from "./naming";
+
+/** A field carried by a single case, e.g. `Object error`. */
+export type SealedCaseField = {
+  name: string;
+  /** Source of the type, e.g. `StackTrace?`. */
+  type: string;
+  /** Source of the default value, if any. */
+  defaultValue?: string;
+};
+
+export type SealedCase = {
+  /** Name of the case in camelCase, e.g. `failed`. */
+  name: string;
+  fields: Array<SealedCaseField>;
+};
+
+/**
+ * Shapes of the generated sealed classes:
+ * - `state`: BLoC states sharing a `data` payload and a `message`,
+ * - `event`: BLoC events,
+ * - `union`: plain unions, e.g. results or route configurations.
+ */
+export type SealedUnionTemplate = "state" | "event" | "union";
+
+export const sealedUnionTemplates: Record<
+  SealedUnionTemplate,
+  {
+    label: string;
+    description: string;
+    /** Suffix added to the suggested class names. */
+    suffix: string;
+    /** Cases suggested in the input box. */
+    cases: string;
+  }
+> = {
+  state: {
+    label: "State",
+    description: "States with a data payload and a message",
+    suffix: "State",
+    cases: "idle, processing, succeeded, failed",
+  },
+  event: {
+    label: "Event",
+    description: "Events of a BLoC",
+    suffix: "Event",
+    cases: "started, refreshed",
+  },
+  union: {
+    label: "Union",
+    description: "Plain sealed union, e.g. a result",
+    suffix: "",
+    cases: "success(Object value), failure(Object error)",
+  },
+};
+
+/** Optional parts of the sealed union generator. */
+export type SealedUnionOptions = {
+  /** Whether the `data` of states is nullable. */
+  nullableData: boolean;
+  /** `map`, `maybeMap` and `mapOrNull`. */
+  patternMatching: boolean;
+  toStringMethod: boolean;
+  /** `initial` factory of states. */
+  initialState: boolean;
+  /** `isCase` getters. */
+  propertyGetters: boolean;
+  /** `type` getter with the name of the case. */
+  typeAlias: boolean;
+  equalityOperator: boolean;
+};
+
+export type SealedUnionSpec = {
+  template: SealedUnionTemplate;
+  className: string;
+  /** Name of the `{@template}` of the doc comments, e.g. `auth_state`. */
+  templateName: string;
+  cases: Array<SealedCase>;
+  options: SealedUnionOptions;
+  /** Whether to use the annotations of `package:meta`. */
+  useMeta: boolean;
+};
+
+export type SealedCasesParseResult = {
+  cases: Array<SealedCase>;
+  errors: Array<string>;
+};
+
+/** Members of the generated classes that fields cannot shadow. */
+const reservedFieldNames = new Set([
+  "type",
+  "hashCode",
+  "runtimeType",
+  "toString",
+  "map",
+  "maybeMap",
+  "mapOrNull",
+]);
+
+/** Members of the states that fields cannot shadow. */
+const reservedStateFieldNames = new Set(["data", "message", "hasData"]);
+
+/**
+ * Parses the cases typed in the input box, separated by commas or
+ * semicolons, with the fields of each case in parentheses:
+ *
+ * ```
+ * idle, processing(double progress = 0), failed(Object error, StackTrace? stackTrace)
+ * ```
+ */
+export const parseCaseSpec = (
+  text: string,
+  template: SealedUnionTemplate = "state"
+): SealedCasesParseResult => {
+  const errors: Array<string> = [];
+  const cases: Array<SealedCase> = [];
+  for (const item of splitTopLevel(text, [",", ";"])) {
+    if (!item) {
+      continue;
+    }
+    const match = /^([^(]*?)\s*(?:\(([\s\S]*)\))?$/.exec(item);
+    if (!match) {
+      errors.push(`Invalid case "${item}".`);
+      continue;
+    }
+    const fields: Array<SealedCaseField> = [];
+    for (const field of splitTopLevel(match[2] ?? "", [","])) {
+      if (field) {
+        fields.push(parseField(field, match[1], template, errors));
+      }
+    }
+    addCase(cases, match[1], fields, errors);
+  }
+  return { cases, errors };
+};
+
+/**
+ * Reads the cases from a YAML block, a map of the cases to their fields
+ * or a list of the cases:
+ *
+ * ```yaml
+ * idle:
+ * processing:
+ *   progress: double = 0
+ * failed:
+ *   error: Object
+ *   stackTrace: StackTrace?
+ * ```
+ */
+export const readCaseSpec = (
+  value: unknown,
+  template: SealedUnionTemplate = "state"
+): SealedCasesParseResult => {
+  if (typeof value === "string") {
+    return parseCaseSpec(value, template);
+  }
+  const errors: Array<string> = [];
+  const cases: Array<SealedCase> = [];
+  const entries = Array.isArray(value)
+    ? value.flatMap(
+        (item): Array<[unknown, unknown]> =>
+          isObject(item) ? Object.entries(item) : [[item, null]]
+      )
+    : isObject(value)
+    ? Object.entries(value)
+    : undefined;
+  if (!entries) {
+    return { cases, errors: ["Expected a map or a list of cases."] };
+  }
+  for (const [name, body] of entries) {
+    if (typeof name !== "string") {
+      errors.push(`Invalid case "${name}".`);
+      continue;
+    }
+    const fields: Array<SealedCaseField> = [];
+    if (isObject(body)) {
+      for (const [fieldName, declaration] of Object.entries(body)) {
+        // `progress: double = 0` declares `double progress = 0`.
+        const [type, ...defaultValue] = splitTopLevel(`${declaration ?? ""}`, [
+          "=",
+        ]);
+        fields.push(
+          parseField(
+            [`${type} ${fieldName}`, ...defaultValue].join(" = "),
+            name,
+            template,
+            errors
+          )
+        );
+      }
+    } else if (body !== null && body !== undefined) {
+      errors.push(`${name}: expected a map of fields to their types.`);
+    }
+    addCase(cases, name, fields, errors);
+  }
+  return { cases, errors };
+};
+
+/** Formats `cases` in the syntax of `parseCaseSpec`. */
+export const formatCaseSpec = (cases: Array<SealedCase>): string =>
+  cases
+    .map(({ name, fields }) =>
+      fields.length
+        ? `${name}(${fields
+            .map(
+              ({ name, type, defaultValue }) =>
+                `${type} ${name}${
+                  defaultValue !== undefined ? ` = ${defaultValue}` : ""
+                }`
+            )
+            .join(", ")})`
+        : name
+    )
+    .join(", ");
+
+/** Libraries the sealed union of `spec` depends on. */
+export const sealedUnionImports = (spec: SealedUnionSpec): Array<string> =>
+  spec.useMeta ? ["package:meta/meta.dart"] : [];
+
+/**
+ * Generates a sealed class with a final subclass per case as a snippet,
+ * where `${1}` is the class name and `${2}` the name of the doc template.
+ * The common members live in a private base class, the pattern matching
+ * methods in the sealed class, so that their `switch` is exhaustive.
+ */
+export const generateSealedUnion = (spec: SealedUnionSpec): string => {
+  const { options, useMeta } = spec;
+  const isState = spec.template === "state";
+  const name = "${1}";
+  const dollar = "\\$";
+  const cases = spec.cases.map((item) => ({
+    ...item,
+    ...caseNames(item.name),
+    fields: item.fields.map((field) => ({
+      name: escapeSnippet(field.name),
+      type: escapeSnippet(field.type),
+      defaultValue:
+        field.defaultValue === undefined
+          ? undefined
+          : escapeSnippet(field.defaultValue),
+      required: isRequired(field),
+    })),
+  }));
+  const dataType = options.nullableData ? `${name}Entity?` : `${name}Entity`;
+  const dataParameter = options.nullableData
+    ? `${dataType} data,`
+    : `required ${dataType} data,`;
+
+  const lines: Array<string> = [];
+  const className = `\${1:${escapeSnippet(spec.className)}}`;
+  if (isState) {
+    lines.push(`/// Entity placeholder`);
+    lines.push(`typedef ${className}Entity = \${0:Object};`);
+    lines.push("");
+  }
+  lines.push(`/// {@template \${2:${escapeSnippet(spec.templateName)}}}`);
+  lines.push(`/// ${isState ? name : className}.`);
+  lines.push(`/// {@endtemplate}`);
+  lines.push(`sealed class ${name} extends _${dollar}${name}Base {`);
+
+  // Constructor
+  lines.push(`  /// {@macro \${2}}`);
+  lines.push(
+    isState
+      ? `  const ${name}({required super.data, required super.message});`
+      : `  const ${name}();`
+  );
+
+  // Factory constructors for each case
+  for (const { pascalCase, camelCase, fields } of cases) {
+    lines.push("");
+    lines.push(`  /// ${pascalCase}`);
+    lines.push(`  /// {@macro \${2}}`);
+    const parameters = fields.map(
+      (field) =>
+        `${field.required ? "required " : ""}${field.type} ${field.name},`
+    );
+    if (isState) {
+      parameters.push(dataParameter, `String message,`);
+    }
+    if (parameters.length) {
+      lines.push(`  const factory ${name}.${camelCase}({`);
+      lines.push(...parameters.map((parameter) => `    ${parameter}`));
+      lines.push(`  }) = ${name}${dollar}${pascalCase};`);
+    } else {
+      lines.push(
+        `  const factory ${name}.${camelCase}() = ${name}${dollar}${pascalCase};`
+      );
+    }
+  }
+
+  // Initial state, built from idle or the first state without required fields
+  const initial =
+    cases.find(
+      ({ camelCase, fields }) =>
+        camelCase === "idle" && fields.every((field) => !field.required)
+    ) ?? cases.find(({ fields }) => fields.every((field) => !field.required));
+  if (
+    isState &&
+    options.initialState &&
+    initial &&
+    cases.every(({ camelCase }) => camelCase !== "initial")
+  ) {
+    lines.push("");
+    lines.push(`  /// Initial`);
+    lines.push(`  /// {@macro \${2}}`);
+    lines.push(`  factory ${name}.initial({`);
+    lines.push(`    ${dataParameter}`);
+    lines.push(`    String? message,`);
+    lines.push(`  }) =>`);
+    lines.push(`      ${name}${dollar}${initial.pascalCase}(`);
+    lines.push(`        data: data,`);
+    lines.push(`        message: message ?? 'Initial',`);
+    lines.push(`      );`);
+  }
+
+  // Pattern matching methods
+  if (options.patternMatching) {
+    lines.push("");
+    lines.push(`  /// Pattern matching for [${name}].`);
+    lines.push(`  R map<R>({`);
+    for (const { pascalCase, camelCase } of cases) {
+      lines.push(
+        `    required ${name}Match<R, ${name}${dollar}${pascalCase}> ${camelCase},`
+      );
+    }
+    lines.push(`  }) =>`);
+    lines.push(`      switch (this) {`);
+    for (const { pascalCase, camelCase } of cases) {
+      lines.push(`        ${name}${dollar}${pascalCase} s => ${camelCase}(s),`);
+    }
+    lines.push(`      };`);
+    lines.push("");
+    lines.push(`  /// Pattern matching for [${name}].`);
+    lines.push(`  R maybeMap<R>({`);
+    lines.push(`    required R Function() orElse,`);
+    for (const { pascalCase, camelCase } of cases) {
+      lines.push(
+        `    ${name}Match<R, ${name}${dollar}${pascalCase}>? ${camelCase},`
+      );
+    }
+    lines.push(`  }) =>`);
+    lines.push(`      map<R>(`);
+    for (const { camelCase } of cases) {
+      lines.push(`        ${camelCase}: ${camelCase} ?? (_) => orElse(),`);
+    }
+    lines.push(`      );`);
+    lines.push("");
+    lines.push(`  /// Pattern matching for [${name}].`);
+    lines.push(`  R? mapOrNull<R>({`);
+    for (const { pascalCase, camelCase } of cases) {
+      lines.push(
+        `    ${name}Match<R, ${name}${dollar}${pascalCase}>? ${camelCase},`
+      );
+    }
+    lines.push(`  }) =>`);
+    lines.push(`      map<R?>(`);
+    for (const { camelCase } of cases) {
+      lines.push(`        ${camelCase}: ${camelCase} ?? (_) => null,`);
+    }
+    lines.push(`      );`);
+  }
+
+  lines.push(`}`);
+
+  // Classes for each case
+  for (const { pascalCase, camelCase, snakeCase, fields } of cases) {
+    lines.push("");
+    lines.push(`/// ${pascalCase}`);
+    lines.push(`final class ${name}${dollar}${pascalCase} extends ${name} {`);
+    const parameters = fields.map(
+      (field) =>
+        `${field.required ? "required " : ""}this.${field.name}${
+          field.defaultValue !== undefined ? ` = ${field.defaultValue}` : ""
+        }`
+    );
+    if (isState) {
+      parameters.push(
+        options.nullableData ? "super.data" : "required super.data",
+        `super.message = '${pascalCase}'`
+      );
+    }
+    lines.push(
+      parameters.length
+        ? `  const ${name}${dollar}${pascalCase}({${parameters.join(", ")}});`
+        : `  const ${name}${dollar}${pascalCase}();`
+    );
+
+    if (fields.length) {
+      lines.push("");
+      for (const field of fields) {
+        lines.push(`  final ${field.type} ${field.name};`);
+      }
+    }
+
+    if (options.typeAlias) {
+      lines.push("");
+      lines.push(`  @override`);
+      lines.push(`  String get type => '${snakeCase}';`);
+    }
+
+    if (fields.length && options.equalityOperator) {
+      const hashed = ["super.hashCode", ...fields.map((field) => field.name)];
+      lines.push("");
+      lines.push("  @override");
+      lines.push(
+        hashed.length <= 20
+          ? `  int get hashCode => Object.hash(${hashed.join(", ")});`
+          : `  int get hashCode => Object.hashAll([${hashed.join(", ")}]);`
+      );
+      lines.push("");
+      lines.push("  @override");
+      lines.push(`  bool operator ==(Object other) => super == other`);
+      lines.push(
+        `   && (other is ${name}${dollar}${pascalCase}${fields
+          .map((field) => ` && ${field.name} == other.${field.name}`)
+          .join("")});`
+      );
+    }
+
+    // States without fields and with a type alias use the base toString
+    if (
+      options.toStringMethod &&
+      (fields.length || !isState || !options.typeAlias)
+    ) {
+      const values = [
+        ...(isState ? ["message"] : []),
+        ...fields.map((field) => field.name),
+      ].map((field) => `${field}: ${dollar}${field}`);
+      lines.push("");
+      lines.push("  @override");
+      lines.push(
+        isState && options.typeAlias
+          ? `  String toString() => '${name}.${dollar}type{${values.join(
+              ", "
+            )}}';`
+          : `  String toString() => '${name}.${camelCase}{${values.join(
+              ", "
+            )}}';`
+      );
+    }
+
+    lines.push(`}`);
+  }
+
+  // Pattern matching typedef
+  if (options.patternMatching) {
+    lines.push("");
+    lines.push(`/// Pattern matching for [${name}].`);
+    lines.push(
+      `typedef ${name}Match<R, S extends ${name}> = R Function(S element);`
+    );
+  }
+
+  // Base class definition
+  lines.push("");
+  if (useMeta) {
+    lines.push("@immutable");
+  }
+  lines.push(`abstract base class _${dollar}${name}Base {`);
+  lines.push(
+    isState
+      ? `  const _${dollar}${name}Base({required this.data, required this.message});`
+      : `  const _${dollar}${name}Base();`
+  );
+
+  // Type alias
+  if (options.typeAlias) {
+    lines.push("");
+    lines.push(`  /// Type alias for [${name}].`);
+    lines.push(`  abstract final String type;`);
+  }
+
+  if (isState) {
+    // Data entity payload
+    lines.push("");
+    lines.push(`  /// Data entity payload.`);
+    if (useMeta) {
+      lines.push(`  @nonVirtual`);
+    }
+    lines.push(`  final ${dataType} data;`);
+
+    // Message or description
+    lines.push("");
+    lines.push(`  /// Message or description.`);
+    if (useMeta) {
+      lines.push(`  @nonVirtual`);
+    }
+    lines.push(`  final String message;`);
+
+    // Check existence of data
+    if (options.nullableData) {
+      lines.push("");
+      lines.push(`  /// Has data?`);
+      lines.push(`  bool get hasData => data != null;`);
+    }
+  }
+
+  // Property getters
+  if (options.propertyGetters) {
+    for (const { pascalCase } of cases) {
+      lines.push("");
+      lines.push(`  /// Check if is ${pascalCase}.`);
+      lines.push(
+        `  bool get is${pascalCase} => this is ${name}${dollar}${pascalCase};`
+      );
+    }
+  }
+
+  // Equality operator
+  if (options.equalityOperator) {
+    const discriminator = options.typeAlias ? "type" : "runtimeType";
+    const data = isState ? " && identical(data, other.data)" : "";
+    lines.push("");
+    lines.push("  @override");
+    lines.push(
+      isState
+        ? `  int get hashCode => ${
+            options.typeAlias ? "Object.hash(type, data)" : "data.hashCode"
+          };`
+        : `  int get hashCode => ${discriminator}.hashCode;`
+    );
+    lines.push("");
+    lines.push("  @override");
+    lines.push(`  bool operator ==(Object other) => identical(this, other)`);
+    lines.push(
+      `   || (other is _${dollar}${name}Base && ${discriminator} == other.${discriminator}${data});`
+    );
+  }
+
+  // toString method of the states
+  if (isState && options.toStringMethod) {
+    lines.push("");
+    lines.push("  @override");
+    if (options.typeAlias) {
+      lines.push(
+        `  String toString() => '${name}.${dollar}type{message: ${dollar}message}';`
+      );
+    } else {
+      lines.push(
+        `  String toString() => '${name}{message: ${dollar}message}';`
+      );
+    }
+  }
+  lines.push("}");
+  lines.push("");
+
+  return lines.join("\n");
+};
+
+/** Adds the case `rawName` to `cases`, normalized to camelCase. */
+const addCase = (
+  cases: Array<SealedCase>,
+  rawName: string,
+  fields: Array<SealedCaseField>,
+  errors: Array<string>
+) => {
+  const name = rawName.replace(/\s/g, "");
+  if (!/^[A-Za-z][A-Za-z0-9]*$/.test(name)) {
+    errors.push(`Invalid case name "${rawName}".`);
+    return;
+  }
+  const camelCase = caseNames(name).camelCase;
+  if (cases.some((item) => item.name === camelCase)) {
+    errors.push(`The case ${camelCase} is declared twice.`);
+    return;
+  }
+  const names = new Set<string>();
+  for (const field of fields) {
+    if (names.has(field.name)) {
+      errors.push(`${camelCase}: the field ${field.name} is declared twice.`);
+    }
+    names.add(field.name);
+  }
+  cases.push({ name: camelCase, fields });
+};
+
+/** Parses a field declaration, e.g. `double progress = 0`. */
+const parseField = (
+  text: string,
+  owner: string,
+  template: SealedUnionTemplate,
+  errors: Array<string>
+): SealedCaseField => {
+  const [declaration, ...defaultValue] = splitTopLevel(text, ["="]);
+  const match = /^([\s\S]+?)\s+([A-Za-z_$][A-Za-z0-9_$]*)$/.exec(declaration);
+  const field: SealedCaseField = {
+    name: match?.[2] ?? declaration,
+    type: match?.[1].trim() ?? "dynamic",
+    defaultValue: defaultValue.length ? defaultValue.join("=") : undefined,
+  };
+  if (!match) {
+    errors.push(`${owner.trim()}: expected a type and a name in "${text}".`);
+  } else if (
+    dartKeywords.has(field.name) ||
+    reservedFieldNames.has(field.name) ||
+    (template === "state" && reservedStateFieldNames.has(field.name))
+  ) {
+    errors.push(
+      `${owner.trim()}: ${field.name} cannot be used as a field name.`
+    );
+  } else if (!parseDartType(field.type)) {
+    errors.push(
+      `${owner.trim()}: invalid type ${field.type} of ${field.name}.`
+    );
+  } else if (field.defaultValue === "") {
+    errors.push(`${owner.trim()}: missing default value of ${field.name}.`);
+  }
+  return field;
+};
+
+/** Whether a field must be passed to the constructors. */
+const isRequired = ({ type, defaultValue }: SealedCaseField): boolean =>
+  defaultValue === undefined &&
+  !type.endsWith("?") &&
+  type !== "dynamic" &&
+  type !== "Object?";
+
+/**
+ * Names of the generated members of the case `name`, e.g. `loggedIn`,
+ * `LoggedIn` and `logged_in`.
+ */
+export const caseNames = (name: string) => {
+  const words = name
+    .split(/(?=[A-Z])|_|-|\s/)
+    .filter((word) => word.length > 0);
+  const capitalize = (word: string) =>
+    word.length === 1
+      ? word.toUpperCase()
+      : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+  return {
+    pascalCase: words.map(capitalize).join(""),
+    camelCase: words
+      .map((word, index) =>
+        index === 0 ? word.toLowerCase() : capitalize(word)
+      )
+      .join(""),
+    snakeCase: words.map((word) => word.toLowerCase()).join("_"),
+  };
+};
+
+const openingBrackets = new Set(["(", "[", "{", "<"]);
+const closingBrackets = new Set([")", "]", "}", ">"]);
+
+/** Splits `text` at the `separators` outside of brackets and strings. */
+export const splitTopLevel = (text: string, separators: Array<string>) => {
+  const parts: Array<string> = [];
+  let depth = 0;
+  let from = 0;
+  for (const token of tokenizeDart(text)) {
+    if (openingBrackets.has(token.text)) {
+      depth++;
+    } else if (closingBrackets.has(token.text)) {
+      depth--;
+    } else if (separators.includes(token.text) && depth === 0) {
+      parts.push(text.substring(from, token.start).trim());
+      from = token.end;
+    }
+  }
+  parts.push(text.substring(from).trim());
+  return parts;
+};
+
+/**
+ * Resolves the placeholders of a `snippet` to their default values,
+ * e.g. `${1:AuthState}` and every other `${1}` to `AuthState`.
+ */
+export const renderSnippet = (snippet: string): string => {
+  const defaults = new Map<string, string>();
+  const resolve = (collect: boolean): string => {
+    let text = "";
+    let index = 0;
+    while (index < snippet.length) {
+      const char = snippet.charAt(index);
+      if (char === "\\" && index + 1 < snippet.length) {
+        text += snippet.charAt(index + 1);
+        index += 2;
+        continue;
+      }
+      const placeholder = /^\$\{(\d+)(:?)/.exec(snippet.substring(index));
+      if (!placeholder) {
+        text += char;
+        index++;
+        continue;
+      }
+      // The default value ends at the first unescaped closing brace.
+      index += placeholder[0].length;
+      let value = "";
+      while (index < snippet.length && snippet.charAt(index) !== "}") {
+        value +=
+          snippet.charAt(index) === "\\"
+            ? snippet.charAt(++index)
+            : snippet.charAt(index);
+        index++;
+      }
+      index++;
+      if (collect && placeholder[2]) {
+        defaults.set(placeholder[1], value);
+      }
+      text += placeholder[2] ? value : defaults.get(placeholder[1]) ?? "";
+    }
+    return text;
+  };
+  resolve(true);
+  return resolve(false);
+};
+
+/** Escapes the characters with a meaning in snippets. */
+const escapeSnippet = (text: string): string => text.replace(/[$}\\]/g, "\\$&");
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
@@ -0,0 +1,228 @@
+import { DartType, formatDartType } from "../parser";
+
+/** Types that JSON represents natively and that need no conversion. */
+const jsonNativeTypes = new Set([
+  "String",
+  "bool",
+  "num",
+  "int",
+  "double",
+  "dynamic",
+  "Object",
+  "Null",
+]);
+
+const listTypes = new Set(["List", "Iterable"]);
+
+/** Converts the values of an enum from and to their JSON form. */
+export type EnumCodec = {
+  /** Builds the expression that converts the JSON `value` to the enum. */
+  decode: (value: string) => string;
+  /**
+   * Builds the expression that converts `value` of the enum to JSON,
+   * `access` is `.` or `?.` depending on the nullability of the value.
+   */
+  encode: (value: string, access: string) => string;
+};
+
+/**
+ * Knowledge about the types of the generated library that the
+ * conversions cannot guess from the type name alone.
+ */
+export type SerializationContext = {
+  /** Enums by name, all other unknown types are treated as models. */
+  enums?: ReadonlyMap<string, EnumCodec>;
+};
+
+/**
+ * Builds the Dart expression that converts the JSON `value` (an expression
+ * of type `Object?`) to `type`.
+ * Collections are converted element by element, models through their
+ * `fromMap` factory and common core types from their usual JSON form:
+ * `DateTime` and `Uri` from strings, `Duration` from milliseconds,
+ * `BigInt` from a decimal string and `Color` from an ARGB integer.
+ * Enums known to `context` are converted with their codec.
+ */
+export const fromJsonExpression = (
+  type: DartType,
+  value: string,
+  context: SerializationContext = {},
+  depth = 0
+): string => {
+  const nonNullable = withNullability(type, false);
+  if (isIdentity(type)) {
+    return value;
+  }
+  if (isCast(type)) {
+    return `${value} as ${type.text}`;
+  }
+  if (type.name === "int" || type.name === "double") {
+    const method = type.name === "int" ? "toInt" : "toDouble";
+    return type.nullable
+      ? `(${value} as num?)?.${method}()`
+      : `(${value} as num).${method}()`;
+  }
+  if (type.nullable) {
+    return `${value} == null ? null : ${fromJsonExpression(
+      nonNullable,
+      value,
+      context,
+      depth
+    )}`;
+  }
+
+  const codec = context.enums?.get(type.name);
+  if (codec) {
+    return codec.decode(value);
+  }
+
+  const element = variable("e", depth);
+  switch (type.name) {
+    case "DateTime":
+      return `DateTime.parse(${value} as String)`;
+    case "Duration":
+      return `Duration(milliseconds: (${value} as num).toInt())`;
+    case "Uri":
+      return `Uri.parse(${value} as String)`;
+    case "BigInt":
+      return `BigInt.parse(${value} as String)`;
+    case "Color":
+      return `Color((${value} as num).toInt())`;
+  }
+
+  if (
+    (listTypes.has(type.name) || type.name === "Set") &&
+    type.args.length === 1
+  ) {
+    const [arg] = type.args;
+    const collection = type.name === "Set" ? "Set" : "List";
+    if (isIdentity(arg) || isCast(arg)) {
+      return `${collection}<${arg.text}>.from(${value} as List)`;
+    }
+    return `(${value} as List).map((${element}) => ${fromJsonExpression(
+      arg,
+      element,
+      context,
+      depth + 1
+    )}).to${collection}()`;
+  }
+
+  if (type.name === "Map" && type.args.length === 2) {
+    const [key, arg] = type.args;
+    if (key.name === "String" && (isIdentity(arg) || isCast(arg))) {
+      return `Map<String, ${arg.text}>.from(${value} as Map)`;
+    }
+    const keyVariable = variable("k", depth);
+    return `(${value} as Map<String, dynamic>).map((${keyVariable}, ${element}) => MapEntry(${keyFromJson(
+      key,
+      keyVariable
+    )}, ${fromJsonExpression(arg, element, context, depth + 1)}))`;
+  }
+
+  return `${nonNullable.text}.fromMap(${value} as Map<String, dynamic>)`;
+};
+
+/**
+ * Builds the Dart expression that converts `value` of `type` to a JSON
+ * compatible value. The reverse of `fromJsonExpression`.
+ */
+export const toJsonExpression = (
+  type: DartType,
+  value: string,
+  context: SerializationContext = {},
+  depth = 0
+): string => {
+  if (
+    isIdentity(type) ||
+    isCast(type) ||
+    type.name === "int" ||
+    type.name === "double"
+  ) {
+    return value;
+  }
+
+  const access = type.nullable ? "?." : ".";
+  const codec = context.enums?.get(type.name);
+  if (codec) {
+    return codec.encode(value, access);
+  }
+
+  const element = variable("e", depth);
+  switch (type.name) {
+    case "DateTime":
+      return `${value}${access}toIso8601String()`;
+    case "Duration":
+      return `${value}${access}inMilliseconds`;
+    case "Uri":
+    case "BigInt":
+      return `${value}${access}toString()`;
+    case "Color":
+      return `${value}${access}toARGB32()`;
+  }
+
+  if (
+    (listTypes.has(type.name) || type.name === "Set") &&
+    type.args.length === 1
+  ) {
+    const [arg] = type.args;
+    const converted = toJsonExpression(arg, element, context, depth + 1);
+    if (converted === element) {
+      return type.name === "List" ? value : `${value}${access}toList()`;
+    }
+    return `${value}${access}map((${element}) => ${converted}).toList()`;
+  }
+
+  if (type.name === "Map" && type.args.length === 2) {
+    const [key, arg] = type.args;
+    const keyVariable = variable("k", depth);
+    const converted = toJsonExpression(arg, element, context, depth + 1);
+    if (key.name === "String" && converted === element) {
+      return value;
+    }
+    const convertedKey =
+      key.name === "String" ? keyVariable : `${keyVariable}.toString()`;
+    return `${value}${access}map((${keyVariable}, ${element}) => MapEntry(${convertedKey}, ${converted}))`;
+  }
+
+  return `${value}${access}toMap()`;
+};
+
+/** Whether values of `type` are taken from JSON as they are. */
+const isIdentity = (type: DartType): boolean =>
+  ["dynamic", "Object", "Null"].includes(type.name) &&
+  (type.nullable || type.name === "dynamic");
+
+/** Whether values of `type` are taken from JSON with a plain cast. */
+const isCast = (type: DartType): boolean =>
+  !isIdentity(type) &&
+  jsonNativeTypes.has(type.name) &&
+  type.name !== "int" &&
+  type.name !== "double";
+
+const keyFromJson = (key: DartType, value: string): string => {
+  switch (key.name) {
+    case "String":
+      return value;
+    case "int":
+    case "double":
+    case "num":
+    case "BigInt":
+    case "DateTime":
+    case "Uri":
+      return `${key.name}.parse(${value})`;
+    default:
+      return `${value} as ${key.text}`;
+  }
+};
+
+const withNullability = (type: DartType, nullable: boolean): DartType =>
+  type.nullable === nullable
+    ? type
+    : {
+        ...type,
+        nullable,
+        text: formatDartType(type.name, type.args, nullable),
+      };
+
+const variable = (name: string, depth: number): string =>
+  depth === 0 ? name : `${name}${depth}`;
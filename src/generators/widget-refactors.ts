@@ -0,0 +1,59 @@
+import {
+  DartToken,
+  findWidgetSiblings,
+  findWrappedWidget,
+  tokenizeDart,
+  WidgetRange,
+} from "../parser";
+import { TextReplacement } from "./data-class.generator";
+
+/**
+ * Replaces the `wrapper` in `source` with the widget it wraps, see
+ * `findWrappedWidget`.
+ */
+export const unwrapWidget = (
+  source: string,
+  wrapper: WidgetRange
+): TextReplacement | undefined => {
+  const child = findWrappedWidget(source, wrapper);
+  return (
+    child && {
+      start: wrapper.start,
+      end: wrapper.end,
+      text: source.substring(child.start, child.end),
+    }
+  );
+};
+
+/**
+ * Swaps `widget` with its previous or next sibling in the list of widgets
+ * containing it, e.g. the `children` of a `Column`.
+ */
+export const moveWidget = (
+  source: string,
+  widget: WidgetRange,
+  direction: "up" | "down",
+  tokens: Array<DartToken> = tokenizeDart(source)
+): TextReplacement | undefined => {
+  const siblings = findWidgetSiblings(source, widget, tokens);
+  if (!siblings) {
+    return;
+  }
+  const { elements, index } = siblings;
+  const other = direction === "up" ? index - 1 : index + 1;
+  if (other < 0 || other >= elements.length) {
+    return;
+  }
+  const [first, second] =
+    other < index
+      ? [elements[other], elements[index]]
+      : [elements[index], elements[other]];
+  return {
+    start: first.start,
+    end: second.end,
+    text:
+      source.substring(second.start, second.end) +
+      source.substring(first.end, second.start) +
+      source.substring(first.start, first.end),
+  };
+};
@@ -0,0 +1,151 @@
+import { DartToken, parseDart, tokenizeDart, WidgetRange } from "../parser";
+import { findImports } from "./imports";
+
+/** Conditions of a wrap, all of them must hold for the wrap to be offered. */
+export type WrapConditions = {
+  /** Whether the widget is a sliver, e.g. `SliverList`. */
+  sliver?: boolean;
+  /**
+   * Prefixes of URIs, one of them must be imported by the file, e.g.
+   * `package:flutter_bloc`.
+   */
+  imports?: string | Array<string>;
+  /** Whether the widget is inside a `build` method. */
+  insideBuild?: boolean;
+  /**
+   * Regular expression matching the type of the widget, e.g. `^(Text|Icon)$`.
+   */
+  widget?: string;
+};
+
+/** Where a wrap is applied, see {@link wrapContext}. */
+export type WrapContext = {
+  /** Source of the widget. */
+  widget: string;
+  /** Type of the widget, e.g. `Padding` for `Padding.symmetric(...)`. */
+  widgetType: string;
+  /** Name of the class containing the widget. */
+  className: string;
+  /** Name of the file without the `.dart` extension. */
+  fileName: string;
+  imports: Array<string>;
+  insideBuild: boolean;
+};
+
+/** Variables of the body of a wrap, e.g. `${className}`. */
+const variables = new Map<string, (context: WrapContext) => string>([
+  ["widget", (context) => context.widget],
+  ["widgetType", (context) => context.widgetType],
+  ["className", (context) => context.className],
+  ["fileName", (context) => context.fileName],
+]);
+
+/**
+ * Collects what the conditions and variables of a wrap need to know about
+ * the `widget` in `source`, the file `fileName`.
+ */
+export const wrapContext = (
+  source: string,
+  widget: WidgetRange,
+  fileName: string,
+  tokens: Array<DartToken> = tokenizeDart(source)
+): WrapContext => {
+  const enclosing = parseDart(source, tokens).classes.find(
+    (declaration) =>
+      declaration.bodyStart < widget.start && widget.end <= declaration.bodyEnd
+  );
+  const build = enclosing?.members.find(
+    (member) =>
+      member.kind === "method" &&
+      member.name === "build" &&
+      member.start <= widget.start &&
+      widget.end <= member.end
+  );
+  return {
+    widget: source.substring(widget.start, widget.end),
+    widgetType:
+      widget.name.split(".").find((part) => /^_?[A-Z]/.test(part)) ??
+      widget.name,
+    className: enclosing?.name ?? "",
+    fileName: fileName.replace(/\.dart$/, ""),
+    imports: findImports(source, tokens).map(({ uri }) => uri),
+    insideBuild: build !== undefined,
+  };
+};
+
+/** Whether every condition of `when` holds in `context`. */
+export const wrapApplies = (
+  when: WrapConditions | undefined,
+  context: WrapContext
+): boolean => {
+  if (!when) {
+    return true;
+  }
+  if (
+    when.sliver !== undefined &&
+    when.sliver !== /^_?Sliver/.test(context.widgetType)
+  ) {
+    return false;
+  }
+  if (
+    when.insideBuild !== undefined &&
+    when.insideBuild !== context.insideBuild
+  ) {
+    return false;
+  }
+  if (when.imports !== undefined) {
+    const prefixes = Array.isArray(when.imports)
+      ? when.imports
+      : [when.imports];
+    if (
+      !prefixes.some((prefix) =>
+        context.imports.some((uri) => uri.startsWith(prefix))
+      )
+    ) {
+      return false;
+    }
+  }
+  if (when.widget !== undefined) {
+    try {
+      if (!new RegExp(when.widget).test(context.widgetType)) {
+        return false;
+      }
+    } catch (_) {
+      return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * `when` with the `sliver` condition, when it is missing, inferred from the
+ * argument of the wrapper that receives `${widget}`: a wrap passing it as
+ * `sliver` or in `slivers` is offered for slivers only, other wraps for box
+ * widgets only.
+ */
+export const scopeWrapConditions = (
+  body: Array<string>,
+  when: WrapConditions | undefined
+): WrapConditions => ({
+  sliver: /\bslivers?\s*:\s*(?:<\w+>)?\[?\s*\$\{widget\}/.test(body.join("\n")),
+  ...when,
+});
+
+/**
+ * Expands the `body` of a wrap, a snippet, for [context]: every occurrence
+ * of `${widget}`, `${widgetType}`, `${className}` and `${fileName}` is
+ * replaced with its value, escaped for the snippet. Other placeholders are
+ * kept.
+ */
+export const expandWrapTemplate = (
+  body: Array<string>,
+  context: WrapContext
+): string =>
+  body.join("\n").replace(/\$\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = variables.get(name);
+    return value ? escapeSnippet(value(context)) : placeholder;
+  });
+
+/** Escapes `text` so that a snippet inserts it as it is. */
+const escapeSnippet = (text: string): string =>
+  text.replace(/[\\$}]/g, (char) => `\\${char}`);
@@ -0,0 +1,1152 @@
+import { DartToken, tokenizeDart } from "./dart-tokenizer";
+
+/** A type reference, e.g. `Map<String, List<int>?>?`. */
+export type DartType = {
+  /**
+   * Name of the type, e.g. `Map` or `prefix.User`.
+   * Function and record types keep their source text here.
+   */
+  name: string;
+  args: Array<DartType>;
+  nullable: boolean;
+  /** Normalized source form of the whole type. */
+  text: string;
+};
+
+export type DartAnnotation = {
+  /** Name of the annotation without `@`, e.g. `override` or `JsonKey`. */
+  name: string;
+  /** Source of the arguments without the parentheses, if any. */
+  arguments?: string;
+  text: string;
+  start: number;
+  end: number;
+};
+
+export type DartMemberKind =
+  | "field"
+  | "constructor"
+  | "method"
+  | "getter"
+  | "setter"
+  | "operator";
+
+export type DartMember = {
+  kind: DartMemberKind;
+  name: string;
+  isStatic: boolean;
+  annotations: Array<DartAnnotation>;
+  /** Comments placed directly above the member, as written. */
+  comments: Array<string>;
+  /** Text of the `///` doc comment without the slashes. */
+  docComment?: string;
+  /** Offset of the member including its comments and annotations. */
+  start: number;
+  /** Offset of the declaration itself, after comments and annotations. */
+  declarationStart: number;
+  /** Offset just after the member. */
+  end: number;
+};
+
+export type DartField = DartMember & {
+  kind: "field";
+  /** Undefined for untyped declarations like `final x = 1;`. */
+  type?: DartType;
+  isFinal: boolean;
+  isLate: boolean;
+  isConst: boolean;
+  /** Source of the initializer expression. */
+  defaultValue?: string;
+};
+
+export type DartParameter = {
+  name: string;
+  type?: DartType;
+  isNamed: boolean;
+  /** Positional parameter declared inside `[...]`. */
+  isOptionalPositional: boolean;
+  isRequired: boolean;
+  /** `this.name` parameter. */
+  isInitializingFormal: boolean;
+  /** `super.name` parameter. */
+  isSuper: boolean;
+  defaultValue?: string;
+};
+
+export type DartConstructor = DartMember & {
+  kind: "constructor";
+  /** Name after the dot for named constructors, e.g. `fromMap`. */
+  constructorName?: string;
+  isConst: boolean;
+  isFactory: boolean;
+  parameters: Array<DartParameter>;
+};
+
+export type DartClass = {
+  name: string;
+  /** Class modifiers, e.g. `abstract`, `sealed`, `final`. */
+  modifiers: Array<string>;
+  /** Source of the type parameters including angle brackets. */
+  typeParameters?: string;
+  superclass?: DartType;
+  mixins: Array<DartType>;
+  interfaces: Array<DartType>;
+  annotations: Array<DartAnnotation>;
+  comments: Array<string>;
+  docComment?: string;
+  start: number;
+  declarationStart: number;
+  /** Offset of the opening brace of the class body. */
+  bodyStart: number;
+  /** Offset of the closing brace of the class body. */
+  bodyEnd: number;
+  /** Offset just after the class. */
+  end: number;
+  members: Array<DartMember>;
+  fields: Array<DartField>;
+  constructors: Array<DartConstructor>;
+};
+
+export type DartEnum = {
+  name: string;
+  /** Names of the enum values, in declaration order. */
+  values: Array<string>;
+  mixins: Array<DartType>;
+  interfaces: Array<DartType>;
+  annotations: Array<DartAnnotation>;
+  comments: Array<string>;
+  docComment?: string;
+  start: number;
+  declarationStart: number;
+  /** Offset of the opening brace of the enum body. */
+  bodyStart: number;
+  /** Offset of the closing brace of the enum body. */
+  bodyEnd: number;
+  /** Offset just after the enum. */
+  end: number;
+  /** Members declared after the values of an enhanced enum. */
+  members: Array<DartMember>;
+  fields: Array<DartField>;
+  constructors: Array<DartConstructor>;
+};
+
+export type DartCompilationUnit = {
+  classes: Array<DartClass>;
+  enums: Array<DartEnum>;
+};
+
+const classModifiers = new Set([
+  "abstract",
+  "base",
+  "final",
+  "interface",
+  "sealed",
+  "mixin",
+]);
+
+/** Keywords declaring a type, which cannot be a member of a class. */
+const typeKeywords = new Set(["class", "enum", "typedef", "extension"]);
+
+const memberModifiers = new Set([
+  "external",
+  "static",
+  "const",
+  "final",
+  "late",
+  "var",
+  "covariant",
+  "abstract",
+  "factory",
+]);
+
+/**
+ * Parses class and enum declarations out of Dart source code.
+ * Only declarations are modelled: method bodies and initializers are kept as
+ * source ranges and text, everything that is not a class or an enum is
+ * skipped.
+ */
+export const parseDart = (
+  source: string,
+  tokens: Array<DartToken> = tokenizeDart(source)
+): DartCompilationUnit => new DartParser(source, tokens).parse();
+
+/** Formats a type back to its normalized source form. */
+export const formatDartType = (
+  name: string,
+  args: Array<DartType>,
+  nullable: boolean
+): string =>
+  `${name}${args.length ? `<${args.map((arg) => arg.text).join(", ")}>` : ""}${
+    nullable ? "?" : ""
+  }`;
+
+/** Parses a standalone type, e.g. `List<User>?`. */
+export const parseDartType = (text: string): DartType | undefined => {
+  const parser = new DartParser(text);
+  const result = parser.parseType(0);
+  return result && result.next === parser.tokens.length
+    ? result.type
+    : undefined;
+};
+
+type ParsedType = { type: DartType; next: number };
+
+class DartParser {
+  /** Code tokens, without comments. */
+  public readonly tokens: Array<DartToken> = [];
+  /** Comments placed before the code token with the same index. */
+  private readonly leadingComments: Array<Array<DartToken>> = [];
+
+  constructor(
+    private readonly source: string,
+    tokens: Array<DartToken> = tokenizeDart(source)
+  ) {
+    let pending: Array<DartToken> = [];
+    for (const token of tokens) {
+      if (token.kind !== "comment") {
+        this.tokens.push(token);
+        this.leadingComments.push(pending);
+        pending = [];
+        continue;
+      }
+      const previous = this.tokens[this.tokens.length - 1];
+      const trailing =
+        previous !== undefined &&
+        pending.length === 0 &&
+        !source.substring(previous.end, token.start).includes("\n");
+      if (!trailing) {
+        pending.push(token);
+      }
+    }
+  }
+
+  public parse(): DartCompilationUnit {
+    const classes: Array<DartClass> = [];
+    const enums: Array<DartEnum> = [];
+    let index = 0;
+    while (index < this.tokens.length) {
+      const start = index;
+      const annotations = this.parseAnnotations(index);
+      index = annotations.next;
+
+      const modifiers: Array<string> = [];
+      let keyword = index;
+      while (
+        this.isIdentifier(keyword) &&
+        classModifiers.has(this.text(keyword))
+      ) {
+        modifiers.push(this.text(keyword));
+        keyword++;
+      }
+
+      if (this.text(keyword) === "class" && this.isIdentifier(keyword + 1)) {
+        const parsed = this.parseClass(
+          start,
+          index,
+          keyword,
+          modifiers,
+          annotations.list
+        );
+        if (parsed) {
+          classes.push(parsed.declaration);
+          index = parsed.next;
+          continue;
+        }
+      }
+
+      if (
+        modifiers.length === 0 &&
+        this.text(keyword) === "enum" &&
+        this.isIdentifier(keyword + 1)
+      ) {
+        const parsed = this.parseEnum(start, index, keyword, annotations.list);
+        if (parsed) {
+          enums.push(parsed.declaration);
+          index = parsed.next;
+          continue;
+        }
+      }
+
+      index = Math.max(
+        this.scanDeclaration(index, this.tokens.length).end + 1,
+        start + 1
+      );
+    }
+    return { classes, enums };
+  }
+
+  private parseClass(
+    start: number,
+    declarationStart: number,
+    keyword: number,
+    modifiers: Array<string>,
+    annotations: Array<DartAnnotation>
+  ): { declaration: DartClass; next: number } | undefined {
+    const name = this.text(keyword + 1);
+    let index = keyword + 2;
+
+    let typeParameters: string | undefined;
+    if (this.text(index) === "<") {
+      const close = this.matchAngle(index);
+      if (close < 0) {
+        return undefined;
+      }
+      typeParameters = this.slice(index, close);
+      index = close + 1;
+    }
+
+    let superclass: DartType | undefined;
+    const mixins: Array<DartType> = [];
+    const interfaces: Array<DartType> = [];
+    while (index < this.tokens.length && this.text(index) !== "{") {
+      const clause = this.text(index);
+      if (clause === "extends") {
+        const parsed = this.parseType(index + 1);
+        if (!parsed) {
+          return undefined;
+        }
+        superclass = parsed.type;
+        index = parsed.next;
+      } else if (clause === "with" || clause === "implements") {
+        const target = clause === "with" ? mixins : interfaces;
+        index++;
+        do {
+          if (this.text(index) === ",") {
+            index++;
+          }
+          const parsed = this.parseType(index);
+          if (!parsed) {
+            return undefined;
+          }
+          target.push(parsed.type);
+          index = parsed.next;
+        } while (this.text(index) === ",");
+      } else {
+        return undefined;
+      }
+    }
+
+    if (this.text(index) !== "{") {
+      return undefined;
+    }
+    const bodyStart = index;
+    const bodyEnd = this.matchBracket(bodyStart);
+
+    const members = this.parseMembers(name, bodyStart + 1, bodyEnd);
+
+    const comments = this.commentsBetween(start, declarationStart);
+    const declaration: DartClass = {
+      name,
+      modifiers,
+      typeParameters,
+      superclass,
+      mixins,
+      interfaces,
+      annotations,
+      comments: comments.map((comment) => comment.text),
+      docComment: docComment(comments),
+      start: this.startOf(start),
+      declarationStart: this.tokens[declarationStart].start,
+      bodyStart: this.tokens[bodyStart].start,
+      bodyEnd: this.tokens[bodyEnd]?.start ?? this.source.length,
+      end: this.tokens[bodyEnd]?.end ?? this.source.length,
+      members,
+      fields: members.filter(
+        (member): member is DartField => member.kind === "field"
+      ),
+      constructors: members.filter(
+        (member): member is DartConstructor => member.kind === "constructor"
+      ),
+    };
+    return { declaration, next: bodyEnd + 1 };
+  }
+
+  private parseEnum(
+    start: number,
+    declarationStart: number,
+    keyword: number,
+    annotations: Array<DartAnnotation>
+  ): { declaration: DartEnum; next: number } | undefined {
+    const name = this.text(keyword + 1);
+    let index = keyword + 2;
+    if (this.text(index) === "<") {
+      const close = this.matchAngle(index);
+      if (close < 0) {
+        return undefined;
+      }
+      index = close + 1;
+    }
+
+    const mixins: Array<DartType> = [];
+    const interfaces: Array<DartType> = [];
+    while (index < this.tokens.length && this.text(index) !== "{") {
+      const clause = this.text(index);
+      if (clause !== "with" && clause !== "implements") {
+        return undefined;
+      }
+      const target = clause === "with" ? mixins : interfaces;
+      index++;
+      do {
+        if (this.text(index) === ",") {
+          index++;
+        }
+        const parsed = this.parseType(index);
+        if (!parsed) {
+          return undefined;
+        }
+        target.push(parsed.type);
+        index = parsed.next;
+      } while (this.text(index) === ",");
+    }
+
+    if (this.text(index) !== "{") {
+      return undefined;
+    }
+    const bodyStart = index;
+    const bodyEnd = this.matchBracket(bodyStart);
+
+    // Values, optionally with annotations and constructor arguments, up to
+    // the semicolon that starts the members of an enhanced enum.
+    const values: Array<string> = [];
+    index = bodyStart + 1;
+    while (index < bodyEnd && this.text(index) !== ";") {
+      index = this.parseAnnotations(index).next;
+      if (!this.isIdentifier(index)) {
+        break;
+      }
+      values.push(this.text(index));
+      index++;
+      while (
+        index < bodyEnd &&
+        this.text(index) !== "," &&
+        this.text(index) !== ";"
+      ) {
+        if (this.text(index) === "<") {
+          index = Math.max(this.matchAngle(index), index) + 1;
+        } else if (this.text(index) === "(") {
+          index = this.matchBracket(index) + 1;
+        } else {
+          index++;
+        }
+      }
+      if (this.text(index) === ",") {
+        index++;
+      }
+    }
+
+    const members =
+      this.text(index) === ";"
+        ? this.parseMembers(name, index + 1, bodyEnd)
+        : [];
+
+    const comments = this.commentsBetween(start, declarationStart);
+    const declaration: DartEnum = {
+      name,
+      values,
+      mixins,
+      interfaces,
+      annotations,
+      comments: comments.map((comment) => comment.text),
+      docComment: docComment(comments),
+      start: this.startOf(start),
+      declarationStart: this.tokens[declarationStart].start,
+      bodyStart: this.tokens[bodyStart].start,
+      bodyEnd: this.tokens[bodyEnd]?.start ?? this.source.length,
+      end: this.tokens[bodyEnd]?.end ?? this.source.length,
+      members,
+      fields: members.filter(
+        (member): member is DartField => member.kind === "field"
+      ),
+      constructors: members.filter(
+        (member): member is DartConstructor => member.kind === "constructor"
+      ),
+    };
+    return { declaration, next: bodyEnd + 1 };
+  }
+
+  /**
+   * Parses the members of the type `name` from `from` up to the closing
+   * brace of its body at `to`.
+   */
+  private parseMembers(
+    name: string,
+    from: number,
+    to: number
+  ): Array<DartMember> {
+    const members: Array<DartMember> = [];
+    let index = from;
+    while (index < to) {
+      if (this.text(index) === ";") {
+        index++;
+        continue;
+      }
+      const memberStart = index;
+      const memberAnnotations = this.parseAnnotations(index);
+      const scan = this.scanDeclaration(memberAnnotations.next, to);
+      index = Math.max(scan.end + 1, memberStart + 1);
+      if (this.declaresType(memberAnnotations.next)) {
+        // Types cannot be nested, e.g. a class typed in another class
+        continue;
+      }
+      members.push(
+        ...this.parseMember(
+          name,
+          memberStart,
+          memberAnnotations.next,
+          scan.end,
+          memberAnnotations.list
+        )
+      );
+    }
+    return members;
+  }
+
+  /**
+   * Whether the declaration at `index` declares a type, e.g. `class`,
+   * `sealed class`, `mixin` or `typedef`, rather than a member.
+   */
+  private declaresType(index: number): boolean {
+    let keyword = index;
+    while (
+      this.isIdentifier(keyword) &&
+      classModifiers.has(this.text(keyword))
+    ) {
+      keyword++;
+    }
+    return (
+      typeKeywords.has(this.text(keyword)) ||
+      (keyword > index && this.text(keyword - 1) === "mixin")
+    );
+  }
+
+  /**
+   * Builds the members declared by the tokens from `start` to `end`
+   * (inclusive). A field declaration may declare several fields.
+   */
+  private parseMember(
+    className: string,
+    start: number,
+    declarationStart: number,
+    end: number,
+    annotations: Array<DartAnnotation>
+  ): Array<DartMember> {
+    const comments = this.commentsBetween(start, declarationStart);
+    const base = {
+      isStatic: false,
+      annotations,
+      comments: comments.map((comment) => comment.text),
+      docComment: docComment(comments),
+      start: this.startOf(start),
+      declarationStart:
+        this.tokens[declarationStart]?.start ?? this.source.length,
+      end: this.tokens[end]?.end ?? this.source.length,
+    };
+
+    // Leading modifiers.
+    const modifiers = new Set<string>();
+    let index = declarationStart;
+    while (
+      index <= end &&
+      this.isIdentifier(index) &&
+      memberModifiers.has(this.text(index))
+    ) {
+      modifiers.add(this.text(index));
+      index++;
+    }
+    base.isStatic = modifiers.has("static");
+
+    // Header ends at the first top-level `=`, `=>`, `:`, `{` or `;`.
+    let headerEnd = index;
+    while (
+      headerEnd <= end &&
+      !["=", "=>", ":", "{", ";"].includes(this.text(headerEnd))
+    ) {
+      const text = this.text(headerEnd);
+      if (text === "(" || text === "[") {
+        headerEnd = this.matchBracket(headerEnd);
+      } else if (text === "<") {
+        headerEnd = Math.max(this.matchAngle(headerEnd), headerEnd);
+      }
+      headerEnd++;
+    }
+
+    // Constructors: `Name(`, `Name.named(`.
+    if (
+      this.text(index) === className &&
+      !this.isInTypePosition(index, headerEnd)
+    ) {
+      let constructorName: string | undefined;
+      let open = index + 1;
+      if (this.text(open) === "." && this.isIdentifier(open + 1)) {
+        constructorName = this.text(open + 1);
+        open += 2;
+      }
+      if (this.text(open) === "(") {
+        const constructor: DartConstructor = {
+          ...base,
+          kind: "constructor",
+          name: constructorName ? `${className}.${constructorName}` : className,
+          constructorName,
+          isConst: modifiers.has("const"),
+          isFactory: modifiers.has("factory"),
+          parameters: this.parseParameters(open),
+        };
+        return [constructor];
+      }
+    }
+
+    // Operators, getters and setters.
+    for (let i = index; i < headerEnd; i++) {
+      const text = this.text(i);
+      if (!this.isIdentifier(i)) {
+        continue;
+      }
+      if (
+        text === "operator" &&
+        i + 1 < headerEnd &&
+        !this.isIdentifier(i + 1)
+      ) {
+        let name = "";
+        for (let j = i + 1; j < headerEnd && this.text(j) !== "("; j++) {
+          name += this.text(j);
+        }
+        return [{ ...base, kind: "operator", name }];
+      }
+      if (
+        text === "get" &&
+        this.isIdentifier(i + 1) &&
+        (i + 2 === headerEnd || ["async", "sync"].includes(this.text(i + 2)))
+      ) {
+        return [{ ...base, kind: "getter", name: this.text(i + 1) }];
+      }
+      if (
+        text === "set" &&
+        this.isIdentifier(i + 1) &&
+        this.text(i + 2) === "("
+      ) {
+        return [{ ...base, kind: "setter", name: this.text(i + 1) }];
+      }
+    }
+
+    // Methods: a parameter list preceded by a name.
+    for (let i = index; i < headerEnd; i++) {
+      if (this.text(i) === "<") {
+        i = Math.max(this.matchAngle(i), i);
+        continue;
+      }
+      if (this.text(i) !== "(") {
+        continue;
+      }
+      let nameIndex = i - 1;
+      if (this.text(nameIndex) === ">") {
+        nameIndex = this.matchAngleBackward(nameIndex) - 1;
+      }
+      const name = this.text(nameIndex);
+      if (
+        nameIndex >= index &&
+        this.isIdentifier(nameIndex) &&
+        name !== "Function" &&
+        !memberModifiers.has(name)
+      ) {
+        return [{ ...base, kind: "method", name }];
+      }
+      i = this.matchBracket(i);
+    }
+
+    return this.parseFields(
+      base,
+      modifiers,
+      index,
+      this.text(end) === ";" ? end : end + 1
+    );
+  }
+
+  private parseFields(
+    base: Omit<DartMember, "kind" | "name">,
+    modifiers: Set<string>,
+    index: number,
+    end: number
+  ): Array<DartField> {
+    let type: DartType | undefined;
+    const untyped =
+      this.isIdentifier(index) &&
+      ["=", ",", ";"].includes(this.text(index + 1));
+    if (!untyped) {
+      const parsed = this.parseType(index);
+      if (!parsed) {
+        return [];
+      }
+      type = parsed.type;
+      index = parsed.next;
+    }
+
+    const fields: Array<DartField> = [];
+    while (index < end && this.isIdentifier(index)) {
+      const name = this.text(index);
+      index++;
+      let defaultValue: string | undefined;
+      if (this.text(index) === "=") {
+        const valueEnd = this.findListSeparator(index + 1, end);
+        defaultValue = this.slice(index + 1, valueEnd - 1);
+        index = valueEnd;
+      }
+      fields.push({
+        ...base,
+        kind: "field",
+        name,
+        type,
+        isFinal: modifiers.has("final"),
+        isLate: modifiers.has("late"),
+        isConst: modifiers.has("const"),
+        defaultValue,
+      });
+      if (this.text(index) !== ",") {
+        break;
+      }
+      index++;
+    }
+    return fields;
+  }
+
+  /** Parses the parameter list whose opening parenthesis is at `open`. */
+  private parseParameters(open: number): Array<DartParameter> {
+    const close = this.matchBracket(open);
+    const parameters: Array<DartParameter> = [];
+
+    const parseGroup = (
+      from: number,
+      to: number,
+      isNamed: boolean,
+      isOptionalPositional: boolean
+    ) => {
+      let index = from;
+      while (index < to) {
+        const text = this.text(index);
+        if (text === "{" || text === "[") {
+          const groupEnd = this.matchBracket(index);
+          parseGroup(index + 1, groupEnd, text === "{", text === "[");
+          index = groupEnd + 1;
+          continue;
+        }
+        if (text === ",") {
+          index++;
+          continue;
+        }
+        const end = this.findListSeparator(index, to);
+        const parameter = this.parseParameter(
+          index,
+          end,
+          isNamed,
+          isOptionalPositional
+        );
+        if (parameter) {
+          parameters.push(parameter);
+        }
+        index = end;
+      }
+    };
+
+    parseGroup(open + 1, close, false, false);
+    return parameters;
+  }
+
+  private parseParameter(
+    from: number,
+    to: number,
+    isNamed: boolean,
+    isOptionalPositional: boolean
+  ): DartParameter | undefined {
+    let index = this.parseAnnotations(from).next;
+    let required = false;
+    while (
+      ["required", "covariant", "final", "var", "const"].includes(
+        this.text(index)
+      )
+    ) {
+      if (this.text(index) === "required") {
+        required = true;
+      }
+      index++;
+    }
+
+    let defaultValue: string | undefined;
+    let declarationEnd = to;
+    for (let i = index; i < to; i++) {
+      const text = this.text(i);
+      if (text === "(" || text === "[" || text === "{") {
+        i = this.matchBracket(i);
+        continue;
+      }
+      if (text === "=" || (text === ":" && isNamed)) {
+        defaultValue = this.slice(i + 1, to - 1);
+        declarationEnd = i;
+        break;
+      }
+    }
+
+    const isFormal = (i: number) =>
+      ["this", "super"].includes(this.text(i)) && this.text(i + 1) === ".";
+
+    let type: DartType | undefined;
+    if (!isFormal(index) && declarationEnd - index > 1) {
+      const parsed = this.parseType(index);
+      if (parsed && parsed.next < declarationEnd) {
+        type = parsed.type;
+        index = parsed.next;
+      }
+    }
+    const keyword = isFormal(index) ? this.text(index) : undefined;
+    if (keyword) {
+      index += 2;
+    }
+    if (!this.isIdentifier(index)) {
+      return undefined;
+    }
+
+    return {
+      name: this.text(index),
+      type,
+      isNamed,
+      isOptionalPositional,
+      isRequired: required || (!isNamed && !isOptionalPositional),
+      isInitializingFormal: keyword === "this",
+      isSuper: keyword === "super",
+      defaultValue,
+    };
+  }
+
+  /** Parses a type starting at `index`. */
+  public parseType(index: number): ParsedType | undefined {
+    const start = index;
+    let parsed: ParsedType;
+
+    if (this.text(index) === "(") {
+      // Record type.
+      const close = this.matchBracket(index);
+      index = close + 1;
+      const nullable = this.text(index) === "?";
+      if (nullable) {
+        index++;
+      }
+      const text = this.slice(start, index - 1);
+      parsed = {
+        type: { name: text.replace(/\?$/, ""), args: [], nullable, text },
+        next: index,
+      };
+    } else {
+      if (!this.isIdentifier(index)) {
+        return undefined;
+      }
+      let name = this.text(index);
+      index++;
+      while (this.text(index) === "." && this.isIdentifier(index + 1)) {
+        name += `.${this.text(index + 1)}`;
+        index += 2;
+      }
+      const args: Array<DartType> = [];
+      if (this.text(index) === "<") {
+        index++;
+        while (this.text(index) !== ">") {
+          const arg = this.parseType(index);
+          if (!arg) {
+            return undefined;
+          }
+          args.push(arg.type);
+          index = arg.next;
+          if (this.text(index) === ",") {
+            index++;
+          } else if (this.text(index) !== ">") {
+            return undefined;
+          }
+        }
+        index++;
+      }
+      if (name === "Function" && this.text(index) === "(") {
+        return this.parseFunctionType(start, index);
+      }
+      const nullable = this.text(index) === "?";
+      if (nullable) {
+        index++;
+      }
+      parsed = {
+        type: {
+          name,
+          args,
+          nullable,
+          text: formatDartType(name, args, nullable),
+        },
+        next: index,
+      };
+    }
+
+    // Function type, e.g. `void Function(int)`.
+    if (this.text(parsed.next) === "Function") {
+      return this.parseFunctionType(start, parsed.next + 1);
+    }
+    return parsed;
+  }
+
+  private parseFunctionType(
+    start: number,
+    index: number
+  ): ParsedType | undefined {
+    if (this.text(index) === "<") {
+      const close = this.matchAngle(index);
+      if (close < 0) {
+        return undefined;
+      }
+      index = close + 1;
+    }
+    if (this.text(index) !== "(") {
+      return undefined;
+    }
+    index = this.matchBracket(index) + 1;
+    const nullable = this.text(index) === "?";
+    if (nullable) {
+      index++;
+    }
+    const text = this.slice(start, index - 1);
+    return {
+      type: {
+        name: nullable ? text.slice(0, -1) : text,
+        args: [],
+        nullable,
+        text,
+      },
+      next: index,
+    };
+  }
+
+  private parseAnnotations(index: number): {
+    list: Array<DartAnnotation>;
+    next: number;
+  } {
+    const list: Array<DartAnnotation> = [];
+    while (this.text(index) === "@" && this.isIdentifier(index + 1)) {
+      const start = index;
+      let name = this.text(index + 1);
+      index += 2;
+      while (this.text(index) === "." && this.isIdentifier(index + 1)) {
+        name += `.${this.text(index + 1)}`;
+        index += 2;
+      }
+      let args: string | undefined;
+      if (
+        this.text(index) === "(" &&
+        this.tokens[index].start === this.tokens[index - 1].end
+      ) {
+        const close = this.matchBracket(index);
+        args = this.slice(index + 1, close - 1);
+        index = close + 1;
+      }
+      list.push({
+        name,
+        arguments: args,
+        text: this.slice(start, index - 1),
+        start: this.tokens[start].start,
+        end: this.tokens[index - 1].end,
+      });
+    }
+    return { list, next: index };
+  }
+
+  /**
+   * Finds the last token of the declaration starting at `index`, never going
+   * beyond `limit`. A declaration ends with a `;` or with a block body.
+   * Braces after `=` or `=>` belong to the expression (map literals,
+   * closures), braces after a constructor initializer list start the body
+   * unless they open a literal.
+   */
+  private scanDeclaration(index: number, limit: number): { end: number } {
+    let mode: "header" | "expression" | "initializer" = "header";
+    for (let i = index; i < limit; i++) {
+      const text = this.text(i);
+      const kind = this.tokens[i].kind;
+      if (kind === "identifier" && text === "operator") {
+        // Skip the operator symbol, e.g. `[]=` or `==`.
+        while (i + 1 < limit && this.text(i + 1) !== "(") {
+          i++;
+        }
+        continue;
+      }
+      if (kind !== "punctuation") {
+        continue;
+      }
+      if (text === "(" || text === "[") {
+        i = Math.min(this.matchBracket(i), limit);
+        continue;
+      }
+      if (text === "{") {
+        const close = this.matchBracket(i);
+        if (mode === "header") {
+          return { end: Math.min(close, limit) };
+        }
+        if (mode === "initializer" && this.endsExpression(i - 1)) {
+          return { end: Math.min(close, limit) };
+        }
+        i = Math.min(close, limit);
+        continue;
+      }
+      if (text === ";") {
+        return { end: i };
+      }
+      if (text === "}") {
+        return { end: i - 1 };
+      }
+      if ((text === "=" || text === "=>") && mode === "header") {
+        mode = "expression";
+      }
+      if (text === ":" && mode === "header") {
+        mode = "initializer";
+      }
+    }
+    return { end: limit - 1 };
+  }
+
+  private endsExpression(index: number): boolean {
+    const token = this.tokens[index];
+    if (!token) {
+      return false;
+    }
+    if (token.kind === "identifier") {
+      return !["const", "new"].includes(token.text);
+    }
+    if (token.kind === "string" || token.kind === "number") {
+      return true;
+    }
+    return [")", "]", "}"].includes(token.text);
+  }
+
+  /**
+   * Returns the index of the `,` ending the list element starting at
+   * `index`, or `limit`.
+   */
+  private findListSeparator(index: number, limit: number): number {
+    for (let i = index; i < limit; i++) {
+      const text = this.text(i);
+      if (text === "(" || text === "[" || text === "{") {
+        i = this.matchBracket(i);
+      } else if (text === "<") {
+        i = Math.max(this.matchAngle(i), i);
+      } else if (text === ",") {
+        return i;
+      }
+    }
+    return limit;
+  }
+
+  /** Returns the index of the bracket closing the one at `index`. */
+  private matchBracket(index: number): number {
+    const stack: Array<string> = [];
+    const pairs: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+    for (let i = index; i < this.tokens.length; i++) {
+      const text = this.text(i);
+      if (this.tokens[i].kind !== "punctuation") {
+        continue;
+      }
+      if (pairs[text]) {
+        stack.push(pairs[text]);
+      } else if (text === ")" || text === "]" || text === "}") {
+        while (stack.length && stack[stack.length - 1] !== text) {
+          stack.pop();
+        }
+        stack.pop();
+        if (stack.length === 0) {
+          return i;
+        }
+      }
+    }
+    return this.tokens.length;
+  }
+
+  /**
+   * Returns the index of the `>` closing the type argument list at
+   * `index`, or -1 when the `<` is not a type argument list.
+   */
+  private matchAngle(index: number): number {
+    let depth = 0;
+    for (let i = index; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      const text = token.text;
+      if (text === "<") {
+        depth++;
+      } else if (text === ">") {
+        depth--;
+        if (depth === 0) {
+          return i;
+        }
+      } else if (text === "(" || text === "{" || text === "[") {
+        i = this.matchBracket(i);
+      } else if (
+        token.kind !== "identifier" &&
+        ![",", "?", "."].includes(text)
+      ) {
+        return -1;
+      }
+    }
+    return -1;
+  }
+
+  private matchAngleBackward(index: number): number {
+    let depth = 0;
+    for (let i = index; i >= 0; i--) {
+      const text = this.text(i);
+      if (text === ">") {
+        depth++;
+      } else if (text === "<") {
+        depth--;
+        if (depth === 0) {
+          return i;
+        }
+      }
+    }
+    return index;
+  }
+
+  /**
+   * Whether the identifier at `index` is followed by another type or name
+   * in the header, which means it is a type (e.g. a field `User user;`).
+   */
+  private isInTypePosition(index: number, headerEnd: number): boolean {
+    const next = this.text(index + 1);
+    return next !== "(" && next !== "." && index + 1 < headerEnd;
+  }
+
+  private commentsBetween(from: number, to: number): Array<DartToken> {
+    const comments: Array<DartToken> = [];
+    for (let i = from; i <= to && i < this.leadingComments.length; i++) {
+      comments.push(...this.leadingComments[i]);
+    }
+    return comments;
+  }
+
+  private startOf(index: number): number {
+    const comments = this.leadingComments[index] ?? [];
+    return comments.length
+      ? comments[0].start
+      : this.tokens[index]?.start ?? this.source.length;
+  }
+
+  private slice(from: number, to: number): string {
+    if (from > to || !this.tokens[from]) {
+      return "";
+    }
+    const end = this.tokens[Math.min(to, this.tokens.length - 1)].end;
+    return this.source.substring(this.tokens[from].start, end).trim();
+  }
+
+  private text(index: number): string {
+    return this.tokens[index]?.text ?? "";
+  }
+
+  private isIdentifier(index: number): boolean {
+    return this.tokens[index]?.kind === "identifier";
+  }
+}
+
+const docComment = (comments: Array<DartToken>): string | undefined => {
+  const lines = comments
+    .filter((comment) => comment.text.startsWith("///"))
+    .map((comment) => comment.text.replace(/^\/\/\/ ?/, ""));
+  return lines.length ? lines.join("\n") : undefined;
+};
@@ -0,0 +1,250 @@
+export type DartTokenKind =
+  | "identifier"
+  | "number"
+  | "string"
+  | "punctuation"
+  | "comment";
+
+export type DartToken = {
+  kind: DartTokenKind;
+  text: string;
+  /** Offset of the first character of the token in the source. */
+  start: number;
+  /** Offset just after the last character of the token in the source. */
+  end: number;
+};
+
+/** Multi-character operators, longest first. */
+const operators = [
+  "...?",
+  "??=",
+  "...",
+  "=>",
+  "==",
+  "!=",
+  "<=",
+  "??",
+  "?.",
+  "..",
+  "&&",
+  "||",
+  "++",
+  "--",
+  "+=",
+  "-=",
+  "*=",
+  "/=",
+];
+
+const isIdentifierStart = (char: string) => /[A-Za-z_$]/.test(char);
+const isIdentifierPart = (char: string) => /[A-Za-z0-9_$]/.test(char);
+const isDigit = (char: string) => /[0-9]/.test(char);
+
+/**
+ * Splits Dart source code into tokens.
+ * String literals (including raw, triple-quoted and interpolated ones) are
+ * returned as a single token, so their content never leaks into the
+ * structure of the code. Comments are kept as tokens, whitespace is dropped.
+ * Closing angle brackets are always emitted one by one (`>>` is two tokens)
+ * to simplify matching of nested type arguments.
+ */
+export const tokenizeDart = (source: string): DartToken[] => {
+  const tokens: DartToken[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source.charAt(index);
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+
+    // Comments
+    if (char === "/" && source.charAt(index + 1) === "/") {
+      const lineEnd = source.indexOf("\n", index);
+      index = lineEnd < 0 ? source.length : lineEnd;
+      tokens.push(token("comment", source, start, index));
+      continue;
+    }
+    if (char === "/" && source.charAt(index + 1) === "*") {
+      index = skipBlockComment(source, index);
+      tokens.push(token("comment", source, start, index));
+      continue;
+    }
+
+    // Strings, optionally raw
+    if (
+      (char === "r" || char === "R") &&
+      (source.charAt(index + 1) === "'" || source.charAt(index + 1) === '"')
+    ) {
+      index = skipString(source, index + 1, true);
+      tokens.push(token("string", source, start, index));
+      continue;
+    }
+    if (char === "'" || char === '"') {
+      index = skipString(source, index, false);
+      tokens.push(token("string", source, start, index));
+      continue;
+    }
+
+    if (isIdentifierStart(char)) {
+      while (index < source.length && isIdentifierPart(source.charAt(index))) {
+        index++;
+      }
+      tokens.push(token("identifier", source, start, index));
+      continue;
+    }
+
+    if (isDigit(char) || (char === "." && isDigit(source.charAt(index + 1)))) {
+      index = skipNumber(source, index);
+      tokens.push(token("number", source, start, index));
+      continue;
+    }
+
+    const operator = operators.find((op) => source.startsWith(op, index));
+    index += operator ? operator.length : 1;
+    tokens.push(token("punctuation", source, start, index));
+  }
+
+  return tokens;
+};
+
+/**
+ * Returns the offset just after the block comment starting at `index`.
+ * Dart block comments nest.
+ */
+const skipBlockComment = (source: string, index: number): number => {
+  let depth = 0;
+  while (index < source.length) {
+    if (source.startsWith("/*", index)) {
+      depth++;
+      index += 2;
+    } else if (source.startsWith("*/", index)) {
+      depth--;
+      index += 2;
+      if (depth === 0) {
+        return index;
+      }
+    } else {
+      index++;
+    }
+  }
+  return source.length;
+};
+
+/**
+ * Returns the offset just after the string literal whose opening quote is
+ * at `index`. Interpolations (`${...}`) are skipped with their own nested
+ * strings and braces.
+ */
+const skipString = (source: string, index: number, raw: boolean): number => {
+  const quote = source.charAt(index);
+  const triple = source.startsWith(quote.repeat(3), index);
+  const delimiter = triple ? quote.repeat(3) : quote;
+  index += delimiter.length;
+
+  while (index < source.length) {
+    const char = source.charAt(index);
+    if (source.startsWith(delimiter, index)) {
+      return index + delimiter.length;
+    }
+    if (!triple && char === "\n") {
+      return index;
+    }
+    if (!raw && char === "\\") {
+      index += 2;
+      continue;
+    }
+    if (!raw && char === "$" && source.charAt(index + 1) === "{") {
+      index = skipInterpolation(source, index + 2);
+      continue;
+    }
+    index++;
+  }
+  return source.length;
+};
+
+/**
+ * Returns the offset just after the `}` closing the interpolation whose
+ * expression starts at `index`.
+ */
+const skipInterpolation = (source: string, index: number): number => {
+  let depth = 1;
+  while (index < source.length) {
+    const char = source.charAt(index);
+    if (char === "'" || char === '"') {
+      index = skipString(source, index, false);
+      continue;
+    }
+    if (
+      (char === "r" || char === "R") &&
+      (source.charAt(index + 1) === "'" || source.charAt(index + 1) === '"') &&
+      !isIdentifierPart(source.charAt(index - 1))
+    ) {
+      index = skipString(source, index + 1, true);
+      continue;
+    }
+    if (source.startsWith("//", index)) {
+      const lineEnd = source.indexOf("\n", index);
+      index = lineEnd < 0 ? source.length : lineEnd;
+      continue;
+    }
+    if (source.startsWith("/*", index)) {
+      index = skipBlockComment(source, index);
+      continue;
+    }
+    if (char === "{") {
+      depth++;
+    }
+    if (char === "}") {
+      depth--;
+      if (depth === 0) {
+        return index + 1;
+      }
+    }
+    index++;
+  }
+  return source.length;
+};
+
+const skipNumber = (source: string, index: number): number => {
+  if (source.startsWith("0x", index) || source.startsWith("0X", index)) {
+    index += 2;
+    while (index < source.length && /[0-9A-Fa-f_]/.test(source.charAt(index))) {
+      index++;
+    }
+    return index;
+  }
+  while (index < source.length && /[0-9_]/.test(source.charAt(index))) {
+    index++;
+  }
+  if (source.charAt(index) === "." && isDigit(source.charAt(index + 1))) {
+    index++;
+    while (index < source.length && /[0-9_]/.test(source.charAt(index))) {
+      index++;
+    }
+  }
+  if (/[eE]/.test(source.charAt(index))) {
+    let next = index + 1;
+    if (/[+-]/.test(source.charAt(next))) {
+      next++;
+    }
+    if (isDigit(source.charAt(next))) {
+      index = next;
+      while (index < source.length && isDigit(source.charAt(index))) {
+        index++;
+      }
+    }
+  }
+  return index;
+};
+
+const token = (
+  kind: DartTokenKind,
+  source: string,
+  start: number,
+  end: number
+): DartToken => ({ kind, text: source.substring(start, end), start, end });
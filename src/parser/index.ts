@@ -0,0 +1,3 @@
+export * from "./dart-parser";
+export * from "./dart-tokenizer";
+export * from "./widget-range";
@@ -0,0 +1,546 @@
+import { DartToken, tokenizeDart } from "./dart-tokenizer";
+
+/** An expression that can be wrapped with another widget. */
+export type WidgetRange = {
+  /**
+   * Name of the constructor or function, e.g. `Padding.symmetric`, or the
+   * expression itself when it is not a call, e.g. `widget.child`.
+   */
+  name: string;
+  /** Offset of the first character, including a `const` or `new` keyword. */
+  start: number;
+  /** Offset just after the closing parenthesis of the call. */
+  end: number;
+};
+
+/** A call found in the source, `name<T>(...)`. */
+type Call = WidgetRange & {
+  /** Offset just after the opening parenthesis of the arguments. */
+  headEnd: number;
+  /**
+   * Whether the name contains a class name, e.g. `Padding.symmetric`, so
+   * the call creates an object.
+   */
+  isConstructor: boolean;
+};
+
+/**
+ * Finds the widget at the selection from `start` to `end` in [source]:
+ *
+ * - the call whose name, type arguments or opening parenthesis contain
+ *   `start`, e.g. the cursor on `Padding.symmetric(` or `_buildHeader(`;
+ * - the expression at `start` when it is a dotted name, e.g. `widget.child`;
+ * - otherwise the innermost constructor call containing the selection, even
+ *   when it starts on an earlier line, e.g. the cursor on a named argument.
+ *
+ * Strings and comments are skipped, so parentheses inside them, closures
+ * and type arguments do not change the range.
+ * `allTokens` are the tokens of `source`, when they are already known.
+ */
+export const findWidgetRange = (
+  source: string,
+  start: number,
+  end: number = start,
+  allTokens: Array<DartToken> = tokenizeDart(source)
+): WidgetRange | undefined => {
+  const tokens = allTokens.filter(
+    (token) => token.kind !== "comment"
+  );
+  const calls = findCalls(tokens);
+  const atHead = calls.find(
+    (call) => call.start <= start && start <= call.headEnd && end <= call.end
+  );
+  if (atHead) {
+    return { name: atHead.name, start: atHead.start, end: atHead.end };
+  }
+  const name = findName(source, tokens, start, end);
+  if (name) {
+    return name;
+  }
+  const enclosing = calls
+    .filter(
+      (call) => call.isConstructor && call.start <= start && end <= call.end
+    )
+    .sort((a, b) => a.end - a.start - (b.end - b.start))[0];
+  return (
+    enclosing && {
+      name: enclosing.name,
+      start: enclosing.start,
+      end: enclosing.end,
+    }
+  );
+};
+
+/**
+ * Finds the dotted name used as an expression at `start`, e.g.
+ * `widget.child`. Names of declarations, calls and named arguments are
+ * not expressions.
+ */
+const findName = (
+  source: string,
+  tokens: Array<DartToken>,
+  start: number,
+  end: number
+): WidgetRange | undefined => {
+  const index = tokens.findIndex(
+    (token) => token.start <= start && start <= token.end
+  );
+  if (index < 0 || tokens[index].kind !== "identifier") {
+    return;
+  }
+  const [first, last] = identifierChain(tokens, index);
+  const before = tokens[first - 1];
+  const after = tokens[last + 1]?.text;
+  if (
+    end > tokens[last].end ||
+    keywords.has(tokens[first].text) ||
+    (before?.kind === "identifier" && !expressionKeywords.has(before.text)) ||
+    after === "(" ||
+    after === "<" ||
+    after === ":"
+  ) {
+    return;
+  }
+  return {
+    name: source.substring(tokens[first].start, tokens[last].end),
+    start: tokens[first].start,
+    end: tokens[last].end,
+  };
+};
+
+/** Keywords that are never the name of a call or a widget. */
+const keywords = new Set([
+  "if",
+  "for",
+  "while",
+  "switch",
+  "catch",
+  "return",
+  "assert",
+  "super",
+  "this",
+  "const",
+  "new",
+  "final",
+  "var",
+  "true",
+  "false",
+  "null",
+]);
+
+/** Keywords that may precede an expression. */
+const expressionKeywords = new Set([
+  "return",
+  "await",
+  "yield",
+  "throw",
+  "else",
+  "in",
+  "case",
+  "const",
+  "new",
+]);
+
+const memberAccess = new Set([".", "?.", ".."]);
+
+/**
+ * Finds every call in [tokens]: a dotted name with optional type
+ * arguments followed by parenthesized arguments.
+ */
+const findCalls = (tokens: Array<DartToken>): Array<Call> => {
+  const calls: Array<Call> = [];
+  const open: Array<number> = [];
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].text === "(") {
+      open.push(i);
+      continue;
+    }
+    if (tokens[i].text !== ")" || open.length === 0) {
+      continue;
+    }
+    const paren = open.pop()!;
+    let nameEnd = paren - 1;
+    if (tokens[nameEnd]?.text === ">") {
+      const typeArguments = matchTypeArguments(tokens, nameEnd);
+      if (typeArguments === nameEnd) {
+        continue;
+      }
+      nameEnd = typeArguments - 1;
+    }
+    if (
+      tokens[nameEnd]?.kind !== "identifier" ||
+      keywords.has(tokens[nameEnd].text)
+    ) {
+      continue;
+    }
+    let [first] = identifierChain(tokens, nameEnd);
+    // A call on the result of an expression, e.g. `.copyWith(` after `)`.
+    if (
+      keywords.has(tokens[first].text) ||
+      memberAccess.has(tokens[first - 1]?.text)
+    ) {
+      continue;
+    }
+    // A declaration, e.g. `Widget build(...) {`, is not a call.
+    const before = tokens[first - 1];
+    const after = tokens[i + 1]?.text;
+    if (
+      (before?.kind === "identifier" && !expressionKeywords.has(before.text)) ||
+      before?.text === ">" ||
+      after === "{" ||
+      after === "=>" ||
+      after === "async"
+    ) {
+      continue;
+    }
+    const name = tokens
+      .slice(first, nameEnd + 1)
+      .map((token) => token.text)
+      .join("");
+    if (before?.text === "const" || before?.text === "new") {
+      first--;
+    }
+    calls.push({
+      name,
+      start: tokens[first].start,
+      end: tokens[i].end,
+      headEnd: tokens[paren].end,
+      isConstructor: name.split(".").some((part) => /^_?[A-Z]/.test(part)),
+    });
+  }
+  return calls;
+};
+
+/**
+ * Returns the indices of the first and last token of the dotted name
+ * `a.b.c` containing the identifier at `index`.
+ */
+const identifierChain = (
+  tokens: Array<DartToken>,
+  index: number
+): [number, number] => {
+  let first = index;
+  while (
+    tokens[first - 1]?.text === "." &&
+    tokens[first - 2]?.kind === "identifier"
+  ) {
+    first -= 2;
+  }
+  let last = index;
+  while (
+    tokens[last + 1]?.text === "." &&
+    tokens[last + 2]?.kind === "identifier"
+  ) {
+    last += 2;
+  }
+  return [first, last];
+};
+
+/**
+ * Returns the index of the `<` matching the `>` at `index`, or `index`
+ * when the brackets are not type arguments.
+ */
+const matchTypeArguments = (
+  tokens: Array<DartToken>,
+  index: number
+): number => {
+  let depth = 0;
+  for (let i = index; i >= 0; i--) {
+    const text = tokens[i].text;
+    if (text === ">") {
+      depth++;
+    } else if (text === "<") {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    } else if (
+      tokens[i].kind !== "identifier" &&
+      text !== "," &&
+      text !== "?" &&
+      text !== "."
+    ) {
+      return index;
+    }
+  }
+  return index;
+};
+
+/** An argument of a call, e.g. `child: Text('a')`. */
+export type DartArgument = {
+  /** Name of a named argument. */
+  name?: string;
+  start: number;
+  end: number;
+  /** Offset of the value, after the name of a named argument. */
+  valueStart: number;
+};
+
+/**
+ * Returns the arguments of the call `widget` in `source`, or undefined
+ * when it is not a call.
+ */
+export const findWidgetArguments = (
+  source: string,
+  widget: WidgetRange,
+  allTokens: Array<DartToken> = tokenizeDart(source.substring(0, widget.end))
+): Array<DartArgument> | undefined => {
+  const tokens = allTokens.filter(
+    (token) =>
+      token.kind !== "comment" &&
+      token.start >= widget.start &&
+      token.end <= widget.end
+  );
+  // The arguments start at the first parenthesis after the type arguments.
+  let angles = 0;
+  const open = tokens.findIndex((token) => {
+    if (token.text === "<") {
+      angles++;
+    } else if (token.text === ">") {
+      angles--;
+    }
+    return angles === 0 && token.text === "(";
+  });
+  if (open < 0 || matchBracket(tokens, open) !== tokens.length - 1) {
+    return;
+  }
+  return splitTopLevel(tokens, open + 1, tokens.length - 1).map(
+    ([first, last]) => {
+      const named =
+        tokens[first].kind === "identifier" &&
+        tokens[first + 1]?.text === ":" &&
+        first + 1 < last;
+      return {
+        name: named ? tokens[first].text : undefined,
+        start: tokens[first].start,
+        end: tokens[last].end,
+        valueStart: tokens[named ? first + 2 : first].start,
+      };
+    }
+  );
+};
+
+/** Names of the arguments holding the widget inside a wrapper. */
+const childArguments = ["child", "sliver", "builder"];
+
+/**
+ * Finds the widget wrapped by `wrapper` in [source]: the value of its
+ * `child` or `sliver` argument, or the widget returned by its `builder`,
+ * either with `=>` or with a body made of a single `return` statement.
+ */
+export const findWrappedWidget = (
+  source: string,
+  wrapper: WidgetRange,
+  allTokens: Array<DartToken> = tokenizeDart(source.substring(0, wrapper.end))
+): { start: number; end: number } | undefined => {
+  const argument = findWidgetArguments(source, wrapper, allTokens)?.find(
+    ({ name }) => name && childArguments.includes(name)
+  );
+  if (!argument) {
+    return;
+  }
+  const value = { start: argument.valueStart, end: argument.end };
+  if (argument.name !== "builder") {
+    return value;
+  }
+
+  const tokens = allTokens.filter(
+    (token) =>
+      token.kind !== "comment" &&
+      token.start >= value.start &&
+      token.end <= value.end
+  );
+  if (tokens[0]?.text !== "(") {
+    return;
+  }
+  const body = matchBracket(tokens, 0) + 1;
+  if (tokens[body]?.text === "=>" && body + 1 < tokens.length) {
+    return {
+      start: tokens[body + 1].start,
+      end: value.end,
+    };
+  }
+  const last = tokens.length - 1;
+  if (
+    tokens[body]?.text === "{" &&
+    matchBracket(tokens, body) === last &&
+    tokens[body + 1]?.text === "return" &&
+    tokens[last - 1].text === ";" &&
+    splitStatements(tokens, body + 1, last) === 1 &&
+    body + 2 < last - 1
+  ) {
+    return {
+      start: tokens[body + 2].start,
+      end: tokens[last - 2].end,
+    };
+  }
+  return;
+};
+
+/** Elements of a list literal passed as a named argument, e.g. `children`. */
+export type WidgetSiblings = {
+  /** Name of the argument, e.g. `children` or `slivers`. */
+  name: string;
+  elements: Array<{ start: number; end: number }>;
+  /** Index of the element containing the widget. */
+  index: number;
+};
+
+/**
+ * Finds the list of widgets containing `widget` in `source`, e.g. the
+ * `children` of a `Column`.
+ */
+export const findWidgetSiblings = (
+  source: string,
+  widget: WidgetRange,
+  allTokens: Array<DartToken> = tokenizeDart(source)
+): WidgetSiblings | undefined => {
+  const tokens = allTokens.filter(
+    (token) => token.kind !== "comment"
+  );
+  let depth = 0;
+  let open = tokens.findIndex((token) => token.start >= widget.start);
+  while (--open >= 0) {
+    const text = tokens[open].text;
+    if (text === ")" || text === "]" || text === "}") {
+      depth++;
+    } else if (text === "(" || text === "{") {
+      if (depth-- === 0) {
+        return;
+      }
+    } else if (text === "[" && depth-- === 0) {
+      break;
+    }
+  }
+  // The list may be typed, e.g. `children: <Widget>[...]`
+  let colon = open - 1;
+  if (tokens[colon]?.text === ">") {
+    colon = matchTypeArguments(tokens, colon);
+    if (colon === open - 1) {
+      return;
+    }
+    colon--;
+  }
+  if (
+    open < 1 ||
+    tokens[colon]?.text !== ":" ||
+    tokens[colon - 1]?.kind !== "identifier"
+  ) {
+    return;
+  }
+
+  const elements = splitTopLevel(
+    tokens,
+    open + 1,
+    matchBracket(tokens, open)
+  ).map(([first, last]) => ({
+    start: tokens[first].start,
+    end: tokens[last].end,
+  }));
+  const index = elements.findIndex(
+    (element) => element.start <= widget.start && widget.end <= element.end
+  );
+  return index < 0
+    ? undefined
+    : { name: tokens[colon - 1].text, elements, index };
+};
+
+const closingBrackets = new Map([
+  ["(", ")"],
+  ["[", "]"],
+  ["{", "}"],
+]);
+
+/**
+ * Returns the index of the bracket closing the one at `index`, or the
+ * index of the last token when it is not closed.
+ */
+const matchBracket = (tokens: Array<DartToken>, index: number): number => {
+  const stack: Array<string> = [];
+  for (let i = index; i < tokens.length; i++) {
+    const text = tokens[i].text;
+    const closing = closingBrackets.get(text);
+    if (closing) {
+      stack.push(closing);
+    } else if (text === stack[stack.length - 1]) {
+      stack.pop();
+      if (stack.length === 0) {
+        return i;
+      }
+    }
+  }
+  return tokens.length - 1;
+};
+
+/**
+ * Returns the index of the `>` closing the type arguments opened by the
+ * `<` at `index`, e.g. in `BlocBuilder<ABloc, AState>(` or `<Widget>[`,
+ * or undefined when the `<` is a comparison.
+ */
+const closeTypeArguments = (
+  tokens: Array<DartToken>,
+  index: number
+): number | undefined => {
+  let angles = 0;
+  for (let i = index; i < tokens.length; i++) {
+    const { kind, text } = tokens[i];
+    if (text === "<") {
+      angles++;
+    } else if (text === ">") {
+      if (--angles === 0) {
+        // Type arguments are followed by a call, a literal or a member
+        return ["(", "[", "{", "."].includes(tokens[i + 1]?.text ?? "")
+          ? i
+          : undefined;
+      }
+    } else if (kind !== "identifier" && ![",", ".", "?"].includes(text)) {
+      return undefined;
+    }
+  }
+  return undefined;
+};
+
+/** Counts the top-level statements between `from` and `to` (exclusive). */
+const splitStatements = (
+  tokens: Array<DartToken>,
+  from: number,
+  to: number
+): number => {
+  let count = 0;
+  for (let i = from; i < to; i++) {
+    if (tokens[i].text === ";") {
+      count++;
+    } else if (closingBrackets.has(tokens[i].text)) {
+      i = matchBracket(tokens, i);
+    }
+  }
+  return count;
+};
+
+/**
+ * Splits the tokens from `from` to `to` (exclusive) at the top-level
+ * commas and returns the indices of the first and last token of each
+ * part. A trailing comma does not add an empty part.
+ */
+const splitTopLevel = (
+  tokens: Array<DartToken>,
+  from: number,
+  to: number
+): Array<[number, number]> => {
+  const parts: Array<[number, number]> = [];
+  let first = from;
+  for (let i = from; i <= to; i++) {
+    if (i === to || tokens[i].text === ",") {
+      if (i > first) {
+        parts.push([first, i - 1]);
+      }
+      first = i + 1;
+    } else if (closingBrackets.has(tokens[i].text)) {
+      i = matchBracket(tokens, i);
+    } else if (tokens[i].text === "<") {
+      // The commas of type arguments do not separate parts
+      i = closeTypeArguments(tokens, i) ?? i;
+    }
+  }
+  return parts;
+};
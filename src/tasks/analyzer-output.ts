@@ -0,0 +1,126 @@
+import * as path from "path";
+
+/** A problem reported by the analyzer, the compiler or `build_runner`. */
+export type AnalyzerProblem = {
+  /** Absolute path of the file. */
+  file: string;
+  /** 1-based line. */
+  line: number;
+  /** 1-based column. */
+  column: number;
+  /** Number of characters, when reported. */
+  length?: number;
+  severity: "error" | "warning" | "info";
+  message: string;
+  /** Name of the diagnostic, e.g. `undefined_identifier`. */
+  code?: string;
+};
+
+type Severity = AnalyzerProblem["severity"];
+
+const severities = new Map<string, Severity>([
+  ["error", "error"],
+  ["severe", "error"],
+  ["warning", "warning"],
+  ["info", "info"],
+  ["hint", "info"],
+  ["lint", "info"],
+]);
+
+/** `error - lib/main.dart:3:5 - Undefined name 'x'. - undefined_identifier` */
+const dartAnalyze =
+  /^\s*(error|warning|info)\s+-\s+(.+?):(\d+):(\d+)\s+-\s+(.+?)(?:\s+-\s+([a-z0-9_]+))?\s*$/;
+/** `error • Undefined name 'x' • lib/main.dart:3:5 • undefined_identifier` */
+const bulletAnalyze =
+  /^\s*(error|warning|info|hint|lint)\s+•\s+(.+?)\s+•\s+(.+?):(\d+):(\d+)\s+•\s+([a-z0-9_]+)\s*$/;
+/**
+ * `ERROR|COMPILE_TIME_ERROR|UNDEFINED_IDENTIFIER|/app/lib/main.dart|3|5|1|Undefined name 'x'.`
+ */
+const machineAnalyze =
+  /^(ERROR|WARNING|INFO)\|\w+\|(\w+)\|(.+?)\|(\d+)\|(\d+)\|(\d+)\|(.*)$/;
+/** `lib/main.dart:3:5: Error: Undefined name 'x'.` */
+const compiler = /^(.+?\.dart):(\d+):(\d+): (Error|Warning|Info): (.+)$/;
+/** `[SEVERE] json_serializable on lib/user.dart:` */
+const buildStep = /^\[(SEVERE|WARNING)\] (\S+) on (.+?):\s*$/;
+/** `package:app/user.dart:12:18`, the location in a build step message. */
+const packageLocation = /^package:[\w]+\/(.+?\.dart):(\d+):(\d+)$/;
+
+/**
+ * Reads the problems in the `output` of `dart analyze`, in its default or
+ * machine format, of the compiler and of `build_runner`. Relative paths are
+ * resolved from `root`, the package root, and `package:` locations of
+ * build steps from its `lib` folder.
+ */
+export const parseAnalyzerOutput = (
+  output: string,
+  root: string
+): Array<AnalyzerProblem> => {
+  const problems: Array<AnalyzerProblem> = [];
+  const file = (name: string) => path.resolve(root, name);
+  const lines = output.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    let match: RegExpExecArray | null;
+    if ((match = dartAnalyze.exec(line))) {
+      problems.push({
+        file: file(match[2]),
+        line: Number(match[3]),
+        column: Number(match[4]),
+        severity: severities.get(match[1])!,
+        message: match[5],
+        ...(match[6] ? { code: match[6] } : {}),
+      });
+    } else if ((match = bulletAnalyze.exec(line))) {
+      problems.push({
+        file: file(match[3]),
+        line: Number(match[4]),
+        column: Number(match[5]),
+        severity: severities.get(match[1])!,
+        message: match[2],
+        code: match[6],
+      });
+    } else if ((match = machineAnalyze.exec(line))) {
+      problems.push({
+        file: file(match[3]),
+        line: Number(match[4]),
+        column: Number(match[5]),
+        length: Number(match[6]),
+        severity: severities.get(match[1].toLowerCase())!,
+        message: match[7],
+        code: match[2].toLowerCase(),
+      });
+    } else if ((match = compiler.exec(line))) {
+      problems.push({
+        file: file(match[1]),
+        line: Number(match[2]),
+        column: Number(match[3]),
+        severity: severities.get(match[4].toLowerCase())!,
+        message: match[5],
+      });
+    } else if ((match = buildStep.exec(line))) {
+      // The message runs until the next log line, and may give a location
+      const problem: AnalyzerProblem = {
+        file: file(match[3]),
+        line: 1,
+        column: 1,
+        severity: severities.get(match[1].toLowerCase())!,
+        message: "",
+        code: match[2],
+      };
+      const message: Array<string> = [];
+      while (index + 1 < lines.length && !lines[index + 1].startsWith("[")) {
+        const text = lines[++index].trim();
+        const location = packageLocation.exec(text);
+        if (location && file(path.join("lib", location[1])) === problem.file) {
+          problem.line = Number(location[2]);
+          problem.column = Number(location[3]);
+        } else if (text && !location && !/^[\d\s]*[╷│╵]/.test(text)) {
+          message.push(text);
+        }
+      }
+      problem.message = message.join("\n") || `${match[2]} failed.`;
+      problems.push(problem);
+    }
+  }
+  return problems;
+};
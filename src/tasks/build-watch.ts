@@ -0,0 +1,87 @@
+import { ProcessFactory, TaskProcess } from "../utils/execute-command";
+import { AnalyzerProblem, parseAnalyzerOutput } from "./analyzer-output";
+
+/**
+ * `starting` until the first build, then `building` or the outcome of the
+ * last build, `idle` or `error`. `stopped` once the process ended.
+ */
+export type BuildWatchState =
+  | "starting"
+  | "building"
+  | "idle"
+  | "error"
+  | "stopped";
+
+export type BuildWatchListener = {
+  onState?: (watch: BuildWatch) => void;
+  onOutput?: (watch: BuildWatch, text: string) => void;
+};
+
+const buildStarted = /^(?:\[INFO\] )?(?:Starting Build|Running build\b)/;
+const buildSucceeded = /^(?:\[INFO\] Succeeded after|Built with build_runner)/;
+const buildFailed =
+  /^(?:\[SEVERE\] Failed after|Failed to build with build_runner)/;
+
+/**
+ * Runs `build_runner watch` in the package at `cwd` and follows its output:
+ * the state changes when a build starts and ends, and the problems of a
+ * build replace the problems of the previous one.
+ */
+export class BuildWatch {
+  public state: BuildWatchState = "starting";
+  public problems: Array<AnalyzerProblem> = [];
+  /** Exit code of the process, once stopped. */
+  public exitCode: number | null = null;
+
+  private readonly process: TaskProcess;
+  /** The end of the output that is not a complete line yet. */
+  private pending = "";
+  /** The lines of the current build. */
+  private lines: Array<string> = [];
+
+  constructor(
+    spawn: ProcessFactory,
+    command: string,
+    public readonly cwd: string,
+    private readonly listener: BuildWatchListener = {}
+  ) {
+    this.process = spawn(
+      command,
+      ["run", "build_runner", "watch", "--delete-conflicting-outputs"],
+      cwd
+    );
+    this.process.onOutput((text) => this.read(text));
+    this.process.onExit((code) => {
+      this.exitCode = code;
+      this.update("stopped");
+    });
+  }
+
+  public stop(): void {
+    if (this.state !== "stopped") {
+      this.process.kill();
+    }
+  }
+
+  private read(text: string) {
+    this.listener.onOutput?.(this, text);
+    const lines = (this.pending + text).split(/\r?\n/);
+    this.pending = lines.pop()!;
+    for (const line of lines) {
+      if (buildStarted.test(line)) {
+        this.lines = [];
+        this.update("building");
+      } else if (buildSucceeded.test(line) || buildFailed.test(line)) {
+        this.problems = parseAnalyzerOutput(this.lines.join("\n"), this.cwd);
+        this.update(buildFailed.test(line) ? "error" : "idle");
+      } else {
+        this.lines.push(line);
+      }
+    }
+  }
+
+  private update(state: BuildWatchState) {
+    this.state = state;
+    this.listener.onState?.(this);
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./analyzer-output";
+export * from "./task-runner";
+export * from "./build-watch";
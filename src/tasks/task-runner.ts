@@ -0,0 +1,103 @@
+import { ProcessFactory } from "../utils/execute-command";
+import { AnalyzerProblem, parseAnalyzerOutput } from "./analyzer-output";
+
+/** A command line to run in a package, e.g. `flutter pub get`. */
+export type TaskRequest = {
+  title: string;
+  command: string;
+  args: Array<string>;
+  /** Package root, the working directory of the command. */
+  cwd: string;
+};
+
+export type TaskResult = {
+  /** Exit code, `null` when the command could not start or was killed. */
+  exitCode: number | null;
+  output: string;
+  problems: Array<AnalyzerProblem>;
+};
+
+/** Called while the tasks run, e.g. to show their output. */
+export type TaskListener = {
+  onStart?: (request: TaskRequest) => void;
+  onOutput?: (request: TaskRequest, text: string) => void;
+  onFinish?: (request: TaskRequest, result: TaskResult) => void;
+};
+
+/**
+ * Runs tasks one at a time per package: a task waits for the tasks of its
+ * package started before it, e.g. `build_runner` waits for `pub get`.
+ * Running a task that is already queued or running for the same package
+ * returns the result of that run instead of starting another one.
+ */
+export class TaskRunner {
+  /** The last task of each package, the next one runs after it. */
+  private readonly queues = new Map<string, Promise<TaskResult>>();
+  /** The queued and running tasks, by package and command line. */
+  private readonly runs = new Map<string, Promise<TaskResult>>();
+
+  constructor(
+    private readonly spawn: ProcessFactory,
+    private readonly listener: TaskListener = {}
+  ) {}
+
+  public run(request: TaskRequest): Promise<TaskResult> {
+    const key = [request.cwd, request.command, ...request.args].join("\0");
+    const running = this.runs.get(key);
+    if (running) {
+      return running;
+    }
+
+    const previous = this.queues.get(request.cwd);
+    // The task runs after the previous one, even when it failed
+    const start = () => this.execute(request);
+    const result = (previous ?? Promise.resolve()).then(start, start);
+    this.runs.set(key, result);
+    this.queues.set(request.cwd, result);
+    result
+      .finally(() => {
+        this.runs.delete(key);
+        if (this.queues.get(request.cwd) === result) {
+          this.queues.delete(request.cwd);
+        }
+      })
+      // The caller handles the rejection of [result]
+      .catch(() => undefined);
+    return result;
+  }
+
+  /** Whether a task of the package at `cwd` is queued or running. */
+  public isBusy(cwd: string): boolean {
+    return this.queues.has(cwd);
+  }
+
+  private execute(request: TaskRequest): Promise<TaskResult> {
+    return new Promise((resolve) => {
+      const output: Array<string> = [];
+      const write = (text: string) => {
+        output.push(text);
+        this.listener.onOutput?.(request, text);
+      };
+      const finish = (exitCode: number | null) => {
+        const text = output.join("");
+        const result = {
+          exitCode,
+          output: text,
+          problems: parseAnalyzerOutput(text, request.cwd),
+        };
+        this.listener.onFinish?.(request, result);
+        resolve(result);
+      };
+      this.listener.onStart?.(request);
+      try {
+        const child = this.spawn(request.command, request.args, request.cwd);
+        child.onOutput(write);
+        child.onExit(finish);
+      } catch (error) {
+        // The command could not start, e.g. an invalid working directory
+        write(`${error instanceof Error ? error.message : error}\n`);
+        finish(null);
+      }
+    });
+  }
+}
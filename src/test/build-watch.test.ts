@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { BuildWatch, BuildWatchState } from '../tasks';
+import { fakeProcesses } from './fake-process';
+
+const root = path.resolve('/app');
+
+suite('Build Watch', () => {
+	test('Follows the builds and reports their problems', () => {
+		const { spawn, started } = fakeProcesses();
+		const states: Array<BuildWatchState> = [];
+		const watch = new BuildWatch(spawn, 'dart', root, { onState: (watch) => states.push(watch.state) });
+		const [process] = started;
+		assert.deepStrictEqual(process.args, ['run', 'build_runner', 'watch', '--delete-conflicting-outputs']);
+		assert.strictEqual(watch.state, 'starting');
+
+		process.write('[INFO] Generating build script...\n[INFO] Starting Build\n');
+		process.write('[SEVERE] json_serializable on lib/user.dart:\n\nCould not generate `fromJson`.\npackage:app/user.dart:4:9\n');
+		process.write('[SEVERE] Failed after 1.2s\n[INFO] Starting Bu');
+		assert.strictEqual(watch.state, 'error');
+		assert.deepStrictEqual(
+			watch.problems.map(({ file, line, column, message }) => ({ file, line, column, message })),
+			[{ file: path.join(root, 'lib/user.dart'), line: 4, column: 9, message: 'Could not generate `fromJson`.' }]
+		);
+
+		// The line of the next build is complete only now
+		process.write('ild\n');
+		process.write('[INFO] Succeeded after 0.8s with 2 outputs (6 actions)\n');
+		assert.strictEqual(watch.state, 'idle');
+		assert.deepStrictEqual(watch.problems, []);
+
+		watch.stop();
+		assert.ok(process.killed);
+		assert.deepStrictEqual(states, ['building', 'error', 'building', 'idle', 'stopped']);
+	});
+
+	test('Reports the exit code of the process', () => {
+		const { spawn, started } = fakeProcesses();
+		const watch = new BuildWatch(spawn, 'dart', root);
+		started[0].write('Could not find package "build_runner".\n');
+		started[0].exit(65);
+
+		assert.strictEqual(watch.state, 'stopped');
+		assert.strictEqual(watch.exitCode, 65);
+	});
+});
@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { DartCodeApi, sdkExecutable } from '../utils/dart-code-api';
+import { MockDartCodeAdapter } from './mock-dart-code';
+
+suite('Dart Extension API', () => {
+	test('Reads the SDKs and the projects of a supported API', () => {
+		const api = new DartCodeApi({
+			version: 2,
+			sdks: { dart: '/sdk/flutter/bin/cache/dart-sdk', flutter: '/sdk/flutter', flutterVersion: '3.27.1' },
+			workspace: { projectFolders: ['/app', '/app/packages/core'] },
+		});
+
+		assert.ok(api.supported);
+		assert.strictEqual(api.dartSdk(), '/sdk/flutter/bin/cache/dart-sdk');
+		assert.strictEqual(api.flutterSdk(), '/sdk/flutter');
+		assert.strictEqual(api.flutterVersion(), '3.27.1');
+		assert.deepStrictEqual(api.projects(), ['/app', '/app/packages/core']);
+	});
+
+	test('Falls back when the API is missing, older or different', () => {
+		for (const exports of [undefined, {}, { version: 1, sdks: { flutter: '/sdk/flutter' } }]) {
+			const api = new DartCodeApi(exports);
+			assert.ok(!api.supported);
+			assert.strictEqual(api.flutterSdk(), undefined);
+			assert.strictEqual(api.projects(), undefined);
+		}
+
+		const api = new DartCodeApi({ version: 3, sdks: { flutter: 42 }, workspace: { projectFolders: 'app' } });
+		assert.ok(api.supported);
+		assert.strictEqual(api.flutterSdk(), undefined);
+		assert.strictEqual(api.projects(), undefined);
+	});
+
+	test('Runs the tools of the active SDK', () => {
+		const sdk = new MockDartCodeAdapter({ flutterSdk: '/sdk/flutter' });
+
+		assert.strictEqual(sdkExecutable(sdk, 'flutter'), path.join('/sdk/flutter', 'bin', 'flutter'));
+		assert.strictEqual(sdkExecutable(sdk, 'dart'), 'dart');
+		assert.strictEqual(sdkExecutable(new MockDartCodeAdapter({ supported: false, flutterSdk: '/sdk/flutter' }), 'flutter'), 'flutter');
+	});
+});
@@ -0,0 +1,268 @@
+import * as assert from 'assert';
+
+import { parseDart, parseDartType, tokenizeDart } from '../parser';
+
+suite('Dart Tokenizer', () => {
+	test('Keeps string literals and comments as single tokens', () => {
+		const tokens = tokenizeDart(`final a = 'x { y'; // }\nfinal b = r"\\n"; /* { /* } */ } */`);
+		assert.deepStrictEqual(
+			tokens.map((t) => t.kind),
+			['identifier', 'identifier', 'punctuation', 'string', 'punctuation', 'comment',
+				'identifier', 'identifier', 'punctuation', 'string', 'punctuation', 'comment'],
+		);
+	});
+
+	test('Handles triple-quoted strings and interpolation', () => {
+		const tokens = tokenizeDart(`'''a ' } \${map['}']} b''' x`);
+		assert.strictEqual(tokens.length, 2);
+		assert.strictEqual(tokens[0].kind, 'string');
+		assert.strictEqual(tokens[1].text, 'x');
+	});
+
+	test('Splits closing angle brackets', () => {
+		const tokens = tokenizeDart('List<List<int>>');
+		assert.deepStrictEqual(tokens.map((t) => t.text), ['List', '<', 'List', '<', 'int', '>', '>']);
+	});
+});
+
+suite('Dart Parser', () => {
+	test('Parses generic and nullable generic fields', () => {
+		const [user] = parseDart(`
+class User {
+  final List<User> friends;
+  final Map<String, int>? scores;
+  final Map<String, List<Address?>> addresses;
+  final Set<String?>? tags;
+}`).classes;
+
+		assert.deepStrictEqual(
+			user.fields.map((f) => [f.name, f.type?.text, f.type?.nullable]),
+			[
+				['friends', 'List<User>', false],
+				['scores', 'Map<String, int>?', true],
+				['addresses', 'Map<String, List<Address?>>', false],
+				['tags', 'Set<String?>?', true],
+			],
+		);
+		const addresses = user.fields[2].type!;
+		assert.strictEqual(addresses.args[1].args[0].name, 'Address');
+		assert.strictEqual(addresses.args[1].args[0].nullable, true);
+	});
+
+	test('Parses late, const, static and default values', () => {
+		const [config] = parseDart(`
+class Config {
+  static const int version = 2;
+  late final String id;
+  late final String label = id.toUpperCase();
+  final int retries = 3, timeout = 30;
+  final Map<String, int> limits = const {'a': 1, 'b': 2};
+  var counter;
+}`).classes;
+
+		assert.deepStrictEqual(
+			config.fields.map((f) => [f.name, f.isStatic, f.isConst, f.isLate, f.isFinal, f.defaultValue]),
+			[
+				['version', true, true, false, false, '2'],
+				['id', false, false, true, true, undefined],
+				['label', false, false, true, true, 'id.toUpperCase()'],
+				['retries', false, false, false, true, '3'],
+				['timeout', false, false, false, true, '30'],
+				['limits', false, false, false, true, `const {'a': 1, 'b': 2}`],
+				['counter', false, false, false, false, undefined],
+			],
+		);
+		assert.strictEqual(config.fields[6].type, undefined);
+	});
+
+	test('Parses class headers, annotations and comments', () => {
+		const source = `
+/// A user.
+@immutable
+final class User<T extends Object> extends Base<T> with Mixin implements A, B<int> {
+  /// The name.
+  @JsonKey(name: 'user_name')
+  // Type: enum
+  final String name; // trailing
+
+  final int age;
+}`;
+		const [user] = parseDart(source).classes;
+
+		assert.strictEqual(user.name, 'User');
+		assert.deepStrictEqual(user.modifiers, ['final']);
+		assert.strictEqual(user.typeParameters, '<T extends Object>');
+		assert.strictEqual(user.superclass?.text, 'Base<T>');
+		assert.deepStrictEqual(user.mixins.map((t) => t.text), ['Mixin']);
+		assert.deepStrictEqual(user.interfaces.map((t) => t.text), ['A', 'B<int>']);
+		assert.strictEqual(user.docComment, 'A user.');
+		assert.deepStrictEqual(user.annotations.map((a) => a.name), ['immutable']);
+		assert.strictEqual(source.substring(user.start, user.end).trim(), source.trim());
+
+		const [name, age] = user.fields;
+		assert.strictEqual(name.docComment, 'The name.');
+		assert.deepStrictEqual(name.comments, ['/// The name.', '// Type: enum']);
+		assert.deepStrictEqual(
+			name.annotations.map((a) => [a.name, a.arguments, source.substring(a.start, a.end)]),
+			[['JsonKey', `name: 'user_name'`, `@JsonKey(name: 'user_name')`]],
+		);
+		assert.deepStrictEqual(age.comments, []);
+	});
+
+	test('Parses multi-line declarations and constructors', () => {
+		const [user] = parseDart(`
+class User {
+  final Map<
+      String,
+      int
+    > scores;
+  final String
+    name;
+
+  const User({
+    required this.scores,
+    this.name = 'Anonymous',
+  });
+
+  factory User.fromMap(Map<String, Object?> map) => User(scores: {}, name: map['name'] as String);
+
+  User.empty([String name = ''])
+      : scores = const {},
+        name = name {
+    print('created');
+  }
+}`).classes;
+
+		assert.deepStrictEqual(user.fields.map((f) => [f.name, f.type?.text]), [['scores', 'Map<String, int>'], ['name', 'String']]);
+		assert.deepStrictEqual(
+			user.constructors.map((c) => [c.name, c.isConst, c.isFactory]),
+			[['User', true, false], ['User.fromMap', false, true], ['User.empty', false, false]],
+		);
+		assert.deepStrictEqual(user.constructors[0].parameters, [
+			{ name: 'scores', type: undefined, isNamed: true, isOptionalPositional: false, isRequired: true, isInitializingFormal: true, isSuper: false, defaultValue: undefined },
+			{ name: 'name', type: undefined, isNamed: true, isOptionalPositional: false, isRequired: false, isInitializingFormal: true, isSuper: false, defaultValue: `'Anonymous'` },
+		]);
+		assert.strictEqual(user.constructors[1].parameters[0].type?.text, 'Map<String, Object?>');
+		assert.strictEqual(user.constructors[2].parameters[0].isOptionalPositional, true);
+		assert.strictEqual(user.members.length, 5);
+	});
+
+	test('Parses nested classes with bodies containing braces', () => {
+		const { classes } = parseDart(`
+import 'dart:convert';
+
+class Order {
+  final Customer customer;
+  final List<LineItem> items;
+
+  double get total {
+    return items.fold(0, (sum, item) { return sum + item.price; });
+  }
+
+  @override
+  bool operator ==(Object other) => other is Order && other.customer == customer;
+
+  String describe() => '{\${customer.name}}';
+
+  void Function(int)? onChanged;
+}
+
+// class Fake {}
+const text = 'class Fake {}';
+
+class Customer {
+  final String name;
+}
+
+class LineItem {
+  final double price;
+}`);
+
+		assert.deepStrictEqual(classes.map((c) => c.name), ['Order', 'Customer', 'LineItem']);
+		const [order] = classes;
+		assert.deepStrictEqual(
+			order.members.map((m) => [m.kind, m.name]),
+			[
+				['field', 'customer'],
+				['field', 'items'],
+				['getter', 'total'],
+				['operator', '=='],
+				['method', 'describe'],
+				['field', 'onChanged'],
+			],
+		);
+		assert.strictEqual(order.fields[1].type?.args[0].name, 'LineItem');
+		assert.strictEqual(order.fields[2].type?.text, 'void Function(int)?');
+		assert.strictEqual(order.fields[2].type?.nullable, true);
+	});
+
+	test('Skips types declared in a class body', () => {
+		const [user] = parseDart(`
+class User {
+  final String name;
+
+  class Nested {
+    final int id;
+  }
+
+  sealed class Status {}
+
+  mixin Named {}
+
+  enum Role { admin, guest }
+
+  typedef Callback = void Function();
+
+  final int age;
+}`).classes;
+
+		assert.deepStrictEqual(
+			user.members.map((m) => [m.kind, m.name]),
+			[
+				['field', 'name'],
+				['field', 'age'],
+			],
+		);
+	});
+
+	test('Parses enums and enhanced enums', () => {
+		const { classes, enums } = parseDart(`
+enum Color { red, green, blue }
+
+/// A status.
+enum Status implements Comparable<Status> {
+  @Deprecated('Use active')
+  enabled('enabled', weight: 1),
+  active('active'),
+  unknown('?');
+
+  const Status(this.value, {this.weight = 0});
+
+  final String value;
+  final int weight;
+
+  static Status parse(String value) => values.firstWhere((e) => e.value == value);
+}
+
+class After {}`);
+		assert.deepStrictEqual(classes.map((c) => c.name), ['After']);
+		assert.deepStrictEqual(enums.map((e) => [e.name, e.values]), [
+			['Color', ['red', 'green', 'blue']],
+			['Status', ['enabled', 'active', 'unknown']],
+		]);
+		const status = enums[1];
+		assert.strictEqual(status.docComment, 'A status.');
+		assert.deepStrictEqual(status.interfaces.map((t) => t.text), ['Comparable<Status>']);
+		assert.deepStrictEqual(status.members.map((m) => [m.kind, m.name]), [
+			['constructor', 'Status'],
+			['field', 'value'],
+			['field', 'weight'],
+			['method', 'parse'],
+		]);
+	});
+
+	test('Parses standalone types', () => {
+		assert.strictEqual(parseDartType('Map<String,List<int?>>?')?.text, 'Map<String, List<int?>>?');
+		assert.strictEqual(parseDartType('List<'), undefined);
+	});
+});
@@ -0,0 +1,173 @@
+import * as assert from 'assert';
+
+import {
+	dataClassSpec,
+	generateDataClass,
+	isGeneratedDataClass,
+	refreshDataClass,
+	renameDataClass,
+	TextReplacement,
+} from '../generators';
+import { parseDart } from '../parser';
+
+const apply = (source: string, edits: Array<TextReplacement>) =>
+	[...edits]
+		.sort((a, b) => b.start - a.start)
+		.reduce((text, edit) => text.substring(0, edit.start) + edit.text + text.substring(edit.end), source);
+
+const generate = (source: string) => {
+	const [declaration] = parseDart(source).classes;
+	const spec = dataClassSpec(declaration, source, { suffix: '', namingStyle: 'snake_case' });
+	return `${generateDataClass(spec)}\n`;
+};
+
+const refresh = (source: string) => {
+	const [declaration] = parseDart(source).classes;
+	const spec = dataClassSpec(declaration, source, { suffix: '', namingStyle: 'snake_case' });
+	return apply(source, refreshDataClass(declaration, spec));
+};
+
+suite('Data Class Generator', () => {
+	test('Moves default values to the constructor', () => {
+		const source = generate(`class User {\n  final int retries = 3;\n}`);
+		assert.ok(source.includes('  final int retries;\n'));
+		assert.ok(source.includes('this.retries = 3,'));
+		assert.ok(source.includes(`retries: (map['retries'] as num?)?.toInt() ?? 3,`));
+	});
+
+	test('Refreshes generated members and keeps hand-written ones', () => {
+		const generated = generate(`class User {\n  final String name;\n  final int age = 18;\n}`);
+		const edited = generated
+			.replace('  final int age;\n', '  final int age;\n  final DateTime? birthday;\n')
+			.replace('  @override\n  String toString()', '  /// Whether the user is an adult.\n  bool get isAdult => age >= 18;\n\n  @override\n  String toString()');
+
+		const refreshed = refresh(edited);
+		assert.strictEqual(refreshed, generate(`class User {\n  final String name;\n  final int age = 18;\n  final DateTime? birthday;\n}`)
+			.replace('  @override\n  String toString()', '  /// Whether the user is an adult.\n  bool get isAdult => age >= 18;\n\n  @override\n  String toString()'));
+		assert.strictEqual(refresh(refreshed), refreshed);
+	});
+
+	test('Keeps mutable fields without a const constructor', () => {
+		const source = `class Counter {\n  final String id;\n  int count = 0;\n}\n`;
+		const generated = generate(source);
+		assert.ok(generated.includes('  final String id;\n  int count;\n'));
+		assert.ok(generated.includes('\n  Counter({\n'));
+		assert.ok(!generated.includes('const Counter('));
+
+		const refreshed = refresh(source);
+		assert.ok(refreshed.includes('  int count;\n'));
+		assert.ok(refreshed.includes('\n  Counter({\n'));
+		assert.ok(refreshed.includes('this.count = 0,'));
+		assert.strictEqual(refresh(refreshed), refreshed);
+	});
+
+	test('Inserts missing generated members', () => {
+		const source = `class User {
+  final String name;
+
+  User.guest() : name = 'guest';
+
+  Map<String, dynamic> toMap() => {};
+}
+`;
+		const refreshed = refresh(source);
+		const [declaration] = parseDart(refreshed).classes;
+		assert.deepStrictEqual(
+			declaration.members.map((m) => m.name),
+			['name', 'User', 'User.fromMap', 'User.fromJson', 'User.guest', 'toMap', 'toJson', 'copyWith', '==', 'hashCode', 'toString'],
+		);
+	});
+
+	test('Generates equality and copyWith', () => {
+		const source = generate(`class Page<T extends Object> {\n  final List<T> items;\n  final String? cursor;\n}`);
+		assert.ok(source.includes(`  Page<T> copyWith({
+    List<T>? items,
+    String? Function()? cursor,
+  }) =>
+      Page(
+        items: items ?? this.items,
+        cursor: cursor != null ? cursor() : this.cursor,
+      );`));
+		assert.ok(source.includes(`      other is Page<T> &&
+          runtimeType == other.runtimeType &&
+          const DeepCollectionEquality().equals(items, other.items) &&
+          cursor == other.cursor;`));
+		assert.ok(source.includes(`  int get hashCode => Object.hashAll([
+        const DeepCollectionEquality().hash(items),
+        cursor,
+      ]);`));
+	});
+
+	test('Generates only the selected members', () => {
+		const [declaration] = parseDart(`class User {\n  final String name;\n}`).classes;
+		const spec = dataClassSpec(declaration, '', {
+			suffix: '',
+			namingStyle: 'original',
+			members: { mapMethods: false, jsonMethods: false, copyWithMethod: true, equalityOperator: false, toStringMethod: false },
+		});
+		const [generated] = parseDart(generateDataClass(spec)).classes;
+		assert.deepStrictEqual(generated.members.map((m) => m.name), ['name', 'User', 'copyWith']);
+	});
+
+	test('Inserts the members in a hand-written class and renames it', () => {
+		const source = `/// A user.
+@immutable
+class User {
+  final String name;
+
+  const User.guest() : name = 'guest';
+
+  /// Greets the user.
+  String get greeting => 'Hello, $name';
+
+  void hello() {
+    print(greeting);
+  }
+
+  static User get admin => User.guest();
+}
+`;
+		const [declaration] = parseDart(source).classes;
+		assert.strictEqual(isGeneratedDataClass(declaration), false);
+		const spec = dataClassSpec(declaration, source, { suffix: 'DTO', namingStyle: 'snake_case' });
+		const edits = refreshDataClass(declaration, spec);
+		const generated = apply(source, [...edits, ...renameDataClass(declaration, source, spec.name, edits)]);
+
+		assert.ok(generated.startsWith('/// A user.\n@immutable\nclass UserDTO {\n  final String name;\n\n  const UserDTO({\n'));
+		assert.ok(generated.includes(`  const UserDTO.guest() : name = 'guest';\n\n  /// Greets the user.\n  String get greeting => 'Hello, $name';\n`));
+		assert.ok(generated.includes('  void hello() {\n    print(greeting);\n  }\n'));
+		assert.ok(generated.includes('  static UserDTO get admin => UserDTO.guest();\n'));
+		const [refreshed] = parseDart(generated).classes;
+		assert.deepStrictEqual(
+			refreshed.members.map((m) => m.name),
+			['name', 'UserDTO', 'UserDTO.fromMap', 'UserDTO.fromJson', 'toMap', 'toJson', 'copyWith', '==', 'hashCode', 'toString', 'UserDTO.guest', 'greeting', 'hello', 'admin'],
+		);
+		assert.strictEqual(isGeneratedDataClass(refreshed), true);
+	});
+
+	test('Recognizes the classes generated without serialization', () => {
+		const [declaration] = parseDart(`class User {\n  final String name;\n}`).classes;
+		const spec = dataClassSpec(declaration, '', {
+			suffix: 'DTO',
+			namingStyle: 'original',
+			members: { mapMethods: false, jsonMethods: false, copyWithMethod: false, equalityOperator: true, toStringMethod: true },
+		});
+		const [generated] = parseDart(generateDataClass(spec)).classes;
+		assert.strictEqual(generated.name, 'UserDTO');
+		assert.strictEqual(isGeneratedDataClass(generated), true);
+
+		const [handWritten] = parseDart(`class User {\n  final String name;\n\n  User(this.name);\n\n  @override\n  String toString() => name;\n}`).classes;
+		assert.strictEqual(isGeneratedDataClass(handWritten), false);
+	});
+
+	test('Generates a non-const constructor for late fields and subclasses', () => {
+		const late = refresh(`class Session {\n  late final String token;\n}\n`);
+		assert.ok(late.includes('  late final String token;\n\n  Session({\n    required this.token,\n  });'));
+
+		const subclass = generate(`class Admin extends User {\n  final String role;\n}`);
+		assert.ok(subclass.startsWith('class Admin extends User {\n'));
+		assert.ok(subclass.includes('\n  Admin({\n'));
+		assert.ok(!subclass.includes('const Admin('));
+	});
+});
+
@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+
+import { dataClassSpec, enumCodecOf, generateDataClass } from '../generators';
+import { parseDart } from '../parser';
+
+const codec = (source: string, fallback?: string) => {
+	const [declaration] = parseDart(source).enums;
+	const { decode, encode } = enumCodecOf(declaration.name, declaration, fallback);
+	return [decode(`map['x']`), encode('x', '?.')];
+};
+
+suite('Enum Codec', () => {
+	test('Converts plain enums by name', () => {
+		assert.deepStrictEqual(codec('enum Color { red, green }'), [`Color.values.byName(map['x'] as String)`, 'x?.name']);
+		assert.deepStrictEqual(codec('enum Color { red, unknown }', 'unknown'), [`Color.values.asNameMap()[map['x']] ?? Color.unknown`, 'x?.name']);
+	});
+
+	test('Converts enhanced enums by their wire value', () => {
+		const source = `enum Status {\n  active(1, 'Active'),\n  unknown(0, '?');\n\n  const Status(this.code, this.label);\n\n  final int code;\n  final String label;\n}`;
+		assert.deepStrictEqual(codec(source), [`Status.values.firstWhere((v) => v.code == map['x'])`, 'x?.code']);
+		assert.deepStrictEqual(codec(source, 'unknown'), [`Status.values.firstWhere((v) => v.code == map['x'], orElse: () => Status.unknown)`, 'x?.code']);
+	});
+
+	test('Uses the conversions of the enum', () => {
+		const source = `enum Level {\n  low;\n\n  static Level fromJson(Object? json) => low;\n\n  Object? toJson() => name;\n}`;
+		assert.deepStrictEqual(codec(source), [`Level.fromJson(map['x'])`, 'x?.toJson()']);
+	});
+
+	test('Generates enum fields of data classes', () => {
+		const source = `enum Color { red, green }
+
+class Paint {
+  final Color color;
+  final List<Color> palette;
+  // @enum unknown
+  final Shape? shape;
+  // @default Color.red
+  final Color background;
+}`;
+		const { classes, enums } = parseDart(source);
+		const code = generateDataClass(dataClassSpec(classes[0], source, { suffix: '', namingStyle: 'camelCase', enums }));
+		assert.ok(code.includes(`color: Color.values.byName(map['color'] as String),`));
+		assert.ok(code.includes(`palette: (map['palette'] as List).map((e) => Color.values.byName(e as String)).toList(),`));
+		assert.ok(code.includes(`shape: map['shape'] == null ? null : Shape.values.asNameMap()[map['shape']] ?? Shape.unknown,`));
+		assert.ok(code.includes(`background: (map['background'] == null ? null : Color.values.byName(map['background'] as String)) ?? Color.red,`));
+		assert.ok(code.includes(`'palette': palette.map((e) => e.name).toList(),`));
+		assert.ok(code.includes(`'shape': shape?.name,`));
+	});
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { BuildWatch } from '../tasks';
+import { killProcessTree, ProcessFactory } from '../utils/execute-command';
+import { FakeProcess, fakeProcesses } from './fake-process';
+
+const root = path.resolve('/app');
+
+suite('Execute Command', () => {
+	test('Stops the process tree on Windows', () => {
+		const { spawn, started } = fakeProcesses();
+		const child = Object.assign(new FakeProcess('flutter', ['run'], root), { pid: 42 });
+
+		killProcessTree(child, 'win32', spawn);
+		assert.deepStrictEqual(
+			started.map(({ command, args }) => ({ command, args })),
+			[{ command: 'taskkill', args: ['/pid', '42', '/T', '/F'] }]
+		);
+		assert.ok(!child.killed);
+
+		// The child is killed directly when taskkill fails
+		started[0].exit(1);
+		assert.ok(child.killed);
+	});
+
+	test('Kills the process elsewhere', () => {
+		const { spawn, started } = fakeProcesses();
+		const child = Object.assign(new FakeProcess('flutter', ['run'], root), { pid: 42 });
+
+		killProcessTree(child, 'linux', spawn);
+		assert.strictEqual(started.length, 0);
+		assert.ok(child.killed);
+	});
+
+	test('Stops a build watch with its process tree on Windows', () => {
+		const { spawn, started } = fakeProcesses();
+		// Processes killed as by [spawnProcess] on Windows
+		const windowsSpawn: ProcessFactory = (command, args, cwd) => {
+			const child = Object.assign(spawn(command, args, cwd) as FakeProcess, { pid: 7 });
+			return { onOutput: child.onOutput.bind(child), onExit: child.onExit.bind(child), kill: () => killProcessTree(child, 'win32', spawn) };
+		};
+		const watch = new BuildWatch(windowsSpawn, 'dart', root);
+
+		watch.stop();
+		assert.deepStrictEqual(started[1].args, ['/pid', '7', '/T', '/F']);
+		started[1].exit(0);
+		started[0].exit(1);
+		assert.ok(!started[0].killed);
+		assert.strictEqual(watch.state, 'stopped');
+
+		watch.stop();
+		assert.strictEqual(started.length, 2);
+	});
+});
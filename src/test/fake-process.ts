@@ -0,0 +1,44 @@
+import { ProcessFactory, TaskProcess } from '../utils/execute-command';
+
+/** A process whose output and exit are driven by the test. */
+export class FakeProcess implements TaskProcess {
+	public killed = false;
+	private readonly outputListeners: Array<(text: string) => void> = [];
+	private readonly exitListeners: Array<(code: number | null) => void> = [];
+
+	constructor(public readonly command: string, public readonly args: Array<string>, public readonly cwd: string) {}
+
+	onOutput(listener: (text: string) => void) {
+		this.outputListeners.push(listener);
+	}
+
+	onExit(listener: (code: number | null) => void) {
+		this.exitListeners.push(listener);
+	}
+
+	kill() {
+		this.killed = true;
+		this.exit(null);
+	}
+
+	write(text: string) {
+		this.outputListeners.forEach((listener) => listener(text));
+	}
+
+	exit(code: number | null) {
+		this.exitListeners.forEach((listener) => listener(code));
+	}
+}
+
+/** A `ProcessFactory` keeping the processes it started. */
+export const fakeProcesses = (): { spawn: ProcessFactory; started: Array<FakeProcess> } => {
+	const started: Array<FakeProcess> = [];
+	return {
+		started,
+		spawn: (command, args, cwd) => {
+			const process = new FakeProcess(command, args, cwd);
+			started.push(process);
+			return process;
+		},
+	};
+};
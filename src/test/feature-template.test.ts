@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+
+import {
+	bundledFeatureTemplates,
+	defaultDataClassOptions,
+	expandFeatureVariables,
+	FeatureGeneratorOptions,
+	featureNames,
+	readFeatureTemplate,
+	renderFeature,
+} from '../generators';
+import { defaultGeneratorDefaults } from '../config/generator-defaults';
+
+const options: FeatureGeneratorOptions = {
+	states: ['idle', 'failed'],
+	stateOptions: defaultGeneratorDefaults.sealedStates.options,
+	useMeta: true,
+	members: defaultDataClassOptions,
+	keyCase: 'snake_case',
+};
+
+suite('Feature Templates', () => {
+	test('Converts the name of the feature to every case', () => {
+		const names = featureNames('User profile');
+		assert.deepStrictEqual(names, { pascal: 'UserProfile', camel: 'userProfile', snake: 'user_profile', kebab: 'user-profile' });
+		assert.deepStrictEqual(featureNames('userProfile'), names);
+		assert.strictEqual(
+			expandFeatureVariables("final ${name.camel}Key = '${name.kebab} ${value}';", names),
+			"final userProfileKey = 'user-profile ${value}';"
+		);
+	});
+
+	test('Renders the bundled feature with the generators', () => {
+		const files = renderFeature(bundledFeatureTemplates[0], featureNames('user profile'), options);
+		assert.deepStrictEqual(
+			files.map((file) => file.path),
+			[
+				'user_profile/bloc/user_profile_state.dart',
+				'user_profile/bloc/user_profile_bloc.dart',
+				'user_profile/data/user_profile_repository.dart',
+				'user_profile/model/user_profile_model.dart',
+				'user_profile/widget/user_profile_screen.dart',
+			]
+		);
+		const [state, bloc, , model] = files.map((file) => file.content);
+		assert.ok(state.startsWith("import 'package:meta/meta.dart';\n\n"));
+		assert.ok(state.includes('sealed class UserProfileState'));
+		assert.ok(state.includes('UserProfileState.failed('));
+		assert.ok(!state.includes('${'));
+		assert.ok(bloc.includes("import '../data/user_profile_repository.dart';"));
+		assert.ok(bloc.includes('required IUserProfileRepository repository,'));
+		assert.ok(model.startsWith("import 'dart:convert';\n\n"));
+		assert.ok(model.includes('class UserProfileModel {'));
+		assert.ok(model.includes("'id': id"));
+		assert.ok(model.endsWith('}\n'));
+	});
+
+	test('Reads the templates of the workspace', () => {
+		const template = readFeatureTemplate(
+			{
+				description: 'Only a model',
+				folder: '',
+				files: [{ path: '${name.snake}.dart', dataClass: '${name.pascal}', fields: 'int count, List<String> tags' }],
+			},
+			'model'
+		);
+		assert.deepStrictEqual(template, {
+			name: 'model',
+			description: 'Only a model',
+			folder: '',
+			files: [{ path: '${name.snake}.dart', dataClass: '${name.pascal}', fields: 'int count, List<String> tags' }],
+		});
+		if (typeof template === 'string') {
+			return assert.fail(template);
+		}
+		const [file] = renderFeature(template, featureNames('cart'), options);
+		assert.strictEqual(file.path, 'cart.dart');
+		assert.ok(file.content.includes('final List<String> tags;'));
+
+		assert.strictEqual(
+			readFeatureTemplate({ files: [{ path: 'a.dart', content: '', dataClass: 'A' }] }, 'a'),
+			'files[0] must have a path and one of content, sealedStates or dataClass.'
+		);
+		assert.throws(
+			() => renderFeature({ name: 'a', folder: '', files: [{ path: 'a.dart', dataClass: 'A', fields: 'id' }] }, featureNames('a'), options),
+			/Invalid fields of A/
+		);
+	});
+
+	test('Keeps the commas of type arguments in the fields', () => {
+		const [file] = renderFeature(
+			{ name: 'a', folder: '', files: [{ path: 'a.dart', dataClass: 'A', fields: 'String id, Map<String, int> counts' }] },
+			featureNames('a'),
+			options
+		);
+		assert.ok(file.content.includes('final String id;'));
+		assert.ok(file.content.includes('final Map<String, int> counts;'));
+	});
+
+	test('Rejects paths outside of the selected folder', () => {
+		for (const path of ['/tmp/a.dart', 'C:\\a.dart', '../a.dart', 'lib/../../a.dart']) {
+			assert.strictEqual(
+				readFeatureTemplate({ files: [{ path, content: '' }] }, 'a'),
+				"the path of files[0] must be a relative path without '..'."
+			);
+		}
+		for (const folder of ['/features', '..', 'features/..\\..']) {
+			assert.strictEqual(
+				readFeatureTemplate({ folder, files: [{ path: 'a.dart', content: '' }] }, 'a'),
+				"folder must be a relative path without '..'."
+			);
+		}
+	});
+});
@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+
+import { dataClassSpec, generateDataClass, mayContainFieldHints, parseFieldHints, substituteValue, validateFieldHints } from '../generators';
+import { parseDart } from '../parser';
+
+const hintsOf = (source: string) => {
+	const [declaration] = parseDart(source).classes;
+	return parseFieldHints(declaration.fields[0], source);
+};
+
+const messages = (source: string) => {
+	const [declaration] = parseDart(source).classes;
+	return validateFieldHints(declaration, source).map((d) => [d.severity, d.message, source.substring(d.start, d.end)]);
+};
+
+suite('Field Hints', () => {
+	test('Parses tags', () => {
+		const { hints, diagnostics } = hintsOf(`class User {
+  /// The name.
+  /// @key: 'user_name'
+  /// @default 'Anonymous'
+  // @converter NameConverter
+  final String name;
+}`);
+		assert.deepStrictEqual(diagnostics, []);
+		assert.deepStrictEqual(hints, {
+			key: 'user_name',
+			defaultValue: `'Anonymous'`,
+			ignore: false,
+			isEnum: false,
+			fromJson: 'const NameConverter().fromJson(value)',
+			toJson: 'const NameConverter().toJson(value)',
+		});
+	});
+
+	test('Keeps legacy comments and splits them outside of brackets', () => {
+		const { hints, diagnostics } = hintsOf(`class User {
+  // Parsing: Range.parse(value, separator: ','), value.join(',')
+  final Range range;
+}`);
+		assert.deepStrictEqual(diagnostics, []);
+		assert.strictEqual(hints.fromJson, `Range.parse(value, separator: ',')`);
+		assert.strictEqual(hints.toJson, `value.join(',')`);
+		assert.strictEqual(hintsOf(`class A {\n  // Type: enum\n  final Kind kind;\n}`).hints.isEnum, true);
+	});
+
+	test('Looks for the known hints only', () => {
+		assert.ok(mayContainFieldHints(`class A {\n  // @key user_id\n  final int id;\n}`));
+		assert.ok(mayContainFieldHints(`class A {\n  //@ignore\n  final int id;\n}`));
+		assert.ok(mayContainFieldHints(`class A {\n  // Parsing: a, b\n  final int id;\n}`));
+		assert.ok(!mayContainFieldHints(`/// {@template user}\n/// {@macro user}\n/// @nodoc\nclass A {\n  // See @override.\n}`));
+	});
+
+	test('Reports invalid hints on their comment', () => {
+		assert.deepStrictEqual(
+			messages(`class User {
+  // @kye name
+  // @default
+  final String name;
+
+  // @ignore
+  final int age;
+
+  // @enum
+  // @fromJson Kind.parse(value
+  // Parsing: a, b, c
+  final Kind kind;
+}`),
+			[
+				['warning', 'Unknown data class hint @kye. Known hints: @key, @default, @ignore, @enum, @converter, @fromJson, @toJson.', '@kye name'],
+				['error', '@default needs a value.', '@default'],
+				['error', 'An ignored field needs a default value or a nullable type.', '@ignore'],
+				['error', '@fromJson is not a valid expression: Kind.parse(value', '@fromJson Kind.parse(value'],
+				['error', 'Parsing: expects two expressions separated by a comma, e.g. `Parsing: Count.parse(value), value.toString()`.', '// Parsing: a, b, c'],
+			],
+		);
+	});
+
+	test('Generates fields with hints', () => {
+		const source = `class User {
+  // @key id
+  final String userId;
+
+  // @ignore
+  final bool? selected;
+
+  // @fromJson Tags.parse(value)
+  // @toJson value.values
+  final Tags tags;
+}`;
+		const [declaration] = parseDart(source).classes;
+		const code = generateDataClass(dataClassSpec(declaration, source, { suffix: '', namingStyle: 'snake_case' }));
+		assert.ok(code.includes(`userId: map['id'] as String,`));
+		assert.ok(code.includes(`tags: Tags.parse(map['tags']),`));
+		assert.ok(code.includes(`'tags': tags.values,`));
+		assert.ok(!code.includes(`map['selected']`));
+		assert.ok(!code.includes(`'selected':`));
+	});
+
+	test('Substitutes only the value identifier', () => {
+		assert.strictEqual(substituteValue(`values.byName(value ?? 'value')`, 'x'), `values.byName(x ?? 'value')`);
+	});
+});
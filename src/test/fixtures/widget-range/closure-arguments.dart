@@ -0,0 +1,8 @@
+Widget build(BuildContext context) {
+  return «Elevated‸Button(
+    onPressed: () {
+      setState(() => _count++);
+    },
+    child: Builder(builder: (context) => Text('$_count')),
+  )»;
+}
@@ -0,0 +1,7 @@
+Widget build(BuildContext context) {
+  return Column(
+    children: [
+      «const Si‸zedBox(height: 8)»,
+    ],
+  );
+}
@@ -0,0 +1,13 @@
+Widget build(BuildContext context) {
+  return Column(
+    children: [
+      «Padding(
+        padding: EdgeInsets.zero,
+        child: Text(
+          'Hello',
+        ),
+        ke‸y: _key,
+      )»,
+    ],
+  );
+}
@@ -0,0 +1,5 @@
+Widget build(BuildContext context) {
+  return «Cen‸ter(
+    child: Text('Hello'),
+  )»;
+}
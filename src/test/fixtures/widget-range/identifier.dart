@@ -0,0 +1,5 @@
+Widget build(BuildContext context) {
+  return Center(
+    child: «widget.ch‸ild»,
+  );
+}
@@ -0,0 +1,8 @@
+Widget build(BuildContext context) {
+  return Column(
+    children: [
+      «_build‸Header(context)»,
+      Text('Body'),
+    ],
+  );
+}
@@ -0,0 +1,6 @@
+Widget build(BuildContext context) {
+  return «Padding.sym‸metric(
+    horizontal: 16,
+    child: Text('Hello'),
+  )»;
+}
@@ -0,0 +1,3 @@
+void ma‸in() {
+  runApp(const App());
+}
@@ -0,0 +1,7 @@
+Widget build(BuildContext context) {
+  return «Cont‸ainer(
+    // Close it :)
+    /* nested /* ) */ ( */
+    color: Colors.red,
+  )»;
+}
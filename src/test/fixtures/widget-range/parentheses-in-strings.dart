@@ -0,0 +1,12 @@
+Widget build(BuildContext context) {
+  return Column(
+    children: [
+      «Te‸xt(
+        'Smile :) (or not',
+        semanticsLabel: r"raw \( ) ",
+      )»,
+      Text('''triple ) quoted
+      ( string'''),
+    ],
+  );
+}
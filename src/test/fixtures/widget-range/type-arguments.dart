@@ -0,0 +1,6 @@
+Widget build(BuildContext context) {
+  return «ValueListenable‸Builder<Map<String, List<int>>>(
+    valueListenable: _values,
+    builder: (context, value, child) => Text('${value.length}'),
+  )»;
+}
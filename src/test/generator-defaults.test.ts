@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import { parse } from 'yaml';
+
+import { defaultGeneratorDefaults, readGeneratorDefaults } from '../config/generator-defaults';
+
+suite('Generator Defaults', () => {
+	test('Reads flutter_plus.yaml', () => {
+		const { defaults, errors } = readGeneratorDefaults(parse([
+			'ask: false',
+			'preview: true',
+			'import_style: package',
+			'data_class:',
+			'  suffix: DTO',
+			'  key_case: snake_case',
+			'  members: [map, json, copy_with]',
+			'sealed_states:',
+			'  states: initial, loading, loaded',
+			'  options: { type_alias: false }',
+			'  use_meta: false',
+		].join('\n')));
+
+		assert.deepStrictEqual(errors, []);
+		assert.strictEqual(defaults.ask, false);
+		assert.strictEqual(defaults.preview, true);
+		assert.strictEqual(defaults.importStyle, 'package');
+		assert.strictEqual(defaults.dataClass.suffix, 'DTO');
+		assert.strictEqual(defaults.dataClass.keyCase, 'snake_case');
+		assert.deepStrictEqual(defaults.dataClass.members, {
+			mapMethods: true,
+			jsonMethods: true,
+			copyWithMethod: true,
+			equalityOperator: false,
+			toStringMethod: false,
+		});
+		assert.deepStrictEqual(defaults.sealedStates.states, ['initial', 'loading', 'loaded']);
+		assert.deepStrictEqual(defaults.sealedStates.options, { ...defaultGeneratorDefaults.sealedStates.options, typeAlias: false });
+		assert.strictEqual(defaults.sealedStates.useMeta, false);
+	});
+
+	test('Overrides only the given values', () => {
+		const base = readGeneratorDefaults({ dataClass: { suffix: 'Model' } }).defaults;
+		const { defaults } = readGeneratorDefaults({ dataClass: { keyCase: 'camelCase' } }, base);
+
+		assert.strictEqual(defaults.dataClass.suffix, 'Model');
+		assert.strictEqual(defaults.dataClass.keyCase, 'camelCase');
+		assert.strictEqual(defaults.ask, true);
+		assert.strictEqual(readGeneratorDefaults(null, base).defaults, base);
+	});
+
+	test('Reports invalid values', () => {
+		const { defaults, errors } = readGeneratorDefaults({
+			ask: 'no',
+			importStyle: 'absolute',
+			dataClass: { keyCase: 'kebab', members: ['json', 'constructor'] },
+			sealedStates: [],
+		});
+
+		assert.strictEqual(defaults.ask, true);
+		assert.strictEqual(defaults.importStyle, 'relative');
+		assert.strictEqual(defaults.dataClass.keyCase, undefined);
+		assert.deepStrictEqual(Object.entries(defaults.dataClass.members).filter(([, enabled]) => enabled), [['jsonMethods', true]]);
+		assert.deepStrictEqual(defaults.sealedStates, defaultGeneratorDefaults.sealedStates);
+		assert.strictEqual(errors.length, 5);
+		assert.ok(errors[3].includes('unknown constructor'));
+	});
+});
@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import { parse } from 'yaml';
+
+import { addImports, findImports, importBlock, missingDependencies, TextReplacement } from '../generators';
+
+const apply = (source: string, edit?: TextReplacement) =>
+	edit ? source.substring(0, edit.start) + edit.text + source.substring(edit.end) : source;
+
+suite('Imports', () => {
+	test('Finds the import directives', () => {
+		const source = `// Header\nimport 'dart:async';\nimport "package:a/a.dart" show A;\n\nfinal imports = 'import "x.dart";';\n`;
+
+		assert.deepStrictEqual(findImports(source).map(({ uri }) => uri), ['dart:async', 'package:a/a.dart']);
+	});
+
+	test('Merges imports into their groups', () => {
+		const source = [
+			`import 'dart:async';`,
+			``,
+			`import 'package:flutter/material.dart';`,
+			`import 'package:provider/provider.dart';`,
+			``,
+			`import 'src/model.dart';`,
+			``,
+			`class A {}`,
+		].join('\n');
+
+		assert.strictEqual(apply(source, addImports(source, [
+			'package:provider/provider.dart',
+			'package:meta/meta.dart',
+			'package:bloc/bloc.dart',
+			'dart:convert',
+			'package:zoo/zoo.dart',
+		])), [
+			`import 'dart:async';`,
+			`import 'dart:convert';`,
+			``,
+			`import 'package:bloc/bloc.dart';`,
+			`import 'package:flutter/material.dart';`,
+			`import 'package:meta/meta.dart';`,
+			`import 'package:provider/provider.dart';`,
+			`import 'package:zoo/zoo.dart';`,
+			``,
+			`import 'src/model.dart';`,
+			``,
+			`class A {}`,
+		].join('\n'));
+		assert.strictEqual(addImports(source, ['dart:async', 'src/model.dart']), undefined);
+	});
+
+	test('Adds missing groups and imports to files without imports', () => {
+		const source = `import 'package:meta/meta.dart';\n\nclass A {}`;
+
+		assert.strictEqual(
+			apply(source, addImports(source, ['a.dart', 'dart:convert'])),
+			`import 'dart:convert';\n\nimport 'package:meta/meta.dart';\n\nimport 'a.dart';\n\nclass A {}`,
+		);
+		assert.strictEqual(
+			apply('library models;\n\nclass A {}', addImports('library models;\n\nclass A {}', ['dart:convert'])),
+			`library models;\n\nimport 'dart:convert';\n\nclass A {}`,
+		);
+		assert.strictEqual(apply('class A {}', addImports('class A {}', ['b.dart', 'dart:core'])), `import 'dart:core';\n\nimport 'b.dart';\n\nclass A {}`);
+		assert.strictEqual(importBlock([]), '');
+	});
+
+	test('Reports packages missing in pubspec.yaml', () => {
+		const pubspec = parse([
+			'name: app',
+			'dependencies:',
+			'  flutter:',
+			'    sdk: flutter',
+			'  provider: ^6.0.0',
+			'dev_dependencies:',
+			'  test: any',
+		].join('\n'));
+
+		assert.deepStrictEqual(missingDependencies([
+			'dart:convert',
+			'package:flutter/material.dart',
+			'package:provider/provider.dart',
+			'package:test/test.dart',
+			'package:app/src/model.dart',
+			'package:flutter_bloc/flutter_bloc.dart',
+			'package:flutter_bloc/src/bloc_builder.dart',
+			'model.dart',
+		], pubspec), ['flutter_bloc']);
+	});
+});
@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+
+import { defaultDataClassOptions, detectKeyStyle, inferJsonModels, jsonModelSpec } from '../generators';
+
+const describe = (value: unknown) =>
+	inferJsonModels(value, 'User').map((model) => [model.name, model.fields.map((f) => `${f.type.text} ${f.name}`)]);
+
+suite('JSON Model Inference', () => {
+	test('Infers field types', () => {
+		assert.deepStrictEqual(
+			describe({ id: 1, score: 1.5, name: 'Ann', active: true, created_at: '2024-01-02T10:00:00Z', note: null, tags: ['a'] }),
+			[['User', ['int id', 'double score', 'String name', 'bool active', 'DateTime createdAt', 'dynamic note', 'List<String> tags']]],
+		);
+	});
+
+	test('Infers nested objects and lists of objects', () => {
+		assert.deepStrictEqual(
+			describe({ address: { city: 'Oslo' }, orders: [{ id: 1 }], matrix: [[1, 2]], empty: [] }),
+			[
+				['User', ['Address address', 'List<Order> orders', 'List<List<int>> matrix', 'List<dynamic> empty']],
+				['Address', ['String city']],
+				['Order', ['int id']],
+			],
+		);
+	});
+
+	test('Makes fields missing or null in some items nullable', () => {
+		assert.deepStrictEqual(
+			describe([
+				{ id: 1, name: 'Ann', price: 1, tags: [{ label: 'x', color: null }] },
+				{ id: 2, email: 'b@example.com', price: 2.5, tags: [{ label: 'y', color: 'red' }] },
+				{ id: 3, name: null, price: 3 },
+			]),
+			[
+				['User', ['int id', 'String? name', 'double price', 'List<Tag>? tags', 'String? email']],
+				['Tag', ['String label', 'String? color']],
+			],
+		);
+	});
+
+	test('Keeps the original keys', () => {
+		const [model] = inferJsonModels({ 'user-id': 1, class: 'a', '\$ref': 'b' }, 'Ref');
+		assert.deepStrictEqual(model.fields.map((f) => f.name), ['userId', 'classValue', 'ref']);
+		assert.strictEqual(detectKeyStyle([model]), 'kebab-case');
+
+		const spec = jsonModelSpec(model, { namingStyle: 'original', members: defaultDataClassOptions });
+		assert.deepStrictEqual(spec.fields.map((f) => f.key), ['user-id', 'class', '\\$ref']);
+	});
+
+	test('Keeps the keys that the naming style does not reproduce', () => {
+		const [model] = inferJsonModels({ user_id: 1, class: 'a', URL: 'x', createdAt: '2024-01-02T10:00:00Z' }, 'User');
+		const namingStyle = detectKeyStyle([model]);
+		assert.strictEqual(namingStyle, 'snake_case');
+
+		const spec = jsonModelSpec(model, { namingStyle, members: defaultDataClassOptions });
+		assert.deepStrictEqual(spec.fields.map((f) => f.key), ['user_id', 'class', 'URL', 'createdAt']);
+	});
+});
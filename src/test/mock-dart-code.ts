@@ -0,0 +1,42 @@
+import { DartCodeAdapter } from '../utils/dart-code-api';
+
+/**
+ * A `DartCodeAdapter` returning the given values, for tests without the
+ * Dart extension.
+ */
+export class MockDartCodeAdapter implements DartCodeAdapter {
+	constructor(
+		private readonly values: {
+			supported?: boolean;
+			dartSdk?: string;
+			flutterSdk?: string;
+			flutterVersion?: string;
+			projects?: Array<string>;
+		} = {}
+	) {}
+
+	get supported() {
+		return this.values.supported ?? true;
+	}
+
+	dartSdk() {
+		return this.read(this.values.dartSdk);
+	}
+
+	flutterSdk() {
+		return this.read(this.values.flutterSdk);
+	}
+
+	flutterVersion() {
+		return this.read(this.values.flutterVersion);
+	}
+
+	projects() {
+		return this.read(this.values.projects);
+	}
+
+	/** Like `DartCodeApi`, an unsupported API provides no values. */
+	private read<T>(value: T): T | undefined {
+		return this.supported ? value : undefined;
+	}
+}
@@ -0,0 +1,172 @@
+import * as assert from 'assert';
+import { parse } from 'yaml';
+
+import { defaultDataClassOptions, generateOpenApiModels } from '../generators';
+import { parseDart } from '../parser';
+
+const petstore = parse(`
+openapi: 3.0.3
+info:
+  title: Petstore
+  version: 1.0.0
+paths: {}
+components:
+  schemas:
+    PetStatus:
+      type: string
+      enum: [available, pending-review, sold]
+    Cat:
+      type: object
+      description: A cat.
+      required: [id, name]
+      properties:
+        id:
+          type: integer
+        name:
+          type: string
+          description: Name of the cat.
+        status:
+          $ref: '#/components/schemas/PetStatus'
+        born_at:
+          type: string
+          format: date-time
+          nullable: true
+        tags:
+          type: array
+          items:
+            type: string
+        owner:
+          type: object
+          properties:
+            email:
+              type: string
+    Dog:
+      allOf:
+        - $ref: '#/components/schemas/Cat'
+        - type: object
+          required: [good]
+          properties:
+            good:
+              type: boolean
+              default: true
+    Pet:
+      oneOf:
+        - $ref: '#/components/schemas/Cat'
+        - $ref: '#/components/schemas/Dog'
+      discriminator:
+        propertyName: petType
+        mapping:
+          cat: '#/components/schemas/Cat'
+          dog: '#/components/schemas/Dog'
+`);
+
+const generate = () => {
+	const { files, warnings } = generateOpenApiModels(petstore, defaultDataClassOptions);
+	return { files: new Map(files.map((file) => [file.path, file.content])), warnings };
+};
+
+suite('OpenAPI Models', () => {
+	test('Generates one library per schema', () => {
+		const { files, warnings } = generate();
+		assert.deepStrictEqual([...files.keys()], ['pet_status.dart', 'cat.dart', 'dog.dart', 'pet.dart']);
+		assert.deepStrictEqual(warnings, []);
+	});
+
+	test('Generates data classes with imports and inline models', () => {
+		const cat = generate().files.get('cat.dart')!;
+		assert.ok(cat.startsWith(`import 'dart:convert';\n\nimport 'package:collection/collection.dart';\n\nimport 'pet_status.dart';\n\n/// A cat.\nclass Cat {\n`));
+		assert.deepStrictEqual(
+			parseDart(cat).classes.map((c) => [c.name, c.fields.map((f) => `${f.type?.text} ${f.name}`)]),
+			[
+				['Cat', ['int id', 'String name', 'PetStatus? status', 'DateTime? bornAt', 'List<String>? tags', 'CatOwner? owner']],
+				['CatOwner', ['String? email']],
+			],
+		);
+		assert.ok(cat.includes('  /// Name of the cat.\n  final String name;'));
+		assert.ok(cat.includes(`status: map['status'] == null ? null : PetStatus.fromValue(map['status'] as String),`));
+		assert.ok(cat.includes(`'status': status?.value,`));
+		assert.ok(cat.includes(`'born_at': bornAt?.toIso8601String(),`));
+	});
+
+	test('Merges allOf properties', () => {
+		const dog = generate().files.get('dog.dart')!;
+		const [declaration] = parseDart(dog).classes;
+		assert.deepStrictEqual(declaration.fields.map((f) => f.name), ['id', 'name', 'status', 'bornAt', 'tags', 'owner', 'good']);
+		assert.ok(dog.includes('this.good = true,'));
+		assert.ok(dog.includes(`import 'pet_status.dart';`));
+		assert.deepStrictEqual(parseDart(dog).classes.map((c) => c.name), ['Dog', 'DogOwner']);
+	});
+
+	test('Generates enums with wire values', () => {
+		const status = generate().files.get('pet_status.dart')!;
+		assert.ok(status.startsWith(`enum PetStatus {\n  available('available'),\n  pendingReview('pending-review'),\n  sold('sold');\n`));
+		assert.ok(status.includes('static PetStatus fromValue(String value)'));
+	});
+
+	test('Renames the enum values that clash with enum members', () => {
+		const { files } = generateOpenApiModels(
+			{ components: { schemas: { Field: { type: 'string', enum: ['value', 'name', 'from_value', 'label'] } } } },
+			defaultDataClassOptions
+		);
+		assert.ok(
+			files[0].content.includes(`  valueValue('value'),\n  nameValue('name'),\n  fromValueValue('from_value'),\n  label('label');\n`)
+		);
+	});
+
+	test('Generates sealed classes for discriminated unions', () => {
+		const pet = generate().files.get('pet.dart')!;
+		assert.ok(pet.includes(`      switch (map['petType']) {\n        'cat' => Pet$Cat(Cat.fromMap(map)),\n        'dog' => Pet$Dog(Dog.fromMap(map)),`));
+		assert.deepStrictEqual(
+			parseDart(pet).classes.map((c) => [c.modifiers.join(' '), c.name, c.superclass?.text]),
+			[['sealed', 'Pet', undefined], ['final', 'Pet$Cat', 'Pet'], ['final', 'Pet$Dog', 'Pet']],
+		);
+		assert.ok(pet.includes(`'petType': 'dog',`));
+	});
+
+	test('Converts the fields referencing aliases with their underlying type', () => {
+		const { files, warnings } = generateOpenApiModels(
+			{
+				components: {
+					schemas: {
+						Tags: { type: 'array', items: { type: 'string' } },
+						Id: { type: 'string', format: 'uuid' },
+						When: { type: 'string', format: 'date-time' },
+						Pet: {
+							type: 'object',
+							required: ['id', 'tags'],
+							properties: {
+								id: { $ref: '#/components/schemas/Id' },
+								tags: { $ref: '#/components/schemas/Tags' },
+								when: { $ref: '#/components/schemas/When' },
+							},
+						},
+					},
+				},
+			},
+			defaultDataClassOptions,
+		);
+		const contents = new Map(files.map((file) => [file.path, file.content]));
+		assert.deepStrictEqual(warnings, []);
+		assert.strictEqual(contents.get('tags.dart'), 'typedef Tags = List<String>;\n');
+		const pet = contents.get('pet.dart')!;
+		assert.deepStrictEqual(
+			parseDart(pet).classes[0].fields.map((f) => `${f.type?.text} ${f.name}`),
+			['String id', 'List<String> tags', 'DateTime? when'],
+		);
+		assert.ok(pet.includes(`id: map['id'] as String,`));
+		assert.ok(pet.includes(`tags: List<String>.from(map['tags'] as List),`));
+		assert.ok(pet.includes(`when: map['when'] == null ? null : DateTime.parse(map['when'] as String),`));
+		assert.ok(pet.includes(`'tags': tags,`));
+		assert.ok(pet.includes(`'when': when?.toIso8601String(),`));
+		assert.ok(pet.includes('const DeepCollectionEquality().equals(tags, other.tags)'));
+		assert.ok(!pet.includes(`import 'tags.dart';`));
+	});
+
+	test('Reports unresolved references', () => {
+		const { warnings } = generateOpenApiModels(
+			{ components: { schemas: { A: { type: 'object', properties: { b: { $ref: 'other.yaml#/B' } } } } } },
+			defaultDataClassOptions,
+		);
+		assert.deepStrictEqual(warnings, ['A.b: unresolved reference other.yaml#/B']);
+	});
+});
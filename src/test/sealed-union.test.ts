@@ -0,0 +1,154 @@
+import * as assert from 'assert';
+
+import { defaultGeneratorDefaults } from '../config/generator-defaults';
+import { editSealedCases, findIncompleteMapCalls, findSealedUnions, formatCaseSpec, generateSealedUnion, parseCaseSpec, readCaseSpec, renderSnippet, SealedCase, SealedUnionTemplate, TextReplacement } from '../generators';
+
+const generate = (cases: Array<SealedCase>, template: SealedUnionTemplate = 'state') => generateSealedUnion({
+	template,
+	className: 'AuthState',
+	templateName: 'auth_state',
+	cases,
+	options: defaultGeneratorDefaults.sealedStates.options,
+	useMeta: true,
+});
+
+suite('Sealed Union Generator', () => {
+	test('Parses the fields of each state', () => {
+		const spec = 'idle; Processing(double progress = 0), failed(Object error, Map<String, int>? context)';
+		const { cases, errors } = parseCaseSpec(spec);
+
+		assert.deepStrictEqual(errors, []);
+		assert.deepStrictEqual(cases, [
+			{ name: 'idle', fields: [] },
+			{ name: 'processing', fields: [{ name: 'progress', type: 'double', defaultValue: '0' }] },
+			{ name: 'failed', fields: [{ name: 'error', type: 'Object', defaultValue: undefined }, { name: 'context', type: 'Map<String, int>?', defaultValue: undefined }] },
+		]);
+		assert.strictEqual(formatCaseSpec(cases), 'idle, processing(double progress = 0), failed(Object error, Map<String, int>? context)');
+	});
+
+	test('Reads the cases from a YAML block', () => {
+		const { cases, errors } = readCaseSpec({ idle: null, processing: { progress: 'double = 0' }, failed: { error: 'Object' } });
+
+		assert.deepStrictEqual(errors, []);
+		assert.strictEqual(formatCaseSpec(cases), 'idle, processing(double progress = 0), failed(Object error)');
+		assert.strictEqual(formatCaseSpec(readCaseSpec(['idle', { failed: { error: 'Object' } }]).cases), 'idle, failed(Object error)');
+	});
+
+	test('Reports invalid cases', () => {
+		assert.deepStrictEqual(parseCaseSpec('idle, idle, 1st, failed(int), done(int data, int q =)').errors, [
+			'The case idle is declared twice.',
+			'Invalid case name "1st".',
+			'failed: expected a type and a name in "int".',
+			'done: data cannot be used as a field name.',
+			'done: missing default value of q.',
+		]);
+	});
+
+	test('Passes the fields through the generated classes', () => {
+		const code = generate(parseCaseSpec('idle, failed(Object error, StackTrace? stackTrace)').cases);
+
+		assert.ok(code.includes('  const factory ${1}.failed({\n    required Object error,\n    StackTrace? stackTrace,\n    ${1}Entity? data,'));
+		assert.ok(code.includes('const ${1}\\$Failed({required this.error, this.stackTrace, super.data, super.message = \'Failed\'});'));
+		assert.ok(code.includes('  final Object error;\n  final StackTrace? stackTrace;'));
+		assert.ok(code.includes('int get hashCode => Object.hash(super.hashCode, error, stackTrace);'));
+		assert.ok(code.includes('(other is ${1}\\$Failed && error == other.error && stackTrace == other.stackTrace);'));
+		assert.ok(code.includes('String toString() => \'${1}.\\$type{message: \\$message, error: \\$error, stackTrace: \\$stackTrace}\';'));
+		assert.ok(code.includes('      ${1}\\$Idle(\n'));
+	});
+
+	test('Builds the initial state from a state without required fields', () => {
+		const code = generate(parseCaseSpec('loaded(String value), processing(double? progress)').cases);
+		assert.ok(code.includes('      ${1}\\$Processing(\n'));
+
+		const withoutInitial = generate(parseCaseSpec('loaded(String value)').cases);
+		assert.ok(!withoutInitial.includes('.initial('));
+	});
+
+	test('Generates events without the payload of states', () => {
+		const code = generate(parseCaseSpec('started, loggedIn(String email, bool remember = false)', 'event').cases, 'event');
+
+		assert.ok(!code.includes('Entity'));
+		assert.ok(code.includes('/// ${1:AuthState}.\n/// {@endtemplate}\nsealed class ${1} extends _\\$${1}Base {\n  /// {@macro ${2}}\n  const ${1}();'));
+		assert.ok(code.includes('  const factory ${1}.started() = ${1}\\$Started;'));
+		assert.ok(code.includes('  const factory ${1}.loggedIn({\n    required String email,\n    bool remember,\n  }) = ${1}\\$LoggedIn;'));
+		assert.ok(code.includes('  const ${1}\\$LoggedIn({required this.email, this.remember = false});'));
+		assert.ok(code.includes('String toString() => \'${1}.started{}\';'));
+		assert.ok(code.includes('String toString() => \'${1}.loggedIn{email: \\$email, remember: \\$remember}\';'));
+		assert.ok(code.includes('int get hashCode => type.hashCode;'));
+		assert.ok(!code.includes('.initial('));
+	});
+
+	test('Generates exhaustive pattern matching for every template', () => {
+		for (const template of ['state', 'event', 'union'] as const) {
+			const code = generate(parseCaseSpec('success(Object value), failure(Object error)', template).cases, template);
+			const sealedClass = code.substring(code.indexOf('sealed class'), code.indexOf('final class'));
+
+			assert.ok(sealedClass.includes('      switch (this) {\n        ${1}\\$Success s => success(s),\n        ${1}\\$Failure s => failure(s),\n      };'), template);
+			assert.ok(sealedClass.includes('  R maybeMap<R>({'), template);
+			assert.ok(sealedClass.includes('  R? mapOrNull<R>({'), template);
+		}
+	});
+
+	test('Reserves the payload names for states only', () => {
+		assert.deepStrictEqual(parseCaseSpec('success(Object data)', 'union').errors, []);
+		assert.deepStrictEqual(parseCaseSpec('success(Object data)', 'state').errors, ['success: data cannot be used as a field name.']);
+	});
+});
+
+suite('Sealed Union Cases', () => {
+	const render = (spec: string, template: SealedUnionTemplate = 'state') => renderSnippet(generate(parseCaseSpec(spec, template).cases, template));
+
+	const apply = (source: string, edits: Array<TextReplacement>) =>
+		[...edits].reverse().reduce((text, edit) => text.substring(0, edit.start) + edit.text + text.substring(edit.end), source);
+
+	const edit = (source: string, spec: string, renames = new Map<string, string>()) => {
+		const [union] = findSealedUnions(source);
+		return apply(source, editSealedCases(source, union, parseCaseSpec(spec, union.template).cases, renames));
+	};
+
+	test('Finds generated unions', () => {
+		const [union] = findSealedUnions(render('idle, failed(Object error, StackTrace? stackTrace)'));
+
+		assert.strictEqual(union.className, 'AuthState');
+		assert.strictEqual(union.templateName, 'auth_state');
+		assert.strictEqual(union.template, 'state');
+		assert.deepStrictEqual(union.options, defaultGeneratorDefaults.sealedStates.options);
+		assert.strictEqual(formatCaseSpec(union.cases), 'idle, failed(Object error, StackTrace? stackTrace)');
+		assert.deepStrictEqual(findSealedUnions(render('success(Object value)', 'union'))[0].template, 'union');
+	});
+
+	test('Adds, renames and removes cases', () => {
+		const source = render('idle, processing(double progress = 0), failed(Object error)');
+
+		assert.strictEqual(edit(source, 'idle, processing(double progress = 0), failed(Object error), succeeded(String result)'), render('idle, processing(double progress = 0), failed(Object error), succeeded(String result)'));
+		assert.strictEqual(edit(source, 'idle, failed(Object error)'), render('idle, failed(Object error)'));
+		assert.strictEqual(edit(source, 'idle, loading(double progress = 0), failed(Object error)', new Map([['processing', 'loading']])), render('idle, loading(double progress = 0), failed(Object error)'));
+	});
+
+	test('Keeps the members written by hand', () => {
+		const source = render('success(Object value), failure(Object error)', 'union')
+			.replace('  final Object error;\n', '  final Object error;\n\n  bool get isFatal => error is Error;\n')
+			+ '\nvoid log(AuthState$Failure failure) {}\n';
+		const result = edit(source, 'success(Object value), error(Object error)', new Map([['failure', 'error']]));
+
+		assert.ok(result.includes('final class AuthState$Error extends AuthState {\n  const AuthState$Error({required this.error});\n\n  final Object error;\n\n  bool get isFatal => error is Error;'));
+		assert.ok(result.includes('  bool get isError => this is AuthState$Error;'));
+		assert.ok(!result.includes('Failure'));
+	});
+
+	test('Finds map calls that miss a case', () => {
+		const source = [
+			'final a = state.map(idle: (_) => 0, failed: (_) => 1);',
+			'final b = state.map<int>(idle: (_) => 0, failed: (_) => 1, succeeded: (_) => 2);',
+			'final c = list.map((e) => e < 1);',
+			'final d = other.map(idle: (_) => 0);',
+		].join('\n');
+
+		assert.deepStrictEqual(findIncompleteMapCalls(source, ['idle', 'failed', 'succeeded'], ['idle', 'failed']).map(({ start, missing, obsolete }) => ({ line: source.substring(0, start).split('\n').length, missing, obsolete })), [
+			{ line: 1, missing: ['succeeded'], obsolete: [] },
+		]);
+		assert.deepStrictEqual(findIncompleteMapCalls(source, ['idle', 'error'], ['idle', 'failed']).map(({ missing, obsolete }) => [missing, obsolete]), [
+			[['error'], ['failed']],
+		]);
+	});
+});
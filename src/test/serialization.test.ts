@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+
+import { fromJsonExpression, toJsonExpression } from '../generators';
+import { parseDartType } from '../parser';
+
+const fromJson = (type: string) => fromJsonExpression(parseDartType(type)!, `map['x']`);
+const toJson = (type: string) => toJsonExpression(parseDartType(type)!, 'x');
+
+suite('Serialization', () => {
+	test('Converts JSON primitives', () => {
+		assert.strictEqual(fromJson('String'), `map['x'] as String`);
+		assert.strictEqual(fromJson('String?'), `map['x'] as String?`);
+		assert.strictEqual(fromJson('int'), `(map['x'] as num).toInt()`);
+		assert.strictEqual(fromJson('double?'), `(map['x'] as num?)?.toDouble()`);
+		assert.strictEqual(fromJson('dynamic'), `map['x']`);
+		assert.strictEqual(toJson('int?'), 'x');
+	});
+
+	test('Converts core types', () => {
+		assert.strictEqual(fromJson('DateTime'), `DateTime.parse(map['x'] as String)`);
+		assert.strictEqual(fromJson('Duration?'), `map['x'] == null ? null : Duration(milliseconds: (map['x'] as num).toInt())`);
+		assert.strictEqual(fromJson('Uri'), `Uri.parse(map['x'] as String)`);
+		assert.strictEqual(toJson('DateTime?'), 'x?.toIso8601String()');
+		assert.strictEqual(toJson('Duration'), 'x.inMilliseconds');
+		assert.strictEqual(toJson('BigInt'), 'x.toString()');
+		assert.strictEqual(toJson('Color'), 'x.toARGB32()');
+	});
+
+	test('Converts models and collections of models', () => {
+		assert.strictEqual(fromJson('Address?'), `map['x'] == null ? null : Address.fromMap(map['x'] as Map<String, dynamic>)`);
+		assert.strictEqual(fromJson('List<Address>'), `(map['x'] as List).map((e) => Address.fromMap(e as Map<String, dynamic>)).toList()`);
+		assert.strictEqual(fromJson('List<String>'), `List<String>.from(map['x'] as List)`);
+		assert.strictEqual(
+			fromJson('Map<String, Tag>'),
+			`(map['x'] as Map<String, dynamic>).map((k, e) => MapEntry(k, Tag.fromMap(e as Map<String, dynamic>)))`,
+		);
+		assert.strictEqual(toJson('List<Address>?'), 'x?.map((e) => e.toMap()).toList()');
+		assert.strictEqual(toJson('Map<String, Tag>'), 'x.map((k, e) => MapEntry(k, e.toMap()))');
+		assert.strictEqual(toJson('Set<String>'), 'x.toList()');
+	});
+
+	test('Converts nested nullable collections', () => {
+		assert.strictEqual(
+			fromJson('List<List<DateTime?>>?'),
+			`map['x'] == null ? null : (map['x'] as List).map((e) => (e as List).map((e1) => e1 == null ? null : DateTime.parse(e1 as String)).toList()).toList()`,
+		);
+		assert.strictEqual(
+			fromJson('Map<int, int?>'),
+			`(map['x'] as Map<String, dynamic>).map((k, e) => MapEntry(int.parse(k), (e as num?)?.toInt()))`,
+		);
+		assert.strictEqual(toJson('List<List<DateTime?>>?'), 'x?.map((e) => e.map((e1) => e1?.toIso8601String()).toList()).toList()');
+		assert.strictEqual(toJson('Map<int, String>'), 'x.map((k, e) => MapEntry(k.toString(), e))');
+	});
+});
@@ -0,0 +1,122 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { parseAnalyzerOutput, TaskRunner } from '../tasks';
+import { fakeProcesses } from './fake-process';
+
+const root = path.resolve('/app');
+
+/** Lets the runner start the queued tasks. */
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+suite('Task Runner', () => {
+	test('Reads the problems of the analyzer, the compiler and build_runner', () => {
+		const output = [
+			"  error - lib/main.dart:3:5 - Undefined name 'x'. - undefined_identifier",
+			"   info • Unused import • lib/home.dart:1:8 • unused_import",
+			"WARNING|STATIC_WARNING|DEAD_CODE|/app/lib/dead.dart|7|3|10|Dead code.",
+			"lib/user.dart:12:18: Error: Type 'Foo' not found.",
+			'[SEVERE] json_serializable on lib/src/user.dart:',
+			'',
+			'Could not generate `fromJson` code for `createdAt`.',
+			'package:app/src/user.dart:12:18',
+			'   ╷',
+			'12 │   final Foo createdAt;',
+			'   │             ^^^^^^^^^',
+			'   ╵',
+			'[INFO] Running build completed, took 1.2s',
+		].join('\n');
+
+		assert.deepStrictEqual(parseAnalyzerOutput(output, root), [
+			{
+				file: path.join(root, 'lib/main.dart'),
+				line: 3,
+				column: 5,
+				severity: 'error',
+				message: "Undefined name 'x'.",
+				code: 'undefined_identifier',
+			},
+			{ file: path.join(root, 'lib/home.dart'), line: 1, column: 8, severity: 'info', message: 'Unused import', code: 'unused_import' },
+			{ file: path.resolve('/app/lib/dead.dart'), line: 7, column: 3, length: 10, severity: 'warning', message: 'Dead code.', code: 'dead_code' },
+			{ file: path.join(root, 'lib/user.dart'), line: 12, column: 18, severity: 'error', message: "Type 'Foo' not found." },
+			{
+				file: path.join(root, 'lib/src/user.dart'),
+				line: 12,
+				column: 18,
+				severity: 'error',
+				message: 'Could not generate `fromJson` code for `createdAt`.',
+				code: 'json_serializable',
+			},
+		]);
+	});
+
+	test('Reports the exit code, the output and the problems', async () => {
+		const { spawn, started } = fakeProcesses();
+		const runner = new TaskRunner(spawn);
+		const result = runner.run({ title: 'Analyze', command: 'dart', args: ['analyze'], cwd: root });
+		await settle();
+
+		assert.deepStrictEqual(
+			started.map(({ command, args, cwd }) => ({ command, args, cwd })),
+			[{ command: 'dart', args: ['analyze'], cwd: root }]
+		);
+		started[0].write('Analyzing app...\n');
+		started[0].write('  error - lib/main.dart:3:5 - Undefined name.\n');
+		started[0].exit(3);
+
+		const { exitCode, output, problems } = await result;
+		assert.strictEqual(exitCode, 3);
+		assert.strictEqual(output, 'Analyzing app...\n  error - lib/main.dart:3:5 - Undefined name.\n');
+		assert.deepStrictEqual(
+			problems.map((problem) => problem.line),
+			[3]
+		);
+		assert.ok(!runner.isBusy(root));
+	});
+
+	test('Reports the commands that cannot start', async () => {
+		const finished: Array<number | null> = [];
+		const runner = new TaskRunner(
+			() => {
+				throw new Error('spawn EBADF');
+			},
+			{ onFinish: (_, result) => finished.push(result.exitCode) }
+		);
+
+		const { exitCode, output } = await runner.run({ title: 'Analyze', command: 'dart', args: ['analyze'], cwd: root });
+		assert.strictEqual(exitCode, null);
+		assert.strictEqual(output, 'spawn EBADF\n');
+		assert.deepStrictEqual(finished, [null]);
+		assert.ok(!runner.isBusy(root));
+	});
+
+	test('Queues the tasks of a package and reuses identical runs', async () => {
+		const { spawn, started } = fakeProcesses();
+		const runner = new TaskRunner(spawn);
+		const pubGet = { title: 'Get Packages', command: 'flutter', args: ['pub', 'get'], cwd: root };
+		const first = runner.run(pubGet);
+		const build = runner.run({ title: 'Build', command: 'dart', args: ['run', 'build_runner', 'build'], cwd: root });
+		const other = runner.run({ ...pubGet, cwd: path.resolve('/other') });
+		assert.strictEqual(runner.run(pubGet), first);
+		await settle();
+
+		// The other package does not wait
+		assert.deepStrictEqual(
+			started.map((process) => process.args[0]),
+			['pub', 'pub']
+		);
+		started[0].exit(0);
+		await first;
+		await settle();
+		assert.deepStrictEqual(
+			started.map((process) => process.args[0]),
+			['pub', 'pub', 'run']
+		);
+		assert.notStrictEqual(runner.run(pubGet), first);
+
+		started[1].exit(0);
+		started[2].exit(1);
+		assert.strictEqual((await other).exitCode, 0);
+		assert.strictEqual((await build).exitCode, 1);
+	});
+});
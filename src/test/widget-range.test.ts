@@ -0,0 +1,123 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { moveWidget, TextReplacement, unwrapWidget } from '../generators';
+import { findWidgetArguments, findWidgetRange, findWidgetSiblings, findWrappedWidget, tokenizeDart, WidgetRange } from '../parser';
+
+// Fixtures live next to the sources, the compiled tests run from `out/test`.
+const fixtures = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures', 'widget-range');
+
+/**
+ * Reads a fixture: `‸` marks the cursor and `«...»` the expected widget,
+ * which is missing when no widget is expected.
+ */
+const readFixture = (name: string) => {
+	const marked = fs.readFileSync(path.join(fixtures, name), 'utf8');
+	const source = marked.replace(/[‸«»]/g, '');
+	const offsetOf = (marker: string) => {
+		const index = marked.indexOf(marker);
+		return index < 0 ? -1 : marked.substring(0, index).replace(/[‸«»]/g, '').length;
+	};
+	const start = offsetOf('«');
+	return {
+		source,
+		cursor: offsetOf('‸'),
+		expected: start < 0 ? undefined : source.substring(start, offsetOf('»')),
+	};
+};
+
+suite('Widget Range', () => {
+	for (const name of fs.readdirSync(fixtures).filter((file) => file.endsWith('.dart'))) {
+		test(`Finds the widget in ${path.basename(name, '.dart').replace(/-/g, ' ')}`, () => {
+			const { source, cursor, expected } = readFixture(name);
+			const range = findWidgetRange(source, cursor);
+
+			assert.strictEqual(range && source.substring(range.start, range.end), expected);
+		});
+	}
+
+	test('Finds the widget enclosing a selection', () => {
+		const source = `Row(children: [Text('a'), Text('b')])`;
+		const range = findWidgetRange(source, source.indexOf("'a'"), source.indexOf("'b'"));
+
+		assert.deepStrictEqual(range, { name: 'Row', start: 0, end: source.length });
+	});
+});
+
+suite('Widget Refactors', () => {
+	const widgetAt = (source: string, marker: string): WidgetRange => findWidgetRange(source, source.indexOf(marker))!;
+	const apply = (source: string, edit?: TextReplacement) =>
+		edit && source.substring(0, edit.start) + edit.text + source.substring(edit.end);
+
+	test('Unwraps the child of a wrapper', () => {
+		const source = `Center(child: Padding(padding: EdgeInsets.all(8), child: Text('(a)'),),)`;
+
+		assert.strictEqual(apply(source, unwrapWidget(source, widgetAt(source, 'Padding'))), `Center(child: Text('(a)'),)`);
+		assert.strictEqual(unwrapWidget(source, widgetAt(source, 'Text')), undefined);
+	});
+
+	test('Unwraps the widget returned by a builder', () => {
+		const arrow = `ListenableBuilder(listenable: _a, builder: (context, _) => Text('a'))`;
+		const block = `Builder(builder: (context) {\n  return const Text('b');\n})`;
+		const statements = `Builder(builder: (context) {\n  print(1);\n  return Text('c');\n})`;
+
+		assert.strictEqual(apply(arrow, unwrapWidget(arrow, widgetAt(arrow, 'Listenable'))), `Text('a')`);
+		assert.strictEqual(apply(block, unwrapWidget(block, widgetAt(block, 'Builder'))), `const Text('b')`);
+		assert.strictEqual(unwrapWidget(statements, widgetAt(statements, 'Builder')), undefined);
+	});
+
+	test('Moves a widget within its children', () => {
+		const source = `Column(children: [Text('a'), if (b) Text('b'), const Text('c'),])`;
+
+		assert.strictEqual(
+			apply(source, moveWidget(source, widgetAt(source, "Text('b')"), 'up')),
+			`Column(children: [if (b) Text('b'), Text('a'), const Text('c'),])`,
+		);
+		assert.strictEqual(
+			apply(source, moveWidget(source, widgetAt(source, "Text('b')"), 'down')),
+			`Column(children: [Text('a'), const Text('c'), if (b) Text('b'),])`,
+		);
+		assert.strictEqual(moveWidget(source, widgetAt(source, "Text('a')"), 'up'), undefined);
+		assert.strictEqual(moveWidget(source, widgetAt(source, 'Column'), 'down'), undefined);
+	});
+
+	test('Keeps the type arguments of a generic child', () => {
+		const source = `Padding(padding: p, child: BlocBuilder<ABloc, AState>(builder: (context, state) => Text(a)))`;
+
+		assert.deepStrictEqual(
+			findWidgetArguments(source, widgetAt(source, 'Padding'))?.map(({ name }) => name),
+			['padding', 'child']
+		);
+		assert.strictEqual(
+			apply(source, unwrapWidget(source, widgetAt(source, 'Padding'))),
+			`BlocBuilder<ABloc, AState>(builder: (context, state) => Text(a))`
+		);
+	});
+
+	test('Moves a widget within a typed list of children', () => {
+		const source = `Column(children: <Widget>[Text(a), BlocBuilder<ABloc, AState>(builder: f), Text(b)])`;
+		const bloc = widgetAt(source, 'BlocBuilder');
+
+		assert.strictEqual(findWidgetSiblings(source, bloc)?.elements.length, 3);
+		assert.strictEqual(
+			apply(source, moveWidget(source, bloc, 'down')),
+			`Column(children: <Widget>[Text(a), Text(b), BlocBuilder<ABloc, AState>(builder: f)])`
+		);
+		assert.strictEqual(
+			apply(source, moveWidget(source, widgetAt(source, 'Text(a)'), 'down')),
+			`Column(children: <Widget>[BlocBuilder<ABloc, AState>(builder: f), Text(a), Text(b)])`
+		);
+	});
+
+	test('Uses the tokens of the whole document', () => {
+		const source = `Center(child: Builder(builder: (context) => Column(children: [Text('a'), Text('b')])))`;
+		const tokens = tokenizeDart(source);
+		const builder = findWidgetRange(source, source.indexOf('Builder'), undefined, tokens)!;
+		const text = findWidgetRange(source, source.indexOf("Text('a')"), undefined, tokens)!;
+
+		assert.deepStrictEqual(builder, widgetAt(source, 'Builder'));
+		assert.deepStrictEqual(findWrappedWidget(source, builder, tokens), findWrappedWidget(source, builder));
+		assert.deepStrictEqual(moveWidget(source, text, 'down', tokens), moveWidget(source, text, 'down'));
+	});
+});
@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+
+import { mergeWraps, orderWraps, packWraps, readWrapFile, wrapCommandId } from '../config/wrap-sources';
+
+suite('Wrap Sources', () => {
+	test('Reads the wraps and packs of flutter_plus.yaml', () => {
+		const file = readWrapFile(
+			[
+				'wrap_packs: [bloc]',
+				'wraps:',
+				'  - name: Card',
+				'    body: |-',
+				'      Card(',
+				'        child: ${widget},',
+				'      )',
+				'  - name: Center',
+				'    body: ["Center(child: ${widget})"]',
+				'    when:',
+				'      sliver: false',
+			].join('\n'),
+			'flutter_plus.yaml'
+		);
+		assert.deepStrictEqual(file, {
+			packs: ['bloc'],
+			errors: [],
+			wraps: [
+				{ name: 'Card', body: ['Card(', '  child: ${widget},', ')'], location: 'flutter_plus.yaml:3' },
+				{ name: 'Center', body: ['Center(child: ${widget})'], when: { sliver: false }, location: 'flutter_plus.yaml:8' },
+			],
+		});
+	});
+
+	test('Reports invalid wraps and unknown packs', () => {
+		const file = readWrapFile(
+			['wrap_packs: [bloc, redux]', 'wraps:', '  - name: Card', '  - name: Row', '    body: [Row()]', '    group: layout.row', '  - name: Center', '    body: "Center(child: ${widget})"'].join('\n'),
+			'flutter_plus.yaml'
+		);
+		assert.deepStrictEqual(file.packs, ['bloc']);
+		assert.deepStrictEqual(file.wraps.map((wrap) => wrap.name), ['Center']);
+		assert.deepStrictEqual(file.errors, [
+			'flutter_plus.yaml: unknown wrap pack redux, expected bloc, provider, riverpod, animation.',
+			'flutter_plus.yaml:3: the body of Card must be a string or a list of lines.',
+			'flutter_plus.yaml:4: the group of Row must be a word, e.g. layout.',
+		]);
+	});
+
+	test('Merges the wraps by name and reports duplicates', () => {
+		const { wraps, duplicates } = mergeWraps([
+			packWraps(['riverpod']),
+			[
+				{ name: 'ProviderScope', body: ['Scope(child: ${widget})'], location: 'flutter_plus.yaml:3' },
+				{ name: 'Card', body: ['Card(child: ${widget})'], location: 'flutter_plus.yaml:5' },
+			],
+			[
+				{ name: 'card', body: ['Card(child: ${widget})'], location: 'user settings, flutter-plus.wraps[0]' },
+				{ name: 'Center', body: ['Center(child: ${widget})'], location: 'user settings, flutter-plus.wraps[1]' },
+				{ name: 'Center', body: ['Center(${widget})'], location: 'user settings, flutter-plus.wraps[2]' },
+			],
+		]);
+		assert.deepStrictEqual(
+			wraps.map((wrap) => `${wrap.name} ${wrap.location}`),
+			[
+				'Riverpod Consumer riverpod pack',
+				'ProviderScope flutter_plus.yaml:3',
+				'card user settings, flutter-plus.wraps[0]',
+				'Center user settings, flutter-plus.wraps[2]',
+			]
+		);
+		assert.deepStrictEqual(duplicates, [
+			'card (user settings, flutter-plus.wraps[0]) has the same command as Card (flutter_plus.yaml:5).',
+			'Center (user settings, flutter-plus.wraps[2]) has the same command as Center (user settings, flutter-plus.wraps[1]).',
+		]);
+		assert.strictEqual(wrapCommandId('Riverpod Consumer'), 'flutter-plus.wrapWith.riverpod-consumer');
+	});
+
+	test('Orders the favourite wraps first', () => {
+		const wraps = ['Card', 'Center', 'Padding', 'Row'].map((name) => ({ name, body: [] }));
+		assert.deepStrictEqual(
+			orderWraps(wraps, ['Row', 'Unknown', 'Center']).map((wrap) => wrap.name),
+			['Row', 'Center', 'Card', 'Padding']
+		);
+	});
+});
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+
+import { expandWrapTemplate, scopeWrapConditions, wrapApplies, wrapContext } from '../generators';
+import { findWidgetRange } from '../parser';
+
+const source = `import 'package:flutter/material.dart';
+import "package:flutter_bloc/flutter_bloc.dart" show BlocBuilder;
+
+class HomePage extends StatelessWidget {
+  @override
+  Widget build(BuildContext context) {
+    return CustomScrollView(slivers: [SliverList.list(children: [])]);
+  }
+
+  Widget _title() => Padding.symmetric(child: Text('\${title}'));
+}
+`;
+
+const contextAt = (marker: string) =>
+	wrapContext(source, findWidgetRange(source, source.indexOf(marker))!, 'home_page.dart');
+
+suite('Wrap Templates', () => {
+	test('Collects the context of the widget', () => {
+		assert.deepStrictEqual(contextAt('SliverList'), {
+			widget: 'SliverList.list(children: [])',
+			widgetType: 'SliverList',
+			className: 'HomePage',
+			fileName: 'home_page',
+			imports: ['package:flutter/material.dart', 'package:flutter_bloc/flutter_bloc.dart'],
+			insideBuild: true,
+		});
+		assert.strictEqual(contextAt('Padding').widgetType, 'Padding');
+		assert.strictEqual(contextAt('Padding').insideBuild, false);
+	});
+
+	test('Checks the conditions of a wrap', () => {
+		const sliver = contextAt('SliverList');
+		const padding = contextAt('Padding');
+
+		assert.ok(wrapApplies(undefined, padding));
+		assert.ok(wrapApplies({ sliver: true, insideBuild: true }, sliver));
+		assert.ok(!wrapApplies({ sliver: true }, padding));
+		assert.ok(wrapApplies({ sliver: false, widget: '^Pad' }, padding));
+		assert.ok(!wrapApplies({ widget: '^Text$' }, padding));
+		assert.ok(wrapApplies({ imports: ['package:provider', 'package:flutter_bloc'] }, padding));
+		assert.ok(!wrapApplies({ imports: 'package:provider' }, padding));
+	});
+
+	test('Scopes a wrap to box widgets or slivers', () => {
+		assert.deepStrictEqual(scopeWrapConditions(['SliverPadding(', '  sliver: ${widget},', ')'], undefined), { sliver: true });
+		assert.deepStrictEqual(scopeWrapConditions(['CustomScrollView(slivers: [${widget}])'], { insideBuild: true }), {
+			sliver: true,
+			insideBuild: true,
+		});
+		assert.deepStrictEqual(scopeWrapConditions(['SliverToBoxAdapter(child: ${widget})'], undefined), { sliver: false });
+		assert.deepStrictEqual(scopeWrapConditions(['Builder(builder: (context) => ${widget})'], { sliver: true }), {
+			sliver: true,
+		});
+	});
+
+	test('Replaces every variable and escapes the values', () => {
+		const body = [
+			'BlocSelector<${className}Bloc, ${className}State, ${1:bool}>(',
+			"  key: const Key('${fileName}'),",
+			'  builder: (context, ${2:value}) => ${widget},',
+			')',
+		];
+
+		assert.strictEqual(expandWrapTemplate(body, contextAt('Padding')), [
+			'BlocSelector<HomePageBloc, HomePageState, ${1:bool}>(',
+			"  key: const Key('home_page'),",
+			"  builder: (context, ${2:value}) => Padding.symmetric(child: Text('\\${title\\}')),",
+			')',
+		].join('\n'));
+	});
+
+});
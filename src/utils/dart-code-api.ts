@@ -0,0 +1,103 @@
+import * as path from "path";
+
+/**
+ * The members of the API exported by the Dart extension that Flutter Plus
+ * reads, named as in its `PublicDartExtensionApi` and `PublicSdks`
+ * interfaces: https://github.com/Dart-Code/Dart-Code
+ * Older versions of the extension lack some of them, so every member is
+ * checked before it is used.
+ */
+export interface DartCodeExports {
+  version?: number;
+  sdks?: {
+    dart?: string;
+    dartVersion?: string;
+    flutter?: string;
+    flutterVersion?: string;
+  };
+  workspace?: {
+    /** Folders of the Dart and Flutter projects the extension loaded. */
+    projectFolders?: ReadonlyArray<string>;
+  };
+}
+
+/** The oldest version of the exported API that `DartCodeApi` can read. */
+export const minimumDartCodeApiVersion = 2;
+
+/**
+ * What Flutter Plus needs from the Dart extension. A value is `undefined`
+ * when the extension does not provide it.
+ */
+export interface DartCodeAdapter {
+  /** Whether the exported API is recent enough to be read. */
+  readonly supported: boolean;
+  /** Path of the active Dart SDK. */
+  dartSdk(): string | undefined;
+  /** Path of the active Flutter SDK. */
+  flutterSdk(): string | undefined;
+  flutterVersion(): string | undefined;
+  /** Folders of the loaded projects. */
+  projects(): Array<string> | undefined;
+}
+
+/**
+ * Reads the API exported by the Dart extension, see {@link DartCodeExports}.
+ */
+export class DartCodeApi implements DartCodeAdapter {
+  public readonly supported: boolean;
+  private readonly api: DartCodeExports;
+
+  constructor(dartExtensionApi: unknown) {
+    this.api =
+      typeof dartExtensionApi === "object" && dartExtensionApi !== null
+        ? (dartExtensionApi as DartCodeExports)
+        : {};
+    this.supported =
+      typeof this.api.version === "number" &&
+      this.api.version >= minimumDartCodeApiVersion;
+  }
+
+  public dartSdk() {
+    return this.read(() => this.api.sdks?.dart);
+  }
+
+  public flutterSdk() {
+    return this.read(() => this.api.sdks?.flutter);
+  }
+
+  public flutterVersion() {
+    return this.read(() => this.api.sdks?.flutterVersion);
+  }
+
+  public projects() {
+    if (!this.supported) {
+      return undefined;
+    }
+    const folders = this.api.workspace?.projectFolders;
+    return Array.isArray(folders) &&
+      folders.every((folder) => typeof folder === "string")
+      ? [...folders]
+      : undefined;
+  }
+
+  /** The string returned by `member`, when the API is supported. */
+  private read(member: () => unknown): string | undefined {
+    if (!this.supported) {
+      return undefined;
+    }
+    const value = member();
+    return typeof value === "string" && value ? value : undefined;
+  }
+}
+
+/**
+ * The executable of `tool` in the active SDK, or the name of the tool,
+ * looked up in the `PATH`, when the SDK is unknown.
+ */
+export const sdkExecutable = (
+  sdk: DartCodeAdapter,
+  tool: "dart" | "flutter"
+): string => {
+  const root = tool === "dart" ? sdk.dartSdk() : sdk.flutterSdk();
+  return root ? path.join(root, "bin", tool) : tool;
+};
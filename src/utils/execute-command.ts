@@ -1,8 +1,83 @@
-import * as vscode from 'vscode';
-
-// Execute a command in the terminal
-export function executeCommand(command: string) {
-    const terminal = vscode.window.createTerminal('Flutter Plus');
-    terminal.sendText(command);
-    terminal.show();
-}
\ No newline at end of file
+import { spawn } from "child_process";
+
+/** A running command line, see {@link spawnProcess}. */
+export interface TaskProcess {
+  /** Called with the text written to stdout and stderr, in order. */
+  onOutput(listener: (text: string) => void): void;
+  /**
+   * Called once the process ended, with its exit code, or `null` when it
+   * could not start or was killed.
+   */
+  onExit(listener: (code: number | null) => void): void;
+  kill(): void;
+}
+
+/** Starts `command` with `args` in the `cwd` folder. */
+export type ProcessFactory = (
+  command: string,
+  args: Array<string>,
+  cwd: string
+) => TaskProcess;
+
+/**
+ * Starts a child process. On Windows the command runs in a shell, as
+ * `flutter` and `dart` are batch files there.
+ */
+export const spawnProcess: ProcessFactory = (command, args, cwd) => {
+  const shell = process.platform === "win32";
+  const child = spawn(
+    shell && /\s/.test(command) ? `"${command}"` : command,
+    args,
+    {
+      cwd,
+      shell,
+    }
+  );
+  const outputListeners: Array<(text: string) => void> = [];
+  const exitListeners: Array<(code: number | null) => void> = [];
+  const output = (text: string) =>
+    outputListeners.forEach((listener) => listener(text));
+  let exited = false;
+  const exit = (code: number | null) => {
+    // A process that fails to start may report both an error and a close
+    if (!exited) {
+      exited = true;
+      exitListeners.forEach((listener) => listener(code));
+    }
+  };
+
+  child.stdout?.setEncoding("utf8").on("data", output);
+  child.stderr?.setEncoding("utf8").on("data", output);
+  child.on("error", (error) => {
+    output(`${error.message}\n`);
+    exit(null);
+  });
+  child.on("close", (code) => exit(code));
+  return {
+    onOutput: (listener) => outputListeners.push(listener),
+    onExit: (listener) => exitListeners.push(listener),
+    kill: () => killProcessTree(child),
+  };
+};
+
+/**
+ * Stops `child` and the processes it started. On Windows `child` is the
+ * shell running the command, that `kill` would stop alone.
+ */
+export const killProcessTree = (
+  child: { readonly pid?: number; kill(): void },
+  platform: NodeJS.Platform = process.platform,
+  run: ProcessFactory = spawnProcess
+): void => {
+  if (platform !== "win32" || child.pid === undefined) {
+    child.kill();
+    return;
+  }
+  run("taskkill", ["/pid", `${child.pid}`, "/T", "/F"], process.cwd()).onExit(
+    (code) => {
+      if (code !== 0) {
+        child.kill();
+      }
+    }
+  );
+};
@@ -0,0 +1,40 @@
+import * as vscode from "vscode";
+
+/**
+ * Collects the changes of a generator and applies them at once.
+ * In preview mode every change needs a confirmation, so VS Code shows them
+ * in the refactor preview where they are accepted or discarded together.
+ */
+export class GeneratedEdit {
+  private readonly edit = new vscode.WorkspaceEdit();
+  private readonly metadata?: vscode.WorkspaceEditEntryMetadata;
+
+  constructor(label: string, public readonly preview: boolean) {
+    this.metadata = preview ? { label, needsConfirmation: true } : undefined;
+  }
+
+  public get size(): number {
+    return this.edit.size;
+  }
+
+  public replace(uri: vscode.Uri, range: vscode.Range, newText: string) {
+    this.edit.replace(uri, range, newText, this.metadata);
+  }
+
+  /** Creates the file `uri` with `content`, replacing an existing file. */
+  public createFile(uri: vscode.Uri, content: string) {
+    this.edit.createFile(
+      uri,
+      { overwrite: true, contents: new TextEncoder().encode(content) },
+      this.metadata
+    );
+  }
+
+  /**
+   * Applies the changes and returns whether they were applied. Changes
+   * discarded in the refactor preview are not applied.
+   */
+  public apply(): Thenable<boolean> {
+    return vscode.workspace.applyEdit(this.edit);
+  }
+}
@@ -0,0 +1,83 @@
+import * as vscode from "vscode";
+import { parse } from "yaml";
+import {
+  addImports,
+  missingDependencies,
+  TextReplacement,
+} from "../generators";
+import { findPackageRoot } from "./package-root";
+
+/**
+ * Returns the edit adding the missing `uris` to the imports of `document`,
+ * see {@link addImports}, and warns about the packages of `uris` that are not
+ * dependencies in its `pubspec.yaml`.
+ */
+export async function importEdit(
+  document: vscode.TextDocument,
+  uris: Array<string>
+): Promise<TextReplacement | undefined> {
+  await checkDependencies(document.uri, uris);
+  return addImports(document.getText(), uris);
+}
+
+/**
+ * Adds the missing `uris` to the imports of the document of `editor` and
+ * returns by how many characters the code below the imports moved.
+ */
+export async function insertImports(
+  editor: vscode.TextEditor,
+  uris: Array<string>
+): Promise<number> {
+  const document = editor.document;
+  const edit = await importEdit(document, uris);
+  if (!edit) {
+    return 0;
+  }
+  await editor.edit((editBuilder) =>
+    editBuilder.replace(
+      new vscode.Range(
+        document.positionAt(edit.start),
+        document.positionAt(edit.end)
+      ),
+      edit.text
+    )
+  );
+  return edit.text.length - (edit.end - edit.start);
+}
+
+/**
+ * Warns when packages imported by `uris` are not dependencies of the
+ * package containing `uri`.
+ */
+export async function checkDependencies(
+  uri: vscode.Uri,
+  uris: Array<string>
+): Promise<void> {
+  const packageRoot = await findPackageRoot(uri);
+  if (!packageRoot || !uris.some((uri) => uri.startsWith("package:"))) {
+    return;
+  }
+  const pubspecUri = vscode.Uri.joinPath(packageRoot, "pubspec.yaml");
+  let pubspec: unknown;
+  try {
+    pubspec = parse(
+      new TextDecoder().decode(await vscode.workspace.fs.readFile(pubspecUri))
+    );
+  } catch (_) {
+    return;
+  }
+
+  const missing = missingDependencies(uris, pubspec);
+  if (missing.length === 0) {
+    return;
+  }
+  // Not awaited, the generated code is inserted in the meantime
+  vscode.window
+    .showWarningMessage(
+      `${missing.join(", ")} ${
+        missing.length === 1 ? "is not a dependency" : "are not dependencies"
+      } in pubspec.yaml.`,
+      "Open pubspec.yaml"
+    )
+    .then((answer) => answer && vscode.window.showTextDocument(pubspecUri));
+}
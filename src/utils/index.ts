@@ -1,5 +1,9 @@
 export * from "./execute-command";
-export * from "./get-selected-text";
 export * from "./sdk";
+export * from "./dart-code-api";
 export * from "./wrap-with";
 
+export * from "./package-root";
+export * from "./generated-edit";
+export * from "./imports";
+export * from "./workspace-folder";
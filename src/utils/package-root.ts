@@ -0,0 +1,106 @@
+import * as vscode from "vscode";
+
+/**
+ * Finds the folder of the Dart package containing [uri]: the closest
+ * folder with a `pubspec.yaml`, up to the root of the workspace folder.
+ */
+export async function findPackageRoot(
+  uri: vscode.Uri
+): Promise<vscode.Uri | undefined> {
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+  let folder = (await isDirectory(uri)) ? uri : vscode.Uri.joinPath(uri, "..");
+  while (true) {
+    if (await exists(vscode.Uri.joinPath(folder, "pubspec.yaml"))) {
+      return folder;
+    }
+    const parent = vscode.Uri.joinPath(folder, "..");
+    if (
+      parent.path === folder.path ||
+      !workspaceFolder ||
+      folder.path === workspaceFolder.uri.path
+    ) {
+      return undefined;
+    }
+    folder = parent;
+  }
+}
+
+/**
+ * Finds the package a task runs in: the package containing `uri` or the
+ * active editor. Otherwise, e.g. in a monorepo, the only package of the
+ * workspace, or the one picked by the user, among the `projects` loaded by
+ * the Dart extension when it provides them.
+ */
+export async function pickPackageRoot(
+  uri?: vscode.Uri,
+  projects?: Array<string>
+): Promise<vscode.Uri | undefined> {
+  const start = uri ?? vscode.window.activeTextEditor?.document.uri;
+  const root = start && (await findPackageRoot(start));
+  if (root) {
+    return root;
+  }
+
+  const folder = start && vscode.workspace.getWorkspaceFolder(start);
+  const packages = projects
+    ? projects
+        .map((project) => vscode.Uri.file(project))
+        .filter(
+          (project) =>
+            !folder ||
+            vscode.workspace.getWorkspaceFolder(project)?.uri.toString() ===
+              folder.uri.toString()
+        )
+    : (
+        await vscode.workspace.findFiles(
+          folder
+            ? new vscode.RelativePattern(folder, "**/pubspec.yaml")
+            : "**/pubspec.yaml",
+          "**/{.dart_tool,build,.symlinks}/**"
+        )
+      ).map((pubspec) => vscode.Uri.joinPath(pubspec, ".."));
+  if (packages.length <= 1) {
+    return packages[0];
+  }
+  const picked = await vscode.window.showQuickPick(
+    packages
+      .map((uri) => ({ label: vscode.workspace.asRelativePath(uri), uri }))
+      .sort((a, b) => a.label.localeCompare(b.label)),
+    { placeHolder: "Package to run the task in" }
+  );
+  return picked?.uri;
+}
+
+/** Reads the `name` of the package in the `pubspec.yaml` of `packageRoot`. */
+export async function readPackageName(
+  packageRoot: vscode.Uri
+): Promise<string | undefined> {
+  try {
+    const pubspec = new TextDecoder().decode(
+      await vscode.workspace.fs.readFile(
+        vscode.Uri.joinPath(packageRoot, "pubspec.yaml")
+      )
+    );
+    return /^name:\s*['"]?([\w]+)['"]?\s*$/m.exec(pubspec)?.[1];
+  } catch (_) {
+    return undefined;
+  }
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch (_) {
+    return false;
+  }
+}
+
+async function isDirectory(uri: vscode.Uri): Promise<boolean> {
+  try {
+    const stat = await vscode.workspace.fs.stat(uri);
+    return (stat.type & vscode.FileType.Directory) !== 0;
+  } catch (_) {
+    return false;
+  }
+}
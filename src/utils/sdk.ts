@@ -1,15 +1,39 @@
 import * as vscode from "vscode";
+import { DartCodeAdapter, DartCodeApi } from "./dart-code-api";
 
 export class SdkCommands {
-    // TODO: Find an easy way to share the API signature class.
-    constructor(context: vscode.ExtensionContext, private dartExtensionApi: any) {
+    /** The API of the Dart extension, see {@link DartCodeAdapter}. */
+    public readonly api: DartCodeAdapter;
 
-        // context.subscriptions.push(vs.commands.registerCommand("flutter.createSampleProject",
-        // 	(_) => this.runFunctionIfSupported(dartExtensionApi.flutterCreateSampleProject)));
+    constructor(context: vscode.ExtensionContext, dartExtensionApi: unknown, adapter?: DartCodeAdapter) {
+        this.api = adapter ?? new DartCodeApi(dartExtensionApi);
+
+        context.subscriptions.push(vscode.commands.registerCommand("flutter-plus.sdk-info",
+            () => this.runFunctionIfSupported(() => this.showSdkInfo())));
+    }
+
+    /**
+     * Shows the active SDKs and the loaded projects, and opens the picked one.
+     */
+    private async showSdkInfo(): Promise<void> {
+        const items: Array<vscode.QuickPickItem & { path?: string }> = [
+            { label: "Dart SDK", description: this.api.dartSdk() ?? "unknown", path: this.api.dartSdk() },
+            { label: "Flutter SDK", description: this.api.flutterSdk() ?? "unknown", path: this.api.flutterSdk() },
+            { label: "Flutter version", description: this.api.flutterVersion() ?? "unknown" },
+            { label: "Projects", kind: vscode.QuickPickItemKind.Separator },
+            ...(this.api.projects() ?? []).map((folder) => ({
+                label: vscode.workspace.asRelativePath(folder) || folder,
+                path: folder,
+            })),
+        ];
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: "Dart and Flutter SDKs" });
+        if (picked?.path) {
+            await vscode.commands.executeCommand("revealFileInOS", vscode.Uri.file(picked.path));
+        }
     }
 
     private async runFunctionIfSupported<T>(f: () => Promise<T>): Promise<T | undefined> {
-        if (!f) {
+        if (!this.api.supported) {
             this.showApiMismatchError();
             return undefined;
         }
@@ -20,4 +44,4 @@ export class SdkCommands {
     private showApiMismatchError(): void {
         vscode.window.showErrorMessage("The installed version of the Dart extension does not support this feature.");
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,19 @@
+import * as vscode from "vscode";
+
+/**
+ * The workspace folder of the active editor, the only workspace folder, or
+ * the one picked by the user.
+ */
+export async function currentWorkspaceFolder(): Promise<
+  vscode.WorkspaceFolder | undefined
+> {
+  const active = vscode.window.activeTextEditor?.document.uri;
+  const folder = active && vscode.workspace.getWorkspaceFolder(active);
+  if (folder) {
+    return folder;
+  }
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  return folders.length > 1
+    ? vscode.window.showWorkspaceFolderPick()
+    : folders[0];
+}
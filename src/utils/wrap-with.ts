@@ -1,20 +1,52 @@
 /* eslint-disable curly */
 
-import { commands, SnippetString, window } from "vscode";
-import { getSelectedText } from "../utils";
+import * as path from "path";
+import { commands, Selection, SnippetString, TextEditor, window } from "vscode";
+import { CustomWrapConfig } from "../config/config";
+import { expandWrapTemplate, wrapContext } from "../generators";
+import { findWidgetRange, WidgetRange } from "../parser";
+import { insertImports } from "./imports";
 
-const interpolatedVarRegExp = /[$]/g;
-const escapedCharacterRegExp = /[\\]/g;
-
-export const wrapWith = async (snippet: (widget: string) => string) => {
+/** Wraps the widget at the cursor with `wrap`. */
+export const wrapWith = async (wrap: CustomWrapConfig) => {
   let editor = window.activeTextEditor;
-  if (!editor) return;
-  const selection = getSelectedText(editor);
-  const widget = editor.document
-    .getText(selection)
-    .replace(escapedCharacterRegExp, "\\\\")
-    .replace(interpolatedVarRegExp, "\\$");
-  //console.log('Selection:', snippet(widget));
-  editor.insertSnippet(new SnippetString(snippet(widget)), selection);
+  if (!editor || editor.document.languageId !== "dart") return;
+  const document = editor.document;
+  const widget = findWidgetRange(
+    document.getText(),
+    document.offsetAt(editor.selection.start),
+    document.offsetAt(editor.selection.end)
+  );
+  if (!widget) return;
+  await applyWrap(editor, wrap, widget, widget);
+};
+
+/**
+ * Replaces `target` with `wrap` around `child`, adds the imports of `wrap`
+ * and formats the document.
+ */
+export const applyWrap = async (
+  editor: TextEditor,
+  wrap: CustomWrapConfig,
+  target: { start: number; end: number },
+  child: WidgetRange
+) => {
+  const document = editor.document;
+  const source = document.getText();
+  const snippet = expandWrapTemplate(
+    wrap.body,
+    wrapContext(source, child, path.basename(document.uri.fsPath))
+  );
+
+  // The imports are added above the widget, which moves by their length
+  const shift = await insertImports(editor, wrap.imports ?? []);
+
+  await editor.insertSnippet(
+    new SnippetString(snippet),
+    new Selection(
+      document.positionAt(target.start + shift),
+      document.positionAt(target.end + shift)
+    )
+  );
   await commands.executeCommand("editor.action.formatDocument");
-};
\ No newline at end of file
+};
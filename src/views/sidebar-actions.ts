@@ -0,0 +1,185 @@
+import * as vscode from "vscode";
+import { projectTasks } from "../commands";
+import { FlutterPlusConfig } from "../config/config";
+import { wrapCommandId } from "../config/wrap-sources";
+import { currentWorkspaceFolder } from "../utils";
+
+/** Where an action runs, resolved when it is clicked. */
+type ActionContext = {
+  folder: vscode.WorkspaceFolder;
+  editor?: vscode.TextEditor;
+};
+
+/** A command run from the sidebar. */
+type SidebarAction = {
+  label: string;
+  /** ID of a product icon, e.g. `symbol-class`. */
+  icon: string;
+  command: string;
+  /** Arguments of the command, or a message when it cannot run. */
+  args?: (context: ActionContext) => Array<unknown> | string;
+};
+
+type SidebarGroup = {
+  label: string;
+  actions: () => Array<SidebarAction>;
+};
+
+/** The active Dart file, which the generators edit. */
+const dartFile = ({ editor }: ActionContext) =>
+  editor?.document.languageId === "dart"
+    ? [editor.document.uri]
+    : "Open a Dart file first.";
+
+/**
+ * The folder of the active file, or the workspace folder when there is none.
+ */
+const activeFolder = ({ folder, editor }: ActionContext) =>
+  editor && vscode.workspace.getWorkspaceFolder(editor.document.uri)
+    ? vscode.Uri.joinPath(editor.document.uri, "..")
+    : folder.uri;
+
+const groups: Array<SidebarGroup> = [
+  {
+    label: "Generators",
+    actions: () => [
+      {
+        label: "Create Data class",
+        icon: "symbol-class",
+        command: "flutter-plus.data",
+      },
+      {
+        label: "Create Data class from JSON",
+        icon: "json",
+        command: "flutter-plus.data-from-json",
+      },
+      {
+        label: "Create Sealed States",
+        icon: "symbol-enum",
+        command: "flutter-plus.sealed-states",
+        args: dartFile,
+      },
+      {
+        label: "Create Sealed Union",
+        icon: "symbol-enum",
+        command: "flutter-plus.sealed-union",
+        args: dartFile,
+      },
+      {
+        label: "New Sealed States...",
+        icon: "new-file",
+        command: "flutter-plus.new-sealed-states",
+        args: (context) => [activeFolder(context)],
+      },
+      {
+        label: "New Feature...",
+        icon: "new-folder",
+        command: "flutter-plus.new-feature",
+        args: (context) => [activeFolder(context)],
+      },
+      {
+        label: "Generate Models from OpenAPI",
+        icon: "symbol-interface",
+        command: "flutter-plus.openapi-models",
+      },
+    ],
+  },
+  {
+    label: "Wraps",
+    actions: () =>
+      FlutterPlusConfig.getInstance()
+        .getCustomWraps()
+        .map((wrap) => ({
+          label: `Wrap with ${wrap.name}`,
+          icon: "symbol-misc",
+          command: wrapCommandId(wrap.name),
+          args: ({ editor }) =>
+            editor?.document.languageId === "dart"
+              ? []
+              : "Open a Dart file first.",
+        })),
+  },
+  {
+    label: "Tasks",
+    actions: () => [
+      ...projectTasks.map<SidebarAction>((task) => ({
+        label: task.title,
+        icon: task.icon,
+        command: task.commandId,
+        args: (context) => [activeFolder(context)],
+      })),
+      {
+        label: "Watch Code Generation",
+        icon: "eye",
+        command: "flutter-plus.build-runner-watch",
+        args: (context) => [activeFolder(context)],
+      },
+    ],
+  },
+];
+
+/**
+ * The "Actions" view of the Flutter panel: the generators, the wraps and
+ * the project tasks. Every action runs in the workspace folder of the
+ * active editor, see {@link currentWorkspaceFolder}.
+ */
+export class SidebarActions
+  implements vscode.TreeDataProvider<SidebarGroup | SidebarAction>
+{
+  public static readonly viewId = "flutter-plus.sidebar-actions";
+  public static readonly runCommandId = "flutter-plus.sidebar-actions.run";
+
+  private readonly changes = new vscode.EventEmitter<void>();
+  public readonly onDidChangeTreeData = this.changes.event;
+
+  /** Shows the actions again, e.g. after the wraps changed. */
+  public refresh(): void {
+    this.changes.fire();
+  }
+
+  public getTreeItem(element: SidebarGroup | SidebarAction): vscode.TreeItem {
+    if ("actions" in element) {
+      return new vscode.TreeItem(
+        element.label,
+        vscode.TreeItemCollapsibleState.Expanded
+      );
+    }
+    const item = new vscode.TreeItem(element.label);
+    item.iconPath = new vscode.ThemeIcon(element.icon);
+    item.command = {
+      command: SidebarActions.runCommandId,
+      title: element.label,
+      arguments: [element],
+    };
+    return item;
+  }
+
+  public getChildren(
+    element?: SidebarGroup | SidebarAction
+  ): Array<SidebarGroup | SidebarAction> {
+    if (!element) {
+      return groups;
+    }
+    return "actions" in element ? element.actions() : [];
+  }
+
+  /** Runs `action` in the current workspace folder. */
+  public static async run(action: SidebarAction) {
+    const folder = await currentWorkspaceFolder();
+    if (!folder) {
+      return vscode.window.showErrorMessage("No workspace folder is open.");
+    }
+    const args = action.args?.({
+      folder,
+      editor: vscode.window.activeTextEditor,
+    });
+    if (typeof args === "string") {
+      return vscode.window.showErrorMessage(args);
+    }
+    await vscode.commands.executeCommand(action.command, ...(args ?? []));
+  }
+
+  public dispose(): void {
+    this.changes.dispose();
+  }
+}